@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ALT_TEXT_LIMIT } from './geminiService';
+import { LegibilityReport } from './imageLinter';
+
+/**
+ * Alt text for the current graphic plus the automated contrast check, shown under the preview.
+ */
+export const AccessibilityPanel = ({
+  image,
+  altText,
+  onAltTextChange,
+  onAltTextCommit,
+  isDescribing,
+  onRegenerate,
+  report
+}: {
+  image: string;
+  altText: string;
+  onAltTextChange: (text: string) => void;
+  onAltTextCommit: () => void;
+  isDescribing: boolean;
+  onRegenerate: () => void;
+  report: LegibilityReport | null;
+}) => {
+  const [showAreas, setShowAreas] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Alt Text</label>
+        <button onClick={onRegenerate} disabled={isDescribing} className="text-[10px] font-black text-orange-500 uppercase hover:text-orange-400 disabled:opacity-30">
+          {isDescribing ? "Describing..." : "Describe Image_"}
+        </button>
+      </div>
+      <textarea
+        value={altText}
+        onChange={e => onAltTextChange(e.target.value)}
+        onBlur={onAltTextCommit}
+        placeholder={isDescribing ? "Generating a description..." : "Describe the graphic for screen reader users..."}
+        className="w-full h-16 bg-black/40 border border-white/5 rounded-2xl p-3 text-xs resize-none focus:border-orange-500/50"
+      />
+      <p className={`text-[9px] font-bold uppercase tracking-widest ${altText.length > ALT_TEXT_LIMIT ? 'text-yellow-500' : 'text-gray-600'}`}>
+        {altText.length}/{ALT_TEXT_LIMIT} recommended
+      </p>
+
+      {report && (
+        <div className="space-y-2">
+          {report.issues.length ? report.issues.map((issue, i) => (
+            <p key={i} className="text-[10px] leading-snug text-yellow-500">! {issue.message}</p>
+          )) : (
+            <p className="text-[9px] font-bold uppercase tracking-widest text-gray-600">
+              {report.textBlocks ? `Text contrast OK (${report.worstRatio!.toFixed(1)}:1 or better)` : "No text detected for the contrast check"}
+            </p>
+          )}
+          {report.lowContrast.length > 0 && (
+            <button onClick={() => setShowAreas(s => !s)} className="text-[10px] font-black text-orange-500 uppercase">
+              {showAreas ? "Hide Areas_" : "Show Low-Contrast Areas_"}
+            </button>
+          )}
+          {showAreas && (
+            <div className="relative w-48">
+              <img src={image} className="w-full rounded-lg" alt="" />
+              {report.lowContrast.map((r, i) => (
+                <div
+                  key={i}
+                  title={`${r.ratio.toFixed(1)}:1`}
+                  style={{ left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.w * 100}%`, height: `${r.h * 100}%` }}
+                  className="absolute border border-red-500 bg-red-500/20"
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import {
+  PublishedPost,
+  Dimension,
+  DIMENSIONS,
+  breakdown,
+  parseAnalytics,
+  matchAnalytics,
+  savePublished,
+  deletePublished
+} from './analyticsService';
+import { PLATFORMS } from './platforms';
+
+type Metric = 'avgImpressions' | 'avgReactions' | 'engagementRate';
+
+const METRICS: { id: Metric; label: string }[] = [
+  { id: 'avgImpressions', label: 'Avg Impressions' },
+  { id: 'avgReactions', label: 'Avg Reactions' },
+  { id: 'engagementRate', label: 'Engagement Rate' },
+];
+
+const formatMetric = (metric: Metric, value: number) =>
+  metric === 'engagementRate' ? `${(value * 100).toFixed(1)}%` : Math.round(value).toLocaleString();
+
+/**
+ * Published-post history plus imported LinkedIn metrics, broken down by what we control:
+ * tone, style reference, posting day and time, and caption length.
+ */
+export const AnalyticsDashboard = ({
+  posts,
+  setPosts,
+  onClose,
+  notify
+}: {
+  posts: PublishedPost[];
+  setPosts: (updater: (prev: PublishedPost[]) => PublishedPost[]) => void;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [dimension, setDimension] = useState<Dimension>('tone');
+  const [metric, setMetric] = useState<Metric>('avgImpressions');
+  const [importing, setImporting] = useState(false);
+  const measured = posts.filter(p => p.metrics).length;
+  const buckets = breakdown(posts, dimension);
+  const peak = Math.max(...buckets.map(b => b[metric]), 0);
+  // A single post says little; only buckets with a few measured posts can be "best"
+  const best = buckets.filter(b => b.measured >= 2).sort((a, b) => b[metric] - a[metric])[0];
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const rows = await parseAnalytics(file.name, await file.arrayBuffer());
+      const { updated, unmatched } = matchAnalytics(posts, rows);
+      await savePublished(updated);
+      setPosts(list => list.map(p => updated.find(u => u.id === p.id) || p));
+      notify(`${updated.length} Posts Matched${unmatched.length ? `, ${unmatched.length} Unmatched` : ''}`, updated.length ? 'success' : 'error');
+    } catch (e) {
+      notify(e instanceof Error ? `Import Failed: ${e.message}` : "Import Failed", 'error');
+    } finally { setImporting(false); }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePublished(id);
+      setPosts(list => list.filter(p => p.id !== id));
+    } catch (e) { notify("History Write Failed", 'error'); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-6xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center gap-4 shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Insights_</h2>
+          <span className="text-[10px] text-gray-500 font-black uppercase tracking-widest">{posts.length} published • {measured} with metrics</span>
+          <label className={`ml-auto px-4 py-2 bg-orange-600 text-black rounded-lg text-[10px] font-black uppercase tracking-widest cursor-pointer ${importing ? 'opacity-50 pointer-events-none' : ''}`}>
+            {importing ? "Importing..." : "Import LinkedIn Analytics_"}
+            <input type="file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" className="hidden" onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }} />
+          </label>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+
+        <div className="flex-grow grid md:grid-cols-[1.4fr_1fr] overflow-hidden">
+          <div className="p-6 border-r border-white/5 space-y-6 overflow-y-auto">
+            <div className="flex flex-wrap gap-3 justify-between">
+              <div className="flex bg-black rounded-xl border border-white/10 p-1">
+                {DIMENSIONS.map(d => (
+                  <button key={d.id} onClick={() => setDimension(d.id)} className={`px-3 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg ${dimension === d.id ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>{d.label}</button>
+                ))}
+              </div>
+              <select value={metric} onChange={e => setMetric(e.target.value as Metric)} className="bg-black border border-white/10 rounded-xl px-3 py-2 text-[10px] font-black uppercase outline-none">
+                {METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+            </div>
+
+            {!measured ? (
+              <p className="py-16 text-center text-gray-600 text-xs uppercase tracking-widest">
+                {posts.length ? "Import a LinkedIn analytics export to see performance" : "Published posts will appear here"}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {best && (
+                  <p className="text-xs text-gray-300">Best so far: <span className="font-black text-orange-500">{best.label}</span> at {formatMetric(metric, best[metric])} over {best.measured} posts.</p>
+                )}
+                {buckets.map(b => (
+                  <div key={b.key} className="grid grid-cols-[140px_1fr_auto] gap-3 items-center">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {b.thumb && <img src={b.thumb} className="w-8 h-8 rounded-md object-cover shrink-0" alt="" />}
+                      <span className="text-xs font-bold truncate" title={b.label}>{b.label}</span>
+                    </div>
+                    <div className="h-6 bg-white/5 rounded-md overflow-hidden">
+                      <div className={`h-full rounded-md ${b === best ? 'bg-orange-600' : 'bg-orange-600/40'}`} style={{ width: `${peak ? (b[metric] / peak) * 100 : 0}%` }} />
+                    </div>
+                    <span className="text-[10px] font-mono text-gray-400 w-28 text-right">
+                      {b.measured ? formatMetric(metric, b[metric]) : '—'} <span className="text-gray-600">({b.measured}/{b.posts})</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="p-6 space-y-3 overflow-y-auto">
+            <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Published</label>
+            {posts.map(p => (
+              <div key={p.id} className="flex gap-3 p-3 rounded-xl bg-black/40 border border-white/5">
+                {p.image
+                  ? <img src={p.image} className="w-12 h-14 rounded-md object-cover shrink-0" alt="" />
+                  : <div className="w-12 h-14 rounded-md border border-white/10 shrink-0" />}
+                <div className="min-w-0 flex-grow space-y-1">
+                  <p className="text-xs line-clamp-2">{p.caption}</p>
+                  <p className="text-[10px] text-gray-500">
+                    {new Date(p.publishedAt).toLocaleString()} • {PLATFORMS[p.platform].label} • {p.toneName}
+                  </p>
+                  {p.metrics && (
+                    <p className="text-[10px] font-mono text-green-400">
+                      {p.metrics.impressions.toLocaleString()} impr • {p.metrics.reactions} react • {p.metrics.comments} comm • {p.metrics.reposts} rep
+                    </p>
+                  )}
+                </div>
+                <button onClick={() => handleDelete(p.id)} className="self-start text-[10px] font-black text-red-500 uppercase">Remove</button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
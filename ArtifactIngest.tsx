@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import {
+  Artifact,
+  ArtifactKind,
+  ARTIFACT_KINDS,
+  FACT_KINDS,
+  parseArtifact,
+  summarizeFacts
+} from './artifactService';
+
+const ACCEPTED_FILES = ".txt,.log,.patch,.diff,.md,.markdown,text/plain,text/markdown";
+
+/**
+ * Turns pasted or uploaded engineering artifacts into facts to tick, and hands the
+ * ticked ones back as a structured brief for the caption prompts.
+ */
+export const ArtifactIngest = ({
+  artifacts,
+  setArtifacts,
+  onUse,
+  onClose,
+  notify
+}: {
+  artifacts: Artifact[];
+  setArtifacts: (updater: (prev: Artifact[]) => Artifact[]) => void;
+  onUse: (summary: string) => void;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [pasted, setPasted] = useState('');
+  const facts = artifacts.flatMap(a => a.facts);
+  const selected = facts.filter(f => f.selected);
+
+  const addArtifact = (name: string, text: string) => {
+    if (!text.trim()) return;
+    const artifact = parseArtifact(name, text);
+    if (!artifact.facts.length) notify(`No Facts Found In ${name}`, 'error');
+    setArtifacts(list => [...list, artifact]);
+  };
+
+  const handleFiles = async (files: FileList) => {
+    for (const file of Array.from(files)) {
+      try {
+        addArtifact(file.name, await file.text());
+      } catch (e) {
+        notify(`Could Not Read ${file.name}`, 'error');
+      }
+    }
+  };
+
+  const reparse = (id: string, kind: ArtifactKind) =>
+    setArtifacts(list => list.map(a => a.id === id ? { ...parseArtifact(a.name, a.text, kind), id } : a));
+
+  const toggleFacts = (ids: string[], value: boolean) =>
+    setArtifacts(list => list.map(a => ({ ...a, facts: a.facts.map(f => ids.includes(f.id) ? { ...f, selected: value } : f) })));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-6xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-yellow-500 uppercase">Source Artifacts_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+
+        <div className="flex-grow grid md:grid-cols-[1fr_1.3fr] overflow-hidden">
+          <div className="p-6 border-r border-white/5 space-y-4 overflow-y-auto">
+            <textarea
+              value={pasted}
+              onChange={e => setPasted(e.target.value)}
+              placeholder="Paste git log output, a .patch, a PR/issue description or a CHANGELOG section..."
+              className="w-full h-40 bg-black border border-white/10 rounded-xl p-3 text-xs font-mono outline-none focus:border-yellow-500 resize-none"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={() => { addArtifact(`Pasted ${artifacts.length + 1}`, pasted); setPasted(''); }}
+                disabled={!pasted.trim()}
+                className="flex-1 py-3 bg-yellow-600 text-black font-black rounded-xl uppercase tracking-widest text-[10px] disabled:opacity-30"
+              >
+                Add Pasted_
+              </button>
+              <label className="flex-1 py-3 text-center bg-white/5 border border-white/10 font-black rounded-xl uppercase tracking-widest text-[10px] cursor-pointer hover:bg-white/10">
+                Upload Files_
+                <input type="file" multiple accept={ACCEPTED_FILES} className="hidden" onChange={e => {
+                  if (e.target.files) handleFiles(e.target.files);
+                  e.target.value = '';
+                }} />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              {artifacts.map(a => (
+                <div key={a.id} className="flex items-center gap-3 p-3 rounded-xl bg-black/40 border border-white/5">
+                  <span className="flex-1 text-xs font-bold truncate" title={a.name}>{a.name}</span>
+                  <span className="text-[10px] text-gray-500 font-mono">{a.facts.length} facts</span>
+                  <select
+                    value={a.kind}
+                    onChange={e => reparse(a.id, e.target.value as ArtifactKind)}
+                    className="bg-black border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black uppercase outline-none"
+                    title="Parse as"
+                  >
+                    {ARTIFACT_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+                  </select>
+                  <button onClick={() => setArtifacts(list => list.filter(x => x.id !== a.id))} className="text-[10px] font-black text-red-500 uppercase">Remove</button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-6 overflow-y-auto space-y-6">
+            {facts.length === 0 ? (
+              <p className="py-16 text-center text-gray-600 text-xs uppercase tracking-widest">Add an artifact to extract facts</p>
+            ) : FACT_KINDS.map(k => {
+              const group = facts.filter(f => f.kind === k.id);
+              if (!group.length) return null;
+              const allOn = group.every(f => f.selected);
+              return (
+                <div key={k.id} className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">{k.label} ({group.filter(f => f.selected).length}/{group.length})</label>
+                    <button onClick={() => toggleFacts(group.map(f => f.id), !allOn)} className="text-[10px] font-black text-yellow-500 uppercase">{allOn ? "None" : "All"}</button>
+                  </div>
+                  {group.map(f => (
+                    <label key={f.id} className="flex items-start gap-3 p-2 rounded-lg hover:bg-white/5 cursor-pointer">
+                      <input type="checkbox" checked={f.selected} onChange={() => toggleFacts([f.id], !f.selected)} className="mt-0.5 accent-yellow-500" />
+                      <span className={`text-xs flex-1 ${f.selected ? 'text-gray-200' : 'text-gray-600'}`}>{f.text}</span>
+                      {f.context && <span className="text-[9px] font-mono text-gray-600">{f.context}</span>}
+                    </label>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0">
+          <button
+            onClick={() => { onUse(summarizeFacts(selected)); onClose(); }}
+            disabled={!selected.length}
+            className="w-full py-4 bg-yellow-600 text-black font-black rounded-xl transition-all disabled:opacity-50 uppercase tracking-widest text-xs"
+          >
+            USE {selected.length} FACTS AS SOURCE_
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
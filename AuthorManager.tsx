@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import {
+  AuthorProfile,
+  DEFAULT_AUTHOR,
+  exportAuthors,
+  importAuthors
+} from './authorService';
+import { normalizeHashtag } from './brandService';
+import { ToneProfile } from './toneService';
+
+const inputClass = "w-full bg-black border border-white/10 rounded-xl p-3 text-xs outline-none focus:border-orange-500";
+const labelClass = "text-[10px] text-gray-500 font-black uppercase tracking-widest";
+
+const readFileAsDataURL = (file: File) => new Promise<string>((resolve) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.readAsDataURL(file);
+});
+
+const AuthorForm = ({ author, tones, onChange }: { author: AuthorProfile; tones: ToneProfile[]; onChange: (a: AuthorProfile) => void }) => {
+  const [hashtagDraft, setHashtagDraft] = useState(author.hashtags.join(' '));
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-[1fr_auto] gap-4">
+        <div className="space-y-2">
+          <label className={labelClass}>Display Name</label>
+          <input value={author.name} onChange={e => onChange({ ...author, name: e.target.value })} className={inputClass} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Posts As</label>
+          <div className="flex bg-black rounded-xl border border-white/10 p-1">
+            {(['person', 'page'] as const).map(kind => (
+              <button key={kind} onClick={() => onChange({ ...author, kind })} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg ${author.kind === kind ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>
+                {kind === 'person' ? 'Member' : 'Company Page'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Headline</label>
+        <input value={author.headline} onChange={e => onChange({ ...author, headline: e.target.value })} placeholder="Staff Engineer, Platform Team" className={inputClass} />
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Avatar (URL or upload)</label>
+        <div className="flex gap-3 items-center">
+          {author.avatar
+            ? <img src={author.avatar} className="w-12 h-12 object-cover bg-white/5 rounded-full shrink-0" alt="Avatar" />
+            : <div className="w-12 h-12 rounded-full bg-white/5 shrink-0" />}
+          <input
+            value={author.avatar?.startsWith('data:') ? '' : author.avatar || ''}
+            onChange={e => onChange({ ...author, avatar: e.target.value || null })}
+            placeholder={author.avatar?.startsWith('data:') ? "Uploaded image — paste a URL to replace" : "https://..."}
+            className={inputClass}
+          />
+          <label className="shrink-0 text-[10px] font-black text-orange-500 uppercase cursor-pointer">
+            Upload_
+            <input type="file" accept="image/*" className="hidden" onChange={async e => {
+              const file = e.target.files?.[0];
+              if (file) onChange({ ...author, avatar: await readFileAsDataURL(file) });
+            }} />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>LinkedIn Account / Page ID</label>
+        <input
+          value={author.account}
+          onChange={e => onChange({ ...author, account: e.target.value })}
+          placeholder={author.kind === 'page' ? "urn:li:organization:12345" : "urn:li:person:abc123 or vanity name"}
+          className={inputClass}
+        />
+        <p className="text-[10px] text-gray-600">Sent to the posting webhook as <span className="font-mono">target</span>; leave blank to use the workflow's default account.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Default Tone</label>
+        <select value={author.defaultToneId || ''} onChange={e => onChange({ ...author, defaultToneId: e.target.value || null })} className={inputClass}>
+          <option value="">Keep current tone</option>
+          {tones.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Personal Hashtags</label>
+        <input
+          value={hashtagDraft}
+          onChange={e => setHashtagDraft(e.target.value)}
+          onBlur={() => onChange({ ...author, hashtags: hashtagDraft.split(/[\s,]+/).map(normalizeHashtag).filter(Boolean) })}
+          placeholder="#PlatformEngineering #Rust"
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const AuthorManager = ({
+  authors,
+  activeId,
+  tones,
+  onSave,
+  onClose,
+  onError
+}: {
+  authors: AuthorProfile[];
+  activeId: string;
+  tones: ToneProfile[];
+  onSave: (authors: AuthorProfile[]) => void;
+  onClose: () => void;
+  onError: (msg: string) => void;
+}) => {
+  const [drafts, setDrafts] = useState(authors);
+  const [selectedId, setSelectedId] = useState(activeId);
+  const selected = drafts.find(a => a.id === selectedId) || drafts[0];
+
+  const updateSelected = (a: AuthorProfile) => setDrafts(ds => ds.map(d => d.id === a.id ? a : d));
+
+  const addAuthor = (base: AuthorProfile) => {
+    const copy = { ...base, id: crypto.randomUUID(), name: `${base.name} Copy` };
+    setDrafts(ds => [...ds, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const deleteSelected = () => {
+    const remaining = drafts.filter(d => d.id !== selected.id);
+    setDrafts(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportAuthors(drafts)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'barq-authors.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importAuthors(await file.text());
+      // Imported authors replace local ones with the same id
+      setDrafts(ds => [...ds.filter(d => !imported.some(i => i.id === d.id)), ...imported]);
+      setSelectedId(imported[0].id);
+    } catch (e) {
+      onError(e instanceof Error ? `Import failed: ${e.message}` : "Import failed");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-4xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Authors_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="flex-grow grid md:grid-cols-[200px_1fr] overflow-hidden">
+          <div className="p-4 border-r border-white/5 space-y-2 overflow-y-auto">
+            {drafts.map(a => (
+              <button key={a.id} onClick={() => setSelectedId(a.id)} className={`w-full text-left px-3 py-2 rounded-lg text-xs font-bold truncate ${a.id === selected.id ? 'bg-orange-600 text-black' : 'text-gray-400 hover:bg-white/5'}`}>
+                {a.name || "(unnamed)"}{a.kind === 'page' && <span className="opacity-50"> • page</span>}
+              </button>
+            ))}
+            <div className="pt-4 space-y-2 border-t border-white/5">
+              <button onClick={() => addAuthor({ ...DEFAULT_AUTHOR, name: 'New Author', headline: '' })} className="block text-[10px] font-black text-orange-500 uppercase">New_</button>
+              <button onClick={() => addAuthor(selected)} className="block text-[10px] font-black text-orange-500 uppercase">Duplicate_</button>
+              <button onClick={deleteSelected} disabled={drafts.length < 2} className="block text-[10px] font-black text-red-500 uppercase disabled:opacity-30">Delete_</button>
+              <button onClick={handleExport} className="block text-[10px] font-black text-gray-400 hover:text-white uppercase">Export JSON_</button>
+              <label className="block text-[10px] font-black text-gray-400 hover:text-white uppercase cursor-pointer">
+                Import JSON_
+                <input type="file" accept="application/json,.json" className="hidden" onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }} />
+              </label>
+            </div>
+          </div>
+          <div className="p-6 overflow-y-auto">
+            <React.Fragment key={selected.id}>
+              <AuthorForm author={selected} tones={tones} onChange={updateSelected} />
+            </React.Fragment>
+          </div>
+        </div>
+        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0">
+          <button
+            onClick={() => { onSave(drafts); onClose(); }}
+            disabled={drafts.some(d => !d.name.trim())}
+            className="w-full py-4 bg-orange-600 text-black font-black rounded-xl transition-all disabled:opacity-50 uppercase tracking-widest text-xs"
+          >
+            SAVE AUTHORS_
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import {
+  BatchRow,
+  BatchStatus,
+  BatchContext,
+  MAX_CONCURRENCY,
+  parseBatchFile,
+  createRows,
+  runWithConcurrency,
+  generateBatchRow,
+  exportBatch
+} from './batchService';
+import { ScheduleDialog } from './SchedulePanel';
+import { describeError } from './serviceErrors';
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: 'bg-white/5 border-white/10 text-gray-400',
+  running: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400 animate-pulse',
+  ready: 'bg-orange-500/10 border-orange-500/20 text-orange-400',
+  failed: 'bg-red-500/10 border-red-500/20 text-red-400',
+  approved: 'bg-green-500/10 border-green-500/20 text-green-400',
+};
+
+const SPACING_OPTIONS = [
+  { hours: 0, label: 'All At Once' },
+  { hours: 1, label: 'Hourly' },
+  { hours: 24, label: 'Daily' },
+  { hours: 24 * 7, label: 'Weekly' },
+];
+
+const BatchRowView = ({
+  row,
+  index,
+  busy,
+  onChange,
+  onRegenerate,
+  onRemove
+}: {
+  row: BatchRow;
+  index: number;
+  busy: boolean;
+  onChange: (row: BatchRow) => void;
+  onRegenerate: () => void;
+  onRemove: () => void;
+}) => (
+  <div className="grid grid-cols-[2rem_6rem_1fr] gap-4 p-4 bg-black/40 border border-white/5 rounded-2xl">
+    <span className="text-[10px] font-black text-gray-600">{String(index + 1).padStart(2, '0')}</span>
+    <div className="w-24 h-24 rounded-xl bg-white/5 border border-white/5 overflow-hidden flex items-center justify-center">
+      {row.image
+        ? <img src={row.image} className="w-full h-full object-cover" />
+        : <span className="text-[9px] text-gray-700 uppercase font-black">{row.status === 'running' ? '...' : 'No Image'}</span>}
+    </div>
+    <div className="space-y-2 min-w-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`px-2 py-0.5 rounded-md border text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+        <span className="text-[9px] font-black uppercase tracking-widest text-gray-500">{row.tone}</span>
+        {row.author && <span className="text-[9px] font-black uppercase tracking-widest text-gray-500">• {row.author}</span>}
+        {row.language && <span className="text-[9px] font-black uppercase tracking-widest text-gray-500">• {row.language}</span>}
+        {row.styleRef && <span className="text-[9px] font-black uppercase tracking-widest text-gray-500">• Style Ref</span>}
+        {row.usedTemplate && <span className="text-[9px] font-black uppercase tracking-widest text-yellow-500">• Quick Template</span>}
+      </div>
+      <p className="text-xs text-gray-300 truncate" title={row.accomplishment}>{row.accomplishment}</p>
+      {row.headline && <p className="text-xs font-bold text-white">{row.headline}</p>}
+      {row.error && <p className="text-[10px] text-red-400">{row.error}</p>}
+      {row.imageIssues?.map((issue, i) => <p key={i} className="text-[10px] text-yellow-500">! {issue}</p>)}
+      {row.caption && (
+        <textarea
+          dir="auto"
+          value={row.caption}
+          onChange={e => onChange({ ...row, caption: e.target.value })}
+          className="w-full h-24 bg-black border border-white/10 rounded-xl p-2 text-xs text-gray-300 outline-none focus:border-orange-500 resize-none"
+        />
+      )}
+      {row.image && (
+        <input
+          value={row.altText}
+          onChange={e => onChange({ ...row, altText: e.target.value })}
+          placeholder="Alt text..."
+          className="w-full bg-black border border-white/10 rounded-xl p-2 text-[11px] text-gray-400 outline-none focus:border-orange-500"
+        />
+      )}
+      <div className="flex gap-4">
+        {(row.status === 'ready' || row.status === 'approved') && (
+          <button onClick={() => onChange({ ...row, status: row.status === 'approved' ? 'ready' : 'approved' })} className="text-[10px] font-black text-green-500 uppercase">
+            {row.status === 'approved' ? "Unapprove_" : "Approve_"}
+          </button>
+        )}
+        <button onClick={onRegenerate} disabled={busy} className="text-[10px] font-black text-orange-500 uppercase disabled:opacity-30">Regenerate_</button>
+        <button onClick={onRemove} disabled={row.status === 'running'} className="text-[10px] font-black text-red-500 uppercase disabled:opacity-30">Remove_</button>
+      </div>
+    </div>
+  </div>
+);
+
+export const BatchGenerator = ({
+  rows,
+  setRows,
+  context,
+  onQueue,
+  onClose,
+  notify
+}: {
+  rows: BatchRow[];
+  setRows: React.Dispatch<React.SetStateAction<BatchRow[]>>;
+  context: BatchContext | null;
+  onQueue: (rows: BatchRow[], scheduledAt: string, timeZone: string, spacingHours: number) => Promise<string[]>;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [concurrency, setConcurrency] = useState(2);
+  const [spacingHours, setSpacingHours] = useState(24);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const approved = rows.filter(r => r.status === 'approved');
+  const pending = rows.filter(r => r.status === 'queued' || r.status === 'failed');
+  const done = rows.filter(r => r.status === 'ready' || r.status === 'approved').length;
+
+  const updateRow = (id: string, patch: Partial<BatchRow>) => setRows(rs => rs.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const runRow = async (row: BatchRow) => {
+    if (!context) return;
+    updateRow(row.id, { status: 'running', error: undefined });
+    try {
+      updateRow(row.id, { ...await generateBatchRow(row, context), status: 'ready' });
+    } catch (e) {
+      updateRow(row.id, { status: 'failed', error: describeError(e, "Generation failed") });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = createRows(parseBatchFile(file.name, await file.text()));
+      setRows(rs => [...rs, ...imported]);
+      notify(`${imported.length} Rows Imported`, 'success');
+    } catch (e) {
+      notify(e instanceof Error ? `Import failed: ${e.message}` : "Import failed", 'error');
+    }
+  };
+
+  const handleRunAll = async () => {
+    setIsRunning(true);
+    try {
+      await runWithConcurrency(pending, concurrency, runRow);
+      notify("Batch Complete", 'success');
+    } finally { setIsRunning(false); }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportBatch(approved)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `barq-batch-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleQueue = async (scheduledAt: string, timeZone: string) => {
+    // Only rows that made it into the queue leave the batch, so a retry doesn't queue any twice
+    try {
+      const queued = await onQueue(approved, scheduledAt, timeZone, spacingHours);
+      setRows(rs => rs.filter(r => !queued.includes(r.id)));
+    } catch (e) { notify(describeError(e, "Queue Write Failed"), 'error'); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-5xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <div>
+            <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Batch Forge_</h2>
+            <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">{done}/{rows.length} Generated • {approved.length} Approved</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+
+        <div className="p-6 border-b border-white/5 flex flex-wrap gap-4 items-center shrink-0">
+          <label className="px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest cursor-pointer hover:bg-white/10">
+            Import CSV / JSON_
+            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }} />
+          </label>
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-500">
+            Parallel
+            <select value={concurrency} onChange={e => setConcurrency(Number(e.target.value))} className="bg-black border border-white/10 rounded-lg p-2 text-xs text-white outline-none">
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button onClick={handleRunAll} disabled={isRunning || !pending.length || !context} className="px-5 py-3 bg-orange-600 text-black font-black rounded-xl uppercase tracking-widest text-[10px] disabled:opacity-30">
+            {isRunning ? "FORGING..." : `Generate ${pending.length} Rows_`}
+          </button>
+          <button onClick={() => setRows(rs => rs.map(r => r.status === 'ready' ? { ...r, status: 'approved' } : r))} className="text-[10px] font-black text-green-500 uppercase">Approve All Ready_</button>
+          {!isRunning && rows.length > 0 && <button onClick={() => setRows([])} className="text-[10px] font-black text-red-500 uppercase">Clear_</button>}
+          {!context && <span className="text-[10px] text-yellow-500 uppercase tracking-widest">Waiting for brand logo…</span>}
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-3">
+          {rows.length === 0 ? (
+            <div className="py-16 text-center space-y-2">
+              <p className="text-gray-600 text-xs uppercase tracking-widest">No rows yet</p>
+              <p className="text-[10px] text-gray-700 font-mono">accomplishment,tone,style_ref,author,language</p>
+            </div>
+          ) : rows.map((row, i) => (
+            <React.Fragment key={row.id}>
+              <BatchRowView
+                row={row}
+                index={i}
+                busy={row.status === 'running' || !context}
+                onChange={next => updateRow(row.id, next)}
+                onRegenerate={() => runRow(row)}
+                onRemove={() => setRows(rs => rs.filter(r => r.id !== row.id))}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0 flex flex-wrap gap-4 items-center">
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-500">
+            Spacing
+            <select value={spacingHours} onChange={e => setSpacingHours(Number(e.target.value))} className="bg-black border border-white/10 rounded-lg p-2 text-xs text-white outline-none">
+              {SPACING_OPTIONS.map(o => <option key={o.hours} value={o.hours}>{o.label}</option>)}
+            </select>
+          </label>
+          <button onClick={handleExport} disabled={!approved.length} className="flex-1 py-4 bg-white/5 border border-white/10 font-black rounded-xl uppercase tracking-widest text-xs disabled:opacity-30">Export {approved.length} Approved_</button>
+          <button onClick={() => setIsScheduleOpen(true)} disabled={!approved.length} className="flex-1 py-4 bg-orange-600 text-black font-black rounded-xl uppercase tracking-widest text-xs disabled:opacity-30">Queue {approved.length} Approved_</button>
+        </div>
+      </div>
+
+      {isScheduleOpen && <ScheduleDialog onClose={() => setIsScheduleOpen(false)} onConfirm={handleQueue} notify={notify} />}
+    </div>
+  );
+};
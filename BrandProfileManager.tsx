@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import {
+  BrandProfile,
+  newProfile,
+  normalizeHashtag,
+  exportProfiles,
+  importProfiles
+} from './brandService';
+
+const inputClass = "w-full bg-black border border-white/10 rounded-xl p-3 text-xs outline-none focus:border-orange-500";
+const labelClass = "text-[10px] text-gray-500 font-black uppercase tracking-widest";
+
+const readFileAsDataURL = (file: File) => new Promise<string>((resolve) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.readAsDataURL(file);
+});
+
+const ProfileForm = ({ profile, onChange }: { profile: BrandProfile; onChange: (p: BrandProfile) => void }) => {
+  const [hashtagDraft, setHashtagDraft] = useState(profile.mandatoryHashtags.join(' '));
+
+  const setColor = (index: number, field: 'name' | 'hex', value: string) => {
+    onChange({ ...profile, colors: profile.colors.map((c, i) => i === index ? { ...c, [field]: value } : c) });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <label className={labelClass}>Profile Name</label>
+        <input value={profile.name} onChange={e => onChange({ ...profile, name: e.target.value })} className={inputClass} />
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Logo (URL or upload)</label>
+        <div className="flex gap-3 items-center">
+          {profile.logoUrl
+            ? <img src={profile.logoUrl} className="w-12 h-12 object-contain bg-white/5 rounded-lg shrink-0" alt="Logo" />
+            : <div className="w-12 h-12 bg-white/5 rounded-lg shrink-0" />}
+          <input
+            value={profile.logoUrl.startsWith('data:') ? '' : profile.logoUrl}
+            onChange={e => onChange({ ...profile, logoUrl: e.target.value })}
+            placeholder={profile.logoUrl.startsWith('data:') ? "Uploaded image — paste a URL to replace" : "https://..."}
+            className={inputClass}
+          />
+          <label className="shrink-0 text-[10px] font-black text-orange-500 uppercase cursor-pointer">
+            Upload_
+            <input type="file" accept="image/*" className="hidden" onChange={async e => {
+              const file = e.target.files?.[0];
+              if (file) onChange({ ...profile, logoUrl: await readFileAsDataURL(file) });
+            }} />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Palette (edge → centre)</label>
+        {profile.colors.slice(0, 2).map((c, i) => (
+          <div key={i} className="flex gap-3 items-center">
+            <input type="color" value={c.hex} onChange={e => setColor(i, 'hex', e.target.value)} className="w-10 h-10 bg-transparent shrink-0" />
+            <input value={c.name} onChange={e => setColor(i, 'name', e.target.value)} placeholder="Colour name used in prompts" className={inputClass} />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Default Style Reference</label>
+        <div className="flex gap-3 items-center">
+          {profile.defaultStyleRef ? (
+            <>
+              <img src={profile.defaultStyleRef} className="w-12 h-12 object-cover rounded-lg" alt="Default style" />
+              <button onClick={() => onChange({ ...profile, defaultStyleRef: null })} className="text-[10px] font-black text-red-500 uppercase">Clear_</button>
+            </>
+          ) : (
+            <label className="text-[10px] font-black text-orange-500 uppercase cursor-pointer">
+              Upload Reference_
+              <input type="file" accept="image/*" className="hidden" onChange={async e => {
+                const file = e.target.files?.[0];
+                if (file) onChange({ ...profile, defaultStyleRef: await readFileAsDataURL(file) });
+              }} />
+            </label>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Mandatory Hashtags</label>
+        <input
+          value={hashtagDraft}
+          onChange={e => setHashtagDraft(e.target.value)}
+          onBlur={() => onChange({ ...profile, mandatoryHashtags: hashtagDraft.split(/[\s,]+/).map(normalizeHashtag).filter(Boolean) })}
+          placeholder="#BrandName #Engineering"
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Webhooks</label>
+        {(['image', 'edit', 'publish', 'review', 'manage'] as const).map(key => (
+          <div key={key} className="flex gap-3 items-center">
+            <span className="w-16 shrink-0 text-[10px] font-bold uppercase text-gray-600">{key}</span>
+            <input value={profile.webhooks[key]} onChange={e => onChange({ ...profile, webhooks: { ...profile.webhooks, [key]: e.target.value } })} placeholder={key === 'review' ? "Optional review sync URL" : key === 'manage' ? "Optional delete / edit caption URL" : "Required"} className={inputClass} />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Text Model</label>
+        <input value={profile.models.text} onChange={e => onChange({ ...profile, models: { ...profile.models, text: e.target.value } })} className={inputClass} />
+      </div>
+    </div>
+  );
+};
+
+export const BrandProfileManager = ({
+  profiles,
+  activeId,
+  onSave,
+  onClose,
+  onError
+}: {
+  profiles: BrandProfile[];
+  activeId: string;
+  onSave: (profiles: BrandProfile[]) => void;
+  onClose: () => void;
+  onError: (msg: string) => void;
+}) => {
+  const [drafts, setDrafts] = useState(profiles);
+  const [selectedId, setSelectedId] = useState(activeId);
+  const selected = drafts.find(p => p.id === selectedId) || drafts[0];
+
+  const updateSelected = (p: BrandProfile) => setDrafts(ds => ds.map(d => d.id === p.id ? p : d));
+
+  const addProfile = (base: BrandProfile) => {
+    const copy = { ...base, id: crypto.randomUUID(), name: `${base.name} Copy` };
+    setDrafts(ds => [...ds, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const deleteSelected = () => {
+    const remaining = drafts.filter(d => d.id !== selected.id);
+    setDrafts(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportProfiles(drafts)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'barq-brand-profiles.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importProfiles(await file.text());
+      // Imported profiles replace local ones with the same id
+      setDrafts(ds => [...ds.filter(d => !imported.some(i => i.id === d.id)), ...imported]);
+      setSelectedId(imported[0].id);
+    } catch (e) {
+      onError(e instanceof Error ? `Import failed: ${e.message}` : "Import failed");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-4xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Brand Profiles_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="flex-grow grid md:grid-cols-[200px_1fr] overflow-hidden">
+          <div className="p-4 border-r border-white/5 space-y-2 overflow-y-auto">
+            {drafts.map(p => (
+              <button key={p.id} onClick={() => setSelectedId(p.id)} className={`w-full text-left px-3 py-2 rounded-lg text-xs font-bold truncate ${p.id === selected.id ? 'bg-orange-600 text-black' : 'text-gray-400 hover:bg-white/5'}`}>
+                {p.name || "(unnamed)"}
+              </button>
+            ))}
+            <div className="pt-4 space-y-2 border-t border-white/5">
+              <button onClick={() => addProfile(newProfile('New Brand'))} className="block text-[10px] font-black text-orange-500 uppercase">New_</button>
+              <button onClick={() => addProfile(selected)} className="block text-[10px] font-black text-orange-500 uppercase">Duplicate_</button>
+              <button onClick={deleteSelected} disabled={drafts.length < 2} className="block text-[10px] font-black text-red-500 uppercase disabled:opacity-30">Delete_</button>
+              <button onClick={handleExport} className="block text-[10px] font-black text-gray-400 hover:text-white uppercase">Export JSON_</button>
+              <label className="block text-[10px] font-black text-gray-400 hover:text-white uppercase cursor-pointer">
+                Import JSON_
+                <input type="file" accept="application/json,.json" className="hidden" onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }} />
+              </label>
+            </div>
+          </div>
+          <div className="p-6 overflow-y-auto">
+            <React.Fragment key={selected.id}>
+              <ProfileForm profile={selected} onChange={updateSelected} />
+            </React.Fragment>
+          </div>
+        </div>
+        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0">
+          <button
+            onClick={() => { onSave(drafts); onClose(); }}
+            disabled={drafts.some(d => !d.name.trim())}
+            className="w-full py-4 bg-orange-600 text-black font-black rounded-xl transition-all disabled:opacity-50 uppercase tracking-widest text-xs"
+          >
+            SAVE PROFILES_
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { lintCaption, foldIndex, findMarkdown, stripMarkdown } from './captionLinter';
+
+/**
+ * Live LinkedIn checks for the main caption: limit, fold position, Markdown, hashtags and mentions.
+ */
+export const CaptionLintPanel = ({
+  text,
+  mandatoryHashtags,
+  onChange
+}: {
+  text: string;
+  mandatoryHashtags: string[];
+  onChange: (text: string) => void;
+}) => {
+  if (!text) return null;
+  const issues = lintCaption(text, mandatoryHashtags);
+  const fold = foldIndex(text);
+  const hasMarkdown = findMarkdown(text).length > 0;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[9px] font-bold uppercase tracking-widest text-gray-600">
+        {fold === null
+          ? "Whole post shows above the fold"
+          : <>Fold after {fold} chars: <span className="normal-case tracking-normal text-gray-400">“…{text.slice(Math.max(0, fold - 40), fold).trimStart()}”</span></>}
+      </p>
+      {issues.map((issue, i) => (
+        <p key={i} className={`text-[10px] leading-snug ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-500'}`}>
+          {issue.severity === 'error' ? '✕' : '!'} {issue.message}
+        </p>
+      ))}
+      {hasMarkdown && (
+        <button onClick={() => onChange(stripMarkdown(text))} className="text-[10px] font-black text-orange-500 uppercase">Strip Markdown_</button>
+      )}
+    </div>
+  );
+};
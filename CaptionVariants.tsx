@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  generateCaptionWithTone,
+  scoreCaptions,
+  mergeCaptions,
+  totalScore,
+  CaptionScore,
+  SCORE_CRITERIA
+} from './geminiService';
+import { BrandProfile } from './brandService';
+import { LinkedInPreview } from './LinkedInPreview';
+import { ToneProfile, findTone } from './toneService';
+import { AuthorProfile } from './authorService';
+import { CaptionLanguage } from './languageService';
+import { describeError } from './serviceErrors';
+
+type CompareMode = 'tones' | 'samples';
+
+interface CaptionVariant {
+  id: string;
+  tone: ToneProfile;
+  caption: string;
+  score?: CaptionScore;
+}
+
+const MAX_SAMPLES = 4;
+
+const ScoreCard = ({ score, isBest }: { score: CaptionScore; isBest: boolean }) => (
+  <div className={`p-3 rounded-xl border space-y-2 ${isBest ? 'border-yellow-500/40 bg-yellow-500/5' : 'border-white/5 bg-black/40'}`}>
+    <div className="flex justify-between items-center">
+      <span className={`text-[9px] font-black uppercase tracking-widest ${isBest ? 'text-yellow-500' : 'text-gray-500'}`}>{isBest ? "Top Pick" : "Score"}</span>
+      <span className="text-lg font-black italic">{totalScore(score).toFixed(1)}</span>
+    </div>
+    {SCORE_CRITERIA.map(c => (
+      <div key={c.key} className="grid grid-cols-[4.5rem_1fr_1.5rem] items-center gap-2">
+        <span className="text-[9px] font-bold uppercase tracking-widest text-gray-500">{c.label}</span>
+        <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+          <div className="h-full bg-yellow-500" style={{ width: `${score[c.key] * 10}%` }} />
+        </div>
+        <span className="text-[10px] font-mono text-gray-400 text-right">{score[c.key]}</span>
+      </div>
+    ))}
+    {score.notes && <p className="text-[10px] text-gray-400 leading-snug">{score.notes}</p>}
+  </div>
+);
+
+/**
+ * Generates several caption candidates side by side, scores them, and hands the winner back.
+ */
+export const CaptionVariants = ({
+  accomplishment,
+  brand,
+  author,
+  language,
+  tones,
+  initialToneId,
+  template,
+  onPick,
+  onClose,
+  notify
+}: {
+  accomplishment: string;
+  brand: BrandProfile;
+  author: AuthorProfile;
+  language: CaptionLanguage;
+  tones: ToneProfile[];
+  initialToneId: string;
+  template: string;
+  onPick: (caption: string) => void;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [mode, setMode] = useState<CompareMode>('tones');
+  const [selectedToneIds, setSelectedToneIds] = useState<string[]>(() => tones.map(t => t.id));
+  const [sampleToneId, setSampleToneId] = useState(initialToneId);
+  const [sampleCount, setSampleCount] = useState(3);
+  const [variants, setVariants] = useState<CaptionVariant[]>([]);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isScoring, setIsScoring] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const scored = variants.filter(v => v.score);
+  const bestId = scored.length
+    ? scored.reduce((best, v) => totalScore(v.score!) > totalScore(best.score!) ? v : best).id
+    : null;
+
+  const toggleTone = (id: string) =>
+    setSelectedToneIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+  const handleScore = async (list: CaptionVariant[]) => {
+    setIsScoring(true);
+    try {
+      const scores = await scoreCaptions(list.map(v => v.caption), brand);
+      setVariants(list.map((v, i) => ({ ...v, score: scores[i] })));
+    } catch (e) {
+      console.error("Caption scoring failed:", e);
+      notify(describeError(e, "Scoring Failed"), 'error');
+    } finally { setIsScoring(false); }
+  };
+
+  const handleGenerate = async () => {
+    const plan = mode === 'tones'
+      ? tones.filter(t => selectedToneIds.includes(t.id))
+      : Array.from({ length: sampleCount }, () => findTone(tones, sampleToneId));
+    if (!plan.length) return;
+    setIsGenerating(true);
+    setVariants([]);
+    setMergeIds([]);
+    try {
+      const results = await Promise.allSettled(plan.map(tone => generateCaptionWithTone(accomplishment, tone, brand, author, language, template)));
+      const list = plan.flatMap((tone, i) => {
+        const result = results[i];
+        return result.status === 'fulfilled' ? [{ id: crypto.randomUUID(), tone, caption: result.value }] : [];
+      });
+      const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failure) notify(describeError(failure.reason, "Variant Generation Failed"), 'error');
+      if (!list.length) return;
+      setVariants(list);
+      await handleScore(list);
+    } finally { setIsGenerating(false); }
+  };
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      onPick(await mergeCaptions(variants.filter(v => mergeIds.includes(v.id)).map(v => v.caption), brand));
+      notify("Variants Merged", 'success');
+      onClose();
+    } catch (e) { notify(describeError(e, "Merge Failed"), 'error'); } finally { setIsMerging(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-7xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-yellow-500 uppercase">Compare Variants_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+
+        <div className="p-6 border-b border-white/5 space-y-4 shrink-0">
+          <div className="flex gap-2">
+            <button onClick={() => setMode('tones')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${mode === 'tones' ? 'bg-yellow-600 text-black' : 'text-gray-500 hover:text-white'}`}>Across Tones_</button>
+            <button onClick={() => setMode('samples')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${mode === 'samples' ? 'bg-yellow-600 text-black' : 'text-gray-500 hover:text-white'}`}>Samples Of One Tone_</button>
+          </div>
+          <div className="flex flex-wrap gap-2 items-center">
+            {mode === 'tones' ? tones.map(t => (
+              <button
+                key={t.id}
+                onClick={() => toggleTone(t.id)}
+                className={`px-4 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all border ${selectedToneIds.includes(t.id) ? 'bg-yellow-600 text-black border-yellow-600' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
+              >
+                {t.name}
+              </button>
+            )) : (
+              <>
+                <select value={sampleToneId} onChange={e => setSampleToneId(e.target.value)} className="bg-black border border-white/10 rounded-xl p-3 text-xs outline-none">
+                  {tones.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <select value={sampleCount} onChange={e => setSampleCount(Number(e.target.value))} className="bg-black border border-white/10 rounded-xl p-3 text-xs outline-none">
+                  {Array.from({ length: MAX_SAMPLES - 1 }, (_, i) => i + 2).map(n => <option key={n} value={n}>{n} Samples</option>)}
+                </select>
+              </>
+            )}
+            <button
+              onClick={handleGenerate}
+              disabled={isGenerating || !accomplishment || (mode === 'tones' && !selectedToneIds.length)}
+              className="ml-auto px-6 py-3 bg-yellow-600 text-black font-black rounded-xl uppercase tracking-widest text-[10px] disabled:opacity-30"
+            >
+              {isGenerating ? (isScoring ? "SCORING..." : "FORGING...") : "Generate Variants_"}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-x-auto overflow-y-auto p-6">
+          {variants.length === 0 ? (
+            <p className="py-16 text-center text-gray-600 text-xs uppercase tracking-widest">{isGenerating ? "Generating candidates..." : "No variants yet"}</p>
+          ) : (
+            <div className="grid grid-flow-col auto-cols-[minmax(320px,1fr)] gap-6">
+              {variants.map(v => (
+                <div key={v.id} className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">{v.tone.name}</span>
+                    <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-gray-500 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={mergeIds.includes(v.id)}
+                        onChange={() => setMergeIds(ids => ids.includes(v.id) ? ids.filter(i => i !== v.id) : [...ids, v.id])}
+                        className="accent-yellow-500"
+                      />
+                      Merge
+                    </label>
+                  </div>
+                  {v.score ? <ScoreCard score={v.score} isBest={v.id === bestId} /> : isScoring && <div className="h-32 rounded-xl bg-white/5 animate-pulse" />}
+                  <LinkedInPreview text={v.caption} author={author} />
+                  <button onClick={() => { onPick(v.caption); onClose(); }} className="w-full py-3 bg-[#111] border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all">Use This_</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {variants.length > 0 && (
+          <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0 flex gap-4">
+            <button onClick={() => handleScore(variants)} disabled={isScoring} className="px-6 py-4 bg-white/5 border border-white/10 font-black rounded-xl uppercase tracking-widest text-xs disabled:opacity-30">
+              {isScoring ? "SCORING..." : "Re-Score_"}
+            </button>
+            <button onClick={handleMerge} disabled={mergeIds.length < 2 || isMerging} className="flex-1 py-4 bg-yellow-600 text-black font-black rounded-xl uppercase tracking-widest text-xs disabled:opacity-30">
+              {isMerging ? "MERGING..." : `Merge ${mergeIds.length} Selected_`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { generateCarouselOutline, generateCaption } from './geminiService';
+import { BrandProfile } from './brandService';
+import { CaptionLanguage } from './languageService';
+import { describeError } from './serviceErrors';
+import { dataURLtoBlob } from './imageUtils';
+import { WeightedStyle, asStyles } from './styleService';
+import {
+  CarouselSlide,
+  MIN_SLIDES,
+  MAX_SLIDES,
+  generateSlideVisual,
+  generateCarouselVisuals,
+  buildCarouselPdf
+} from './carouselService';
+
+export interface CarouselDocument {
+  pdf: string;
+  title: string;
+}
+
+export const CarouselBuilder = ({
+  brand,
+  logoBase64,
+  styles,
+  caption,
+  language,
+  onCaptionChange,
+  onDocumentChange,
+  notify
+}: {
+  brand: BrandProfile;
+  logoBase64: string | null;
+  styles: WeightedStyle[];
+  caption: string;
+  language: CaptionLanguage;
+  onCaptionChange: (caption: string) => void;
+  onDocumentChange: (doc: CarouselDocument | null) => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [source, setSource] = useState("");
+  const [slideCount, setSlideCount] = useState(5);
+  const [slides, setSlides] = useState<CarouselSlide[]>([]);
+  const [title, setTitle] = useState("");
+  const [isOutlining, setIsOutlining] = useState(false);
+  const [busySlides, setBusySlides] = useState<string[]>([]);
+  const [isAssembling, setIsAssembling] = useState(false);
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Any change to the deck invalidates the assembled PDF
+  useEffect(() => {
+    setPdfUrl(null);
+    onDocumentChange(null);
+  }, [slides, title]);
+
+  useEffect(() => () => { if (pdfUrl) URL.revokeObjectURL(pdfUrl); }, [pdfUrl]);
+
+  const updateSlide = (slide: CarouselSlide) => setSlides(ss => ss.map(s => s.id === slide.id ? slide : s));
+
+  const handleOutline = async () => {
+    if (!source.trim()) return;
+    setIsOutlining(true);
+    try {
+      const outline = await generateCarouselOutline(source, slideCount, brand);
+      setSlides(outline.map(o => ({ ...o, id: crypto.randomUUID(), image: null })));
+      setTitle(outline[0].title);
+      onCaptionChange(await generateCaption(source, brand, language));
+      notify(`Outline Ready: ${outline.length} Slides`, 'success');
+    } catch (e) { notify(describeError(e, "Outline Failed"), 'error'); } finally { setIsOutlining(false); }
+  };
+
+  const handleGenerateAll = async () => {
+    if (!logoBase64) return;
+    setBusySlides(slides.map(s => s.id));
+    try {
+      await generateCarouselVisuals(slides, logoBase64, styles, brand, slide => {
+        updateSlide(slide);
+        setBusySlides(ids => ids.filter(id => id !== slide.id));
+      });
+      notify("Slides Forged", 'success');
+    } catch (e) { notify(describeError(e, "Slide Generation Failed"), 'error'); } finally { setBusySlides([]); }
+  };
+
+  const handleRegenerate = async (slide: CarouselSlide) => {
+    if (!logoBase64) return;
+    setBusySlides(ids => [...ids, slide.id]);
+    try {
+      // Fall back to another finished slide as the reference to keep the deck consistent
+      const references = styles.length ? styles : asStyles(slides.find(s => s.id !== slide.id && s.image)?.image || null);
+      updateSlide({ ...slide, ...await generateSlideVisual(slide, logoBase64, references, brand) });
+    } catch (e) { notify(describeError(e, "Slide Generation Failed"), 'error'); } finally {
+      setBusySlides(ids => ids.filter(id => id !== slide.id));
+    }
+  };
+
+  const moveSlide = (from: number, to: number) => {
+    if (to < 0 || to >= slides.length || from === to) return;
+    setSlides(ss => {
+      const next = [...ss];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const handleAssemble = async () => {
+    setIsAssembling(true);
+    try {
+      const pdf = await buildCarouselPdf(slides);
+      setPdfUrl(URL.createObjectURL(dataURLtoBlob(pdf)));
+      onDocumentChange({ pdf, title: title.trim() || slides[0].title });
+      notify("Document Assembled", 'success');
+    } catch (e) {
+      notify(e instanceof Error ? e.message : "PDF Assembly Failed", 'error');
+    } finally { setIsAssembling(false); }
+  };
+
+  const allReady = slides.length >= MIN_SLIDES && slides.every(s => s.image);
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Long-Form Source</label>
+        <textarea
+          dir="auto"
+          value={source}
+          onChange={e => setSource(e.target.value)}
+          placeholder="Paste the accomplishment or write-up to break into slides..."
+          className="w-full h-32 bg-black/50 border border-white/5 rounded-2xl p-6 text-base font-medium outline-none focus:border-orange-500/30 resize-none transition-all"
+        />
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Slides</label>
+          <input type="range" min={MIN_SLIDES} max={MAX_SLIDES} value={slideCount} onChange={e => setSlideCount(Number(e.target.value))} className="accent-orange-500" />
+          <span className="text-xs font-black text-orange-500">{slideCount}</span>
+          <button onClick={handleOutline} disabled={isOutlining || !source.trim()} className="ml-auto px-6 py-3 bg-orange-600 text-black font-black rounded-xl uppercase tracking-widest text-[10px] disabled:opacity-50">
+            {isOutlining ? "OUTLINING..." : "BUILD OUTLINE_"}
+          </button>
+        </div>
+        {styles.length > 0 && <p className="text-[9px] text-orange-500/70 uppercase tracking-widest">Every slide follows the active style {styles.length > 1 ? "blend" : "reference"}.</p>}
+      </div>
+
+      {slides.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Slides (drag to reorder)</label>
+            <div className="flex gap-4">
+              <button
+                onClick={() => setSlides(ss => [...ss, { id: crypto.randomUUID(), title: "New slide", body: "", image: null }])}
+                disabled={slides.length >= MAX_SLIDES}
+                className="text-[10px] font-black text-gray-400 hover:text-white uppercase disabled:opacity-30"
+              >
+                Add Slide_
+              </button>
+              <button onClick={handleGenerateAll} disabled={busySlides.length > 0 || !logoBase64} className="text-[10px] font-black text-orange-500 hover:text-orange-400 uppercase disabled:opacity-50">
+                {busySlides.length ? `FORGING ${busySlides.length}...` : "GENERATE ALL VISUALS_"}
+              </button>
+            </div>
+          </div>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {slides.map((slide, i) => (
+              <div
+                key={slide.id}
+                draggable
+                onDragStart={() => setDragIndex(i)}
+                onDragOver={e => e.preventDefault()}
+                onDrop={() => { if (dragIndex !== null) moveSlide(dragIndex, i); setDragIndex(null); }}
+                className={`p-3 bg-black/40 border rounded-2xl space-y-3 transition-all ${dragIndex === i ? 'border-orange-500 opacity-50' : 'border-white/5'}`}
+              >
+                <div className="aspect-[4/5] bg-black rounded-xl overflow-hidden border border-white/5 flex items-center justify-center">
+                  {busySlides.includes(slide.id) ? (
+                    <div className="w-8 h-8 border-4 border-orange-600/20 border-t-orange-500 rounded-full animate-spin" />
+                  ) : slide.image ? (
+                    <img src={slide.image} className="w-full h-full object-cover" alt={`Slide ${i + 1}`} />
+                  ) : (
+                    <span className="text-[10px] font-black text-gray-700 uppercase tracking-widest">Slide {i + 1}</span>
+                  )}
+                </div>
+                {slide.issues?.map((issue, n) => <p key={n} className="text-[10px] leading-snug text-yellow-500">! {issue}</p>)}
+                <input value={slide.title} onChange={e => updateSlide({ ...slide, title: e.target.value })} className="w-full bg-transparent text-sm font-bold outline-none border-b border-white/5 focus:border-orange-500/30" />
+                <textarea value={slide.body} onChange={e => updateSlide({ ...slide, body: e.target.value })} className="w-full h-16 bg-transparent text-xs text-gray-400 outline-none resize-none" />
+                <div className="flex justify-between items-center text-[10px] font-black uppercase">
+                  <div className="flex gap-2 text-gray-500">
+                    <button onClick={() => moveSlide(i, i - 1)} disabled={i === 0} className="hover:text-white disabled:opacity-30">←</button>
+                    <span>{i + 1}/{slides.length}</span>
+                    <button onClick={() => moveSlide(i, i + 1)} disabled={i === slides.length - 1} className="hover:text-white disabled:opacity-30">→</button>
+                  </div>
+                  <div className="flex gap-3">
+                    <button onClick={() => handleRegenerate(slide)} disabled={busySlides.includes(slide.id) || !logoBase64} className="text-orange-500 hover:text-orange-400 disabled:opacity-30">Forge_</button>
+                    <button onClick={() => setSlides(ss => ss.filter(s => s.id !== slide.id))} disabled={slides.length <= MIN_SLIDES} className="text-red-500 hover:text-red-400 disabled:opacity-30">Drop_</button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-8 items-start">
+            <div className="space-y-4">
+              <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Document Title</label>
+              <input value={title} onChange={e => setTitle(e.target.value)} className="w-full bg-black/40 border border-white/5 rounded-xl p-3 text-sm outline-none focus:border-orange-500/50" />
+              <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">LinkedIn Caption</label>
+              <textarea dir="auto" value={caption} onChange={e => onCaptionChange(e.target.value)} className="w-full h-32 bg-black/40 border border-white/5 rounded-2xl p-4 text-sm resize-none outline-none focus:border-orange-500/50" />
+              <button onClick={handleAssemble} disabled={!allReady || isAssembling} className="w-full py-4 bg-[#111] border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest text-orange-500 hover:bg-orange-500/5 transition-all disabled:opacity-30">
+                {isAssembling ? "ASSEMBLING PDF..." : "ASSEMBLE PDF_"}
+              </button>
+            </div>
+            {pdfUrl && (
+              <iframe src={pdfUrl} title="Carousel PDF preview" className="w-full aspect-[4/5] rounded-2xl border border-white/10 bg-white" />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import {
+  ExportDraft,
+  ExportFormat,
+  ExportSize,
+  EXPORT_FORMATS,
+  EXPORT_SIZES,
+  loadExportSettings,
+  saveExportSettings,
+  fromSummary,
+  exportDrafts,
+  downloadBlob,
+  copyImageToClipboard
+} from './exportService';
+import { loadDraftSummaries } from './versionService';
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+/**
+ * Downloads drafts as ZIP bundles (images in the chosen sizes and formats, caption, alt text,
+ * manifest) and copies images to the clipboard. The current draft is listed first.
+ */
+export const ExportPanel = ({
+  current,
+  onClose,
+  notify
+}: {
+  current: ExportDraft;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [drafts, setDrafts] = useState<ExportDraft[]>([current]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([current.id]);
+  const [settings, setSettings] = useState(loadExportSettings);
+  const [isExporting, setIsExporting] = useState(false);
+  const selected = drafts.filter(d => selectedIds.includes(d.id));
+  const needsImageSettings = selected.some(d => d.image);
+
+  useEffect(() => {
+    loadDraftSummaries()
+      .then(list => setDrafts([current, ...list.filter(s => s.draftId !== current.id).map(fromSummary)]))
+      .catch(e => console.error("Failed to load drafts:", e));
+  }, []);
+
+  useEffect(() => {
+    saveExportSettings(settings);
+  }, [settings]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { blob, fileName } = await exportDrafts(selected, settings);
+      downloadBlob(blob, fileName);
+      notify(`${selected.length} Draft${selected.length === 1 ? '' : 's'} Exported`, 'success');
+    } catch (e) {
+      console.error("Export failed:", e);
+      notify("Export Failed", 'error');
+    } finally { setIsExporting(false); }
+  };
+
+  const handleCopyImage = async (image: string) => {
+    try {
+      await copyImageToClipboard(image);
+      notify("Image Copied to Clipboard", 'success');
+    } catch (e) {
+      notify(e instanceof Error ? e.message : "Copy Failed", 'error');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-4xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Export_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-6">
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Drafts</label>
+              <button
+                onClick={() => setSelectedIds(selectedIds.length === drafts.length ? [current.id] : drafts.map(d => d.id))}
+                className="text-[10px] font-black text-orange-500 uppercase"
+              >
+                {selectedIds.length === drafts.length ? "Current Only_" : "Select All_"}
+              </button>
+            </div>
+            {drafts.map(d => (
+              <label key={d.id} className={`flex gap-3 items-center p-3 rounded-xl border cursor-pointer ${selectedIds.includes(d.id) ? 'border-orange-500/40 bg-orange-500/5' : 'border-white/5 bg-black/40'}`}>
+                <input type="checkbox" checked={selectedIds.includes(d.id)} onChange={() => setSelectedIds(ids => toggle(ids, d.id))} className="accent-orange-500" />
+                {d.image
+                  ? <img src={d.image} className="w-12 h-14 rounded-md object-cover shrink-0" alt="" />
+                  : <div className="w-12 h-14 rounded-md border border-white/10 shrink-0" />}
+                <div className="min-w-0 flex-grow">
+                  <p dir="auto" className="text-xs font-bold truncate">{d.prompt || "Untitled draft"}</p>
+                  <p className="text-[10px] text-gray-500">
+                    {d.id === current.id ? "Current draft" : new Date(d.updatedAt).toLocaleString()}{d.tone && ` • ${d.tone}`}
+                  </p>
+                </div>
+                {d.image && (
+                  <button onClick={e => { e.preventDefault(); handleCopyImage(d.image!); }} className="shrink-0 text-[10px] font-black text-gray-400 hover:text-white uppercase">Copy Image_</button>
+                )}
+              </label>
+            ))}
+          </div>
+
+          {needsImageSettings && (
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Formats</label>
+                <div className="flex flex-wrap gap-2">
+                  {EXPORT_FORMATS.map(f => (
+                    <button
+                      key={f.id}
+                      onClick={() => setSettings(s => ({ ...s, formats: toggle<ExportFormat>(s.formats, f.id) }))}
+                      className={`px-3 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-all ${settings.formats.includes(f.id) ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
+                    >
+                      {f.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-3">
+                <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Sizes</label>
+                <div className="flex flex-wrap gap-2">
+                  {EXPORT_SIZES.map(s => (
+                    <button
+                      key={s.id}
+                      onClick={() => setSettings(prev => ({ ...prev, sizes: toggle<ExportSize>(prev.sizes, s.id) }))}
+                      className={`px-3 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-all ${settings.sizes.includes(s.id) ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
+                    >
+                      {s.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <p className="text-[9px] text-gray-600 uppercase tracking-widest">
+            Each bundle holds the images, caption.txt, alt-text.txt and manifest.json (tone, prompt, style ref, templates, timestamps). Several drafts get a folder each.
+          </p>
+        </div>
+
+        <div className="p-6 border-t border-white/5 shrink-0">
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !selected.length || (needsImageSettings && (!settings.formats.length || !settings.sizes.length))}
+            className="w-full py-4 bg-orange-600 text-black font-black uppercase tracking-widest rounded-2xl text-xs disabled:opacity-30"
+          >
+            {isExporting ? "Packing..." : `Download ZIP_ (${selected.length})`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
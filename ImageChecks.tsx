@@ -0,0 +1,31 @@
+import React from 'react';
+import { ImageCheck, CHECK_LABELS, failedChecks } from './imagePipeline';
+
+const STATUS_STYLES = {
+  ok: 'border-green-500/30 text-green-400',
+  fixed: 'border-orange-500/30 text-orange-400',
+  failed: 'border-red-500/40 text-red-400',
+  skipped: 'border-white/10 text-gray-500',
+};
+
+/**
+ * Result of the image pipeline's checks, one pill per check with the detail on hover;
+ * failures are also spelled out underneath.
+ */
+export const ImageChecks = ({ checks }: { checks: ImageCheck[] }) => {
+  if (!checks.length) return null;
+  const failed = failedChecks(checks);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {checks.map(c => (
+          <span key={c.id} title={c.message} className={`px-2 py-1 rounded-md border text-[9px] font-black uppercase tracking-widest ${STATUS_STYLES[c.status]}`}>
+            {CHECK_LABELS[c.id]}
+          </span>
+        ))}
+      </div>
+      {failed.map(c => <p key={c.id} className="text-[10px] leading-snug text-red-400">! {c.message}</p>)}
+    </div>
+  );
+};
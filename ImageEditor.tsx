@@ -0,0 +1,406 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { loadImage } from './imageUtils';
+
+type Tool = 'crop' | 'logo' | 'text' | 'mask';
+
+interface TextLayer {
+  id: string;
+  text: string;
+  /** Centre position, normalised 0-1 over the output frame. */
+  x: number;
+  y: number;
+  /** Font size in output pixels. */
+  size: number;
+  color: string;
+  weight: 400 | 800;
+}
+
+interface MaskStroke {
+  points: [number, number][];
+  /** Brush diameter as a fraction of the output width. */
+  size: number;
+}
+
+interface EditorState {
+  crop: { zoom: number; panX: number; panY: number };
+  logo: { visible: boolean; x: number; y: number; scale: number };
+  texts: TextLayer[];
+  mask: MaskStroke[];
+}
+
+export interface EditorResult {
+  editedImage: string;
+  maskImage?: string;
+  textInstructions?: string;
+  mode: 'manual' | 'generative';
+}
+
+const INITIAL_STATE: EditorState = {
+  crop: { zoom: 1, panX: 0, panY: 0 },
+  logo: { visible: false, x: 0.5, y: 0.12, scale: 0.25 },
+  texts: [],
+  mask: [],
+};
+
+const TOOLS: { id: Tool; label: string }[] = [
+  { id: 'crop', label: 'Crop' },
+  { id: 'logo', label: 'Logo' },
+  { id: 'text', label: 'Text' },
+  { id: 'mask', label: 'Mask' },
+];
+
+const MAX_HISTORY = 50;
+
+function drawBase(ctx: CanvasRenderingContext2D, img: HTMLImageElement, crop: EditorState['crop'], width: number, height: number) {
+  const scale = Math.max(width / img.width, height / img.height) * crop.zoom;
+  const dw = img.width * scale;
+  const dh = img.height * scale;
+  // Pan of -1..1 slides the image across whatever overflow the zoom creates
+  const dx = (width - dw) / 2 + crop.panX * (dw - width) / 2;
+  const dy = (height - dh) / 2 + crop.panY * (dh - height) / 2;
+  ctx.drawImage(img, dx, dy, dw, dh);
+}
+
+function drawLogo(ctx: CanvasRenderingContext2D, logo: HTMLImageElement, state: EditorState['logo'], width: number, height: number) {
+  const w = width * state.scale;
+  const h = logo.height * (w / logo.width);
+  ctx.drawImage(logo, state.x * width - w / 2, state.y * height - h / 2, w, h);
+}
+
+function drawTexts(ctx: CanvasRenderingContext2D, texts: TextLayer[], width: number, height: number, selectedId: string | null) {
+  texts.forEach(t => {
+    ctx.font = `${t.weight} ${t.size}px "DM Sans", "Inter", sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = t.color;
+    ctx.shadowColor = 'rgba(0,0,0,0.4)';
+    ctx.shadowBlur = t.size / 5;
+    ctx.fillText(t.text, t.x * width, t.y * height);
+    ctx.shadowBlur = 0;
+    if (t.id === selectedId) {
+      const w = ctx.measureText(t.text).width;
+      ctx.strokeStyle = '#f97316';
+      ctx.lineWidth = 3;
+      ctx.setLineDash([10, 8]);
+      ctx.strokeRect(t.x * width - w / 2 - 12, t.y * height - t.size / 2 - 12, w + 24, t.size + 24);
+      ctx.setLineDash([]);
+    }
+  });
+}
+
+function drawMask(ctx: CanvasRenderingContext2D, mask: MaskStroke[], width: number, height: number, color: string) {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  mask.forEach(stroke => {
+    ctx.lineWidth = stroke.size * width;
+    ctx.beginPath();
+    stroke.points.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x * width, y * height) : ctx.lineTo(x * width, y * height));
+    if (stroke.points.length === 1) ctx.lineTo(stroke.points[0][0] * width + 0.1, stroke.points[0][1] * height);
+    ctx.stroke();
+  });
+}
+
+export const ImageEditor = ({
+  image,
+  logo,
+  width,
+  height,
+  onClose,
+  onSend
+}: {
+  image: string;
+  logo: string | null;
+  width: number;
+  height: number;
+  onClose: () => void;
+  onSend: (data: EditorResult) => Promise<void>
+}) => {
+  const [textInstructions, setTextInstructions] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [tool, setTool] = useState<Tool>('crop');
+  const [state, setState] = useState<EditorState>(INITIAL_STATE);
+  const [past, setPast] = useState<EditorState[]>([]);
+  const [future, setFuture] = useState<EditorState[]>([]);
+  const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
+  const [brushSize, setBrushSize] = useState(0.05);
+  const [images, setImages] = useState<{ base: HTMLImageElement; logo: HTMLImageElement | null } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Drag gestures mutate a live copy; history is only committed on pointer up
+  const gesture = useRef<{ start: [number, number]; snapshot: EditorState } | null>(null);
+  const INTERNAL_WIDTH = width;
+  const INTERNAL_HEIGHT = height;
+
+  const selectedText = state.texts.find(t => t.id === selectedTextId) || null;
+  const isDirty = past.length > 0;
+
+  useEffect(() => {
+    Promise.all([loadImage(image), logo ? loadImage(logo) : Promise.resolve(null)])
+      .then(([base, logoImg]) => setImages({ base, logo: logoImg }))
+      .catch(e => console.error("Editor image load failed:", e));
+  }, [image, logo]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !images) return;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, INTERNAL_WIDTH, INTERNAL_HEIGHT);
+    drawBase(ctx, images.base, state.crop, INTERNAL_WIDTH, INTERNAL_HEIGHT);
+    if (state.logo.visible && images.logo) drawLogo(ctx, images.logo, state.logo, INTERNAL_WIDTH, INTERNAL_HEIGHT);
+    drawTexts(ctx, state.texts, INTERNAL_WIDTH, INTERNAL_HEIGHT, tool === 'text' ? selectedTextId : null);
+    drawMask(ctx, state.mask, INTERNAL_WIDTH, INTERNAL_HEIGHT, 'rgba(239,68,68,0.45)');
+  }, [images, state, tool, selectedTextId, INTERNAL_WIDTH, INTERNAL_HEIGHT]);
+
+  const commit = useCallback((next: EditorState, previous: EditorState) => {
+    setPast(p => [...p, previous].slice(-MAX_HISTORY));
+    setFuture([]);
+    setState(next);
+  }, []);
+
+  const update = (fn: (s: EditorState) => EditorState) => commit(fn(state), state);
+
+  const undo = useCallback(() => {
+    if (!past.length) return;
+    setFuture(f => [state, ...f]);
+    setState(past[past.length - 1]);
+    setPast(p => p.slice(0, -1));
+  }, [past, state]);
+
+  const redo = useCallback(() => {
+    if (!future.length) return;
+    setPast(p => [...p, state]);
+    setState(future[0]);
+    setFuture(f => f.slice(1));
+  }, [future, state]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+      if (!typing && (e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        e.shiftKey ? redo() : undo();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [undo, redo, onClose]);
+
+  const toNormalized = (e: React.PointerEvent): [number, number] => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return [(e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height];
+  };
+
+  const hitText = (x: number, y: number): TextLayer | undefined => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    return [...state.texts].reverse().find(t => {
+      ctx.font = `${t.weight} ${t.size}px "DM Sans", "Inter", sans-serif`;
+      const halfW = ctx.measureText(t.text).width / 2 / INTERNAL_WIDTH;
+      const halfH = t.size / 2 / INTERNAL_HEIGHT;
+      return Math.abs(x - t.x) <= halfW + 0.02 && Math.abs(y - t.y) <= halfH + 0.02;
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const [x, y] = toNormalized(e);
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    const snapshot = state;
+
+    if (tool === 'text') {
+      const hit = hitText(x, y);
+      if (!hit) {
+        const layer: TextLayer = { id: crypto.randomUUID(), text: 'New text', x, y, size: Math.round(INTERNAL_WIDTH / 14), color: '#ffffff', weight: 800 };
+        commit({ ...state, texts: [...state.texts, layer] }, state);
+        setSelectedTextId(layer.id);
+        return;
+      }
+      setSelectedTextId(hit.id);
+    }
+    if (tool === 'mask') {
+      setState({ ...state, mask: [...state.mask, { points: [[x, y]], size: brushSize }] });
+    }
+    gesture.current = { start: [x, y], snapshot };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!gesture.current) return;
+    const [x, y] = toNormalized(e);
+    const { start, snapshot } = gesture.current;
+    const dx = x - start[0];
+    const dy = y - start[1];
+
+    if (tool === 'crop') {
+      const clamp = (v: number) => Math.max(-1, Math.min(1, v));
+      setState({ ...snapshot, crop: { ...snapshot.crop, panX: clamp(snapshot.crop.panX + dx * 2), panY: clamp(snapshot.crop.panY + dy * 2) } });
+    } else if (tool === 'logo') {
+      setState({ ...snapshot, logo: { ...snapshot.logo, visible: true, x: snapshot.logo.x + dx, y: snapshot.logo.y + dy } });
+    } else if (tool === 'text' && selectedTextId) {
+      setState({ ...snapshot, texts: snapshot.texts.map(t => t.id === selectedTextId ? { ...t, x: t.x + dx, y: t.y + dy } : t) });
+    } else if (tool === 'mask') {
+      setState(s => {
+        const strokes = [...s.mask];
+        const last = strokes[strokes.length - 1];
+        strokes[strokes.length - 1] = { ...last, points: [...last.points, [x, y]] };
+        return { ...s, mask: strokes };
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!gesture.current) return;
+    const { snapshot } = gesture.current;
+    gesture.current = null;
+    if (snapshot !== state) commit(state, snapshot);
+  };
+
+  const updateText = (patch: Partial<TextLayer>) => {
+    if (!selectedTextId) return;
+    update(s => ({ ...s, texts: s.texts.map(t => t.id === selectedTextId ? { ...t, ...patch } : t) }));
+  };
+
+  const exportCanvas = (draw: (ctx: CanvasRenderingContext2D) => void) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = INTERNAL_WIDTH;
+    canvas.height = INTERNAL_HEIGHT;
+    draw(canvas.getContext('2d')!);
+    return canvas.toDataURL('image/png');
+  };
+
+  const handleFinalSend = async (mode: EditorResult['mode']) => {
+    if (!images) return;
+    setIsSending(true);
+    try {
+      const editedImage = exportCanvas(ctx => {
+        drawBase(ctx, images.base, state.crop, INTERNAL_WIDTH, INTERNAL_HEIGHT);
+        if (state.logo.visible && images.logo) drawLogo(ctx, images.logo, state.logo, INTERNAL_WIDTH, INTERNAL_HEIGHT);
+        drawTexts(ctx, state.texts, INTERNAL_WIDTH, INTERNAL_HEIGHT, null);
+      });
+      // White marks the region the generative edit may touch; black is preserved
+      const maskImage = state.mask.length ? exportCanvas(ctx => {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, INTERNAL_WIDTH, INTERNAL_HEIGHT);
+        drawMask(ctx, state.mask, INTERNAL_WIDTH, INTERNAL_HEIGHT, '#fff');
+      }) : undefined;
+      await onSend({ editedImage, maskImage, textInstructions: textInstructions.trim(), mode });
+      onClose();
+    } catch (e) { console.error(e); } finally { setIsSending(false); }
+  };
+
+  const toolButton = (active: boolean) => `px-3 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${active ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/98 p-4 md:p-12 overflow-y-auto animate-in fade-in duration-300">
+      <div className="max-w-5xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Visual Editor_</h2>
+          <div className="flex items-center gap-2">
+            <button onClick={undo} disabled={!past.length} className="p-2 text-gray-500 hover:text-white disabled:opacity-30 uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg" title="Undo (Ctrl+Z)">Undo</button>
+            <button onClick={redo} disabled={!future.length} className="p-2 text-gray-500 hover:text-white disabled:opacity-30 uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg" title="Redo (Ctrl+Shift+Z)">Redo</button>
+            <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close [Esc]</button>
+          </div>
+        </div>
+
+        <div className="flex-grow p-6 overflow-y-auto grid md:grid-cols-[1fr_280px] gap-6">
+          <div style={{ aspectRatio: `${INTERNAL_WIDTH} / ${INTERNAL_HEIGHT}` }} className="bg-black border border-white/5 rounded-2xl overflow-hidden relative shadow-inner max-h-[70vh] mx-auto">
+            <canvas
+              ref={canvasRef}
+              width={INTERNAL_WIDTH}
+              height={INTERNAL_HEIGHT}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className={`w-full h-full touch-none ${tool === 'mask' ? 'cursor-crosshair' : tool === 'text' ? 'cursor-text' : 'cursor-move'}`}
+            />
+          </div>
+
+          <div className="space-y-6">
+            <div className="flex bg-black/50 p-1 rounded-xl border border-white/10">
+              {TOOLS.map(t => <button key={t.id} onClick={() => setTool(t.id)} className={`flex-1 ${toolButton(tool === t.id)}`}>{t.label}</button>)}
+            </div>
+
+            {tool === 'crop' && (
+              <div className="space-y-3">
+                <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Zoom {state.crop.zoom.toFixed(2)}×</label>
+                <input type="range" min={1} max={3} step={0.05} value={state.crop.zoom} onChange={e => update(s => ({ ...s, crop: { ...s.crop, zoom: Number(e.target.value) } }))} className="w-full accent-orange-500" />
+                <p className="text-[9px] text-gray-600 uppercase tracking-widest">Drag the image to reframe.</p>
+                <button onClick={() => update(s => ({ ...s, crop: INITIAL_STATE.crop }))} className="text-[10px] font-black text-gray-400 hover:text-white uppercase">Reset Frame_</button>
+              </div>
+            )}
+
+            {tool === 'logo' && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2 text-[10px] text-gray-500 font-black uppercase tracking-widest">
+                  <input type="checkbox" checked={state.logo.visible} disabled={!images?.logo} onChange={e => update(s => ({ ...s, logo: { ...s.logo, visible: e.target.checked } }))} className="accent-orange-500" />
+                  Overlay Brand Logo
+                </label>
+                <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Size {Math.round(state.logo.scale * 100)}%</label>
+                <input type="range" min={0.05} max={0.8} step={0.01} value={state.logo.scale} onChange={e => update(s => ({ ...s, logo: { ...s.logo, visible: true, scale: Number(e.target.value) } }))} className="w-full accent-orange-500" />
+                <p className="text-[9px] text-gray-600 uppercase tracking-widest">Drag on the canvas to move the logo.</p>
+              </div>
+            )}
+
+            {tool === 'text' && (
+              <div className="space-y-3">
+                <p className="text-[9px] text-gray-600 uppercase tracking-widest">Click empty space to add text, drag to move.</p>
+                {selectedText ? (
+                  <>
+                    <input value={selectedText.text} onChange={e => updateText({ text: e.target.value })} className="w-full bg-black border border-white/10 rounded-xl p-3 text-sm outline-none focus:border-orange-500" />
+                    <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Size {selectedText.size}px</label>
+                    <input type="range" min={16} max={240} value={selectedText.size} onChange={e => updateText({ size: Number(e.target.value) })} className="w-full accent-orange-500" />
+                    <div className="flex items-center gap-3">
+                      <input type="color" value={selectedText.color} onChange={e => updateText({ color: e.target.value })} className="w-10 h-10 bg-transparent" />
+                      <button onClick={() => updateText({ weight: selectedText.weight === 800 ? 400 : 800 })} className={toolButton(selectedText.weight === 800)}>Bold</button>
+                      <button onClick={() => { update(s => ({ ...s, texts: s.texts.filter(t => t.id !== selectedText.id) })); setSelectedTextId(null); }} className="ml-auto text-[10px] font-black text-red-500 uppercase">Delete_</button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-[10px] text-gray-500 uppercase">No text layer selected.</p>
+                )}
+              </div>
+            )}
+
+            {tool === 'mask' && (
+              <div className="space-y-3">
+                <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Brush {Math.round(brushSize * 100)}%</label>
+                <input type="range" min={0.01} max={0.2} step={0.005} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-full accent-orange-500" />
+                <p className="text-[9px] text-gray-600 uppercase tracking-widest">Paint the area the AI edit should change. Unpainted areas are preserved.</p>
+                <button onClick={() => update(s => ({ ...s, mask: [] }))} disabled={!state.mask.length} className="text-[10px] font-black text-red-500 uppercase disabled:opacity-30">Clear Mask_</button>
+              </div>
+            )}
+
+            <div className="space-y-3 pt-4 border-t border-white/5">
+              <div className="flex justify-between items-center">
+                <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">AI Generative Edit Prompt</label>
+                <span className="text-[9px] text-orange-500/50 font-bold uppercase tracking-tighter">{state.mask.length ? "Masked" : "Whole Image"}</span>
+              </div>
+              <textarea
+                value={textInstructions}
+                onChange={e => setTextInstructions(e.target.value)}
+                placeholder="Example: 'Change background to dark navy blue', 'Make it look like a tech magazine'..."
+                className="w-full h-24 bg-black border border-white/10 rounded-xl p-3 outline-none focus:border-orange-500 text-sm transition-all shadow-xl resize-none"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0 grid grid-cols-2 gap-4">
+          <button
+            onClick={() => handleFinalSend('manual')}
+            disabled={isSending || !isDirty}
+            className="w-full py-4 bg-[#111] border border-white/10 text-orange-500 font-black rounded-xl transition-all disabled:opacity-30 uppercase text-xs tracking-widest"
+          >
+            APPLY MANUAL EDITS_
+          </button>
+          <button
+            onClick={() => handleFinalSend('generative')}
+            disabled={isSending || !textInstructions.trim()}
+            className="w-full py-4 bg-orange-600 text-black font-black rounded-xl hover:scale-[1.01] active:scale-[0.99] transition-all disabled:opacity-50 disabled:grayscale shadow-xl shadow-orange-900/20"
+          >
+            {isSending ? "SYNCING WITH AI..." : "APPLY GENERATIVE EDITS_"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { CaptionLanguage, CAPTION_LANGUAGES } from './languageService';
+
+export const LanguagePicker = ({
+  selected,
+  onChange
+}: {
+  selected: CaptionLanguage;
+  onChange: (language: CaptionLanguage) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {CAPTION_LANGUAGES.map(l => (
+      <button
+        key={l.id}
+        onClick={() => onChange(l.id)}
+        className={`px-4 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all border ${selected === l.id ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
+      >
+        {l.label}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { tokenizeCaption, foldIndex } from './captionLinter';
+import { AuthorProfile, DEFAULT_AUTHOR } from './authorService';
+
+/** Renders hashtags, mentions and links in LinkedIn's link colour. */
+const CaptionText = ({ text }: { text: string }) => (
+  <>
+    {tokenizeCaption(text).map((token, i) => token.type === 'text'
+      ? <React.Fragment key={i}>{token.value}</React.Fragment>
+      : <span key={i} className="text-[#71b7fb] font-semibold hover:underline cursor-pointer">{token.value}</span>
+    )}
+  </>
+);
+
+export const LinkedInPreview = ({ text, author = DEFAULT_AUTHOR }: { text: string; author?: AuthorProfile }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const fold = foldIndex(text);
+  const showSeeMore = fold !== null && !isExpanded;
+
+  return (
+    <div className="w-full max-w-full bg-[#1a1a1a] border border-white/10 rounded-xl overflow-hidden shadow-2xl animate-in fade-in zoom-in-95 duration-500">
+      {/* Header */}
+      <div className="p-4 flex gap-3">
+        {author.avatar ? (
+          <img src={author.avatar} alt={author.name} className={`w-12 h-12 object-cover shrink-0 ${author.kind === 'page' ? 'rounded-md' : 'rounded-full'}`} />
+        ) : (
+          <div className={`w-12 h-12 bg-gradient-to-br from-orange-500 to-yellow-500 flex items-center justify-center font-black text-black shrink-0 ${author.kind === 'page' ? 'rounded-md' : 'rounded-full'}`}>{author.name.trim()[0]?.toUpperCase() || 'B'}</div>
+        )}
+        <div className="min-w-0">
+          <h4 className="font-bold text-sm text-white flex items-center gap-1 truncate"><bdi>{author.name}</bdi>{author.kind === 'person' && <span className="text-gray-500 font-normal shrink-0">• 1st</span>}</h4>
+          {author.headline && <p className="text-[11px] text-gray-400 truncate">{author.headline}</p>}
+          <p className="text-[11px] text-gray-500 flex items-center gap-1">Just now • <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.477 2 2 6.477 2 12s4.477 10 10 10 10-4.477 10-10S17.523 2 12 2zm0 18c-4.411 0-8-3.589-8-8s3.589-8 8-8 8 3.589 8 8-3.589 8-8 8z"/><path d="M12.5 7H11v6l5.25 3.15.75-1.23-4.5-2.67z"/></svg></p>
+        </div>
+      </div>
+      
+      {/* Content: each paragraph takes its own direction, as on LinkedIn, so bilingual posts read correctly */}
+      <div dir="auto" className="px-4 pb-3 text-sm text-gray-200 leading-relaxed whitespace-pre-wrap">
+        <CaptionText text={showSeeMore ? text.slice(0, fold).trimEnd() : text} />
+        {showSeeMore && (
+          <button onClick={() => setIsExpanded(true)} className="text-gray-400 hover:text-white font-bold ms-1">…see more</button>
+        )}
+      </div>
+
+      {/* Engagement Bar */}
+      <div className="px-4 py-2 flex items-center justify-between border-t border-white/5">
+        <div className="flex -space-x-1">
+          <div className="w-5 h-5 rounded-full bg-blue-600 border border-[#1a1a1a] flex items-center justify-center text-[10px]">👍</div>
+          <div className="w-5 h-5 rounded-full bg-red-500 border border-[#1a1a1a] flex items-center justify-center text-[10px]">❤️</div>
+          <div className="w-5 h-5 rounded-full bg-green-500 border border-[#1a1a1a] flex items-center justify-center text-[10px]">💡</div>
+        </div>
+        <div className="text-[11px] text-gray-500">12 comments • 4 reposts</div>
+      </div>
+
+      <div className="px-4 py-1 flex justify-around border-t border-white/5 text-gray-400 font-bold text-xs">
+        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Like</button>
+        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Comment</button>
+        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Repost</button>
+        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Send</button>
+      </div>
+    </div>
+  );
+};
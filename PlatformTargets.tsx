@@ -0,0 +1,108 @@
+import React from 'react';
+import { PlatformId, PLATFORMS, PLATFORM_IDS, countHashtags } from './platforms';
+
+export const PlatformPicker = ({
+  selected,
+  onChange,
+  textOnly = false
+}: {
+  selected: PlatformId[];
+  onChange: (ids: PlatformId[]) => void;
+  textOnly?: boolean;
+}) => {
+  const toggle = (id: PlatformId) => {
+    const next = selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id];
+    // Keep picker order stable so the first target stays the "primary" format
+    if (next.length) onChange(PLATFORM_IDS.filter(p => next.includes(p)));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {PLATFORM_IDS.map(id => {
+        const spec = PLATFORMS[id];
+        const disabled = textOnly && spec.requiresImage;
+        return (
+          <button
+            key={id}
+            onClick={() => toggle(id)}
+            disabled={disabled}
+            title={disabled ? `${spec.label} needs an image` : `${spec.aspect} • ${spec.width}×${spec.height} • ${spec.captionLimit} chars`}
+            className={`px-3 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all border disabled:opacity-30 ${selected.includes(id) && !disabled ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
+          >
+            {spec.label} <span className="opacity-50">{spec.aspect}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export const CaptionLimitBadge = ({ text, platform }: { text: string; platform: PlatformId }) => {
+  const spec = PLATFORMS[platform];
+  const tags = countHashtags(text);
+  const over = text.length > spec.captionLimit || tags > spec.maxHashtags;
+  return (
+    <span className={`text-[9px] font-bold uppercase tracking-widest ${over ? 'text-red-400' : 'text-gray-600'}`}>
+      {text.length}/{spec.captionLimit} chars • {tags}/{spec.maxHashtags} tags
+    </span>
+  );
+};
+
+/**
+ * Per-network renditions and caption variants for every target except LinkedIn,
+ * which keeps using the main caption editor.
+ */
+export const PlatformVariants = ({
+  targets,
+  renditions,
+  captions,
+  isAdapting,
+  onCaptionChange,
+  onAdapt
+}: {
+  targets: PlatformId[];
+  renditions: Partial<Record<PlatformId, string>>;
+  captions: Partial<Record<PlatformId, string>>;
+  isAdapting: boolean;
+  onCaptionChange: (id: PlatformId, text: string) => void;
+  onAdapt: () => void;
+}) => {
+  const others = targets.filter(t => t !== 'linkedin');
+  if (!others.length) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Network Variants</label>
+        <button onClick={onAdapt} disabled={isAdapting} className="text-[10px] font-black text-orange-500 hover:text-orange-400 uppercase disabled:opacity-50">
+          {isAdapting ? "ADAPTING..." : "ADAPT CAPTIONS_"}
+        </button>
+      </div>
+      {others.map(id => {
+        const spec = PLATFORMS[id];
+        return (
+          <div key={id} className="flex gap-4 p-3 bg-black/40 border border-white/5 rounded-2xl">
+            {renditions[id] ? (
+              <img src={renditions[id]} style={{ aspectRatio: `${spec.width} / ${spec.height}` }} className="w-16 self-start rounded-lg object-cover border border-white/10 shrink-0" alt={`${spec.label} rendition`} />
+            ) : (
+              <div className="w-16 h-16 rounded-lg border border-white/10 flex items-center justify-center text-[9px] font-black text-gray-600 uppercase shrink-0">Text</div>
+            )}
+            <div className="flex-grow space-y-1 min-w-0">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] font-black uppercase tracking-widest text-white">{spec.label} <span className="text-gray-600">{spec.width}×{spec.height}</span></span>
+                <CaptionLimitBadge text={captions[id] || ""} platform={id} />
+              </div>
+              <textarea
+                dir="auto"
+                value={captions[id] || ""}
+                onChange={e => onCaptionChange(id, e.target.value)}
+                placeholder="Adapt captions to fill this variant..."
+                className="w-full h-20 bg-black/40 border border-white/5 rounded-xl p-3 text-xs resize-none outline-none focus:border-orange-500/50"
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import {
+  PromptKind,
+  PromptTemplate,
+  PromptSelection,
+  PROMPT_KINDS,
+  PLACEHOLDERS,
+  SAMPLE_VALUES,
+  currentVersion,
+  renderPrompt,
+  unknownPlaceholders,
+  addVersion
+} from './promptService';
+
+const labelClass = "text-[10px] text-gray-500 font-black uppercase tracking-widest";
+
+export const PromptSelector = ({
+  templates,
+  selection,
+  kinds,
+  onChange
+}: {
+  templates: PromptTemplate[];
+  selection: PromptSelection;
+  kinds: PromptKind[];
+  onChange: (selection: PromptSelection) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {kinds.map(kind => (
+      <label key={kind} className="flex items-center gap-2 bg-black/40 border border-white/5 rounded-xl pl-3">
+        <span className="text-[9px] font-black uppercase tracking-widest text-gray-600">{PROMPT_KINDS.find(k => k.kind === kind)!.label}</span>
+        <select
+          value={selection[kind]}
+          onChange={e => onChange({ ...selection, [kind]: e.target.value })}
+          className="bg-transparent py-2 pr-3 text-[10px] font-bold text-gray-300 outline-none"
+        >
+          {templates.filter(t => t.kind === kind).map(t => (
+            <option key={t.id} value={t.id} className="bg-black">{t.name} v{currentVersion(t).version}</option>
+          ))}
+        </select>
+      </label>
+    ))}
+  </div>
+);
+
+const TemplateEditor = ({
+  template,
+  onSave,
+  onDuplicate,
+  onDelete
+}: {
+  template: PromptTemplate;
+  onSave: (t: PromptTemplate) => void;
+  onDuplicate: (t: PromptTemplate, body: string) => void;
+  onDelete: (t: PromptTemplate) => void;
+}) => {
+  const latest = currentVersion(template);
+  const [name, setName] = useState(template.name);
+  const [body, setBody] = useState(latest.body);
+  const [viewing, setViewing] = useState(latest.version);
+  const [samples, setSamples] = useState<Record<string, string>>(SAMPLE_VALUES);
+  const unknown = unknownPlaceholders(body, template.kind);
+  const changed = body !== latest.body || name !== template.name;
+
+  const viewVersion = (version: number) => {
+    setViewing(version);
+    setBody(template.versions.find(v => v.version === version)!.body);
+  };
+
+  const handleSave = () => {
+    const renamed = { ...template, name: name.trim() || template.name };
+    onSave(body !== latest.body ? addVersion(renamed, body) : renamed);
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        <div className="flex gap-3 items-center">
+          <input value={name} onChange={e => setName(e.target.value)} className="flex-grow bg-black border border-white/10 rounded-xl p-3 text-sm font-bold outline-none focus:border-orange-500" />
+          <select value={viewing} onChange={e => viewVersion(Number(e.target.value))} className="bg-black border border-white/10 rounded-xl p-3 text-xs outline-none">
+            {[...template.versions].reverse().map(v => (
+              <option key={v.version} value={v.version}>v{v.version} • {new Date(v.createdAt).toLocaleDateString()}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {PLACEHOLDERS[template.kind].map(p => (
+            <button key={p} onClick={() => setBody(b => `${b}{{${p}}}`)} className="px-2 py-1 rounded-md bg-white/5 text-[10px] font-mono text-orange-400 hover:bg-white/10">{`{{${p}}}`}</button>
+          ))}
+        </div>
+        <textarea value={body} onChange={e => setBody(e.target.value)} className="w-full h-80 bg-black border border-white/10 rounded-xl p-3 text-xs font-mono leading-relaxed outline-none focus:border-orange-500 resize-none" />
+        {unknown.length > 0 && (
+          <p className="text-[10px] text-yellow-500 uppercase tracking-widest">Unknown placeholders: {unknown.map(u => `{{${u}}}`).join(', ')}</p>
+        )}
+        <div className="flex gap-4 items-center">
+          <button onClick={handleSave} disabled={!changed} className="px-5 py-3 bg-orange-600 text-black font-black rounded-xl uppercase tracking-widest text-[10px] disabled:opacity-30">
+            {body !== latest.body ? `Save As v${latest.version + 1}_` : "Save_"}
+          </button>
+          <button onClick={() => onDuplicate(template, body)} className="text-[10px] font-black text-gray-400 hover:text-white uppercase">Duplicate_</button>
+          {!template.builtIn && <button onClick={() => onDelete(template)} className="text-[10px] font-black text-red-500 uppercase">Delete_</button>}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <label className={labelClass}>Preview With Sample Input</label>
+        <div className="grid grid-cols-2 gap-2">
+          {PLACEHOLDERS[template.kind].map(p => (
+            <input key={p} value={samples[p] || ''} onChange={e => setSamples(s => ({ ...s, [p]: e.target.value }))} title={p} placeholder={p} className="bg-black border border-white/10 rounded-lg p-2 text-[10px] outline-none focus:border-orange-500" />
+          ))}
+        </div>
+        <pre className="w-full h-80 overflow-y-auto bg-black/40 border border-white/5 rounded-xl p-3 text-xs text-gray-300 whitespace-pre-wrap font-sans">{renderPrompt(body, samples)}</pre>
+      </div>
+    </div>
+  );
+};
+
+export const PromptLibrary = ({
+  templates,
+  onChange,
+  onClose
+}: {
+  templates: PromptTemplate[];
+  onChange: (templates: PromptTemplate[]) => void;
+  onClose: () => void;
+}) => {
+  const [selectedId, setSelectedId] = useState(templates[0].id);
+  const selected = templates.find(t => t.id === selectedId) || templates[0];
+
+  const handleSave = (t: PromptTemplate) => onChange(templates.map(x => x.id === t.id ? t : x));
+
+  const createTemplate = (kind: PromptKind, name: string, body: string) => {
+    const t: PromptTemplate = { id: crypto.randomUUID(), name, kind, builtIn: false, versions: [{ version: 1, body, createdAt: new Date().toISOString() }] };
+    onChange([...templates, t]);
+    setSelectedId(t.id);
+  };
+
+  const handleDelete = (t: PromptTemplate) => {
+    onChange(templates.filter(x => x.id !== t.id));
+    setSelectedId(templates[0].id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-6xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Prompt Library_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="flex-grow grid md:grid-cols-[220px_1fr] overflow-hidden">
+          <div className="p-4 border-r border-white/5 space-y-5 overflow-y-auto">
+            {PROMPT_KINDS.map(({ kind, label }) => (
+              <div key={kind} className="space-y-1">
+                <div className="flex justify-between items-center">
+                  <span className={labelClass}>{label}</span>
+                  <button onClick={() => createTemplate(kind, `New ${label} Template`, `{{accomplishment}}`)} className="text-[10px] font-black text-orange-500 uppercase" title="New template">+</button>
+                </div>
+                {templates.filter(t => t.kind === kind).map(t => (
+                  <button key={t.id} onClick={() => setSelectedId(t.id)} className={`w-full text-left px-3 py-2 rounded-lg text-xs font-bold truncate ${t.id === selected.id ? 'bg-orange-600 text-black' : 'text-gray-400 hover:bg-white/5'}`}>
+                    {t.name} <span className="opacity-50">v{currentVersion(t).version}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="p-6 overflow-y-auto">
+            <React.Fragment key={`${selected.id}:${currentVersion(selected).version}`}>
+              <TemplateEditor
+                template={selected}
+                onSave={handleSave}
+                onDuplicate={(t, body) => createTemplate(t.kind, `${t.name} Copy`, body)}
+                onDelete={handleDelete}
+              />
+            </React.Fragment>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
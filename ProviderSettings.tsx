@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings, PROVIDERS } from './providerService';
+
+const inputClass = "w-full bg-black border border-white/10 rounded-xl p-3 text-xs outline-none focus:border-orange-500";
+const labelClass = "text-[10px] text-gray-500 font-black uppercase tracking-widest";
+
+const DESCRIPTIONS: Record<ProviderId, string> = {
+  gemini: "Gemini for text, the active brand's n8n webhooks for images and edits.",
+  openai: "Any OpenAI-compatible endpoint — OpenAI, or a local LLM such as Ollama or LM Studio.",
+  mock: "No network at all: canned text and locally rendered placeholder images, for demos and testing.",
+};
+
+export const ProviderSettingsDialog = ({
+  settings,
+  onSave,
+  onClose
+}: {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}) => {
+  const [draft, setDraft] = useState(settings);
+  const setOpenAI = (patch: Partial<ProviderSettings['openai']>) => setDraft(d => ({ ...d, openai: { ...d.openai, ...patch } }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">AI Provider_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="space-y-2">
+            {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+              <button
+                key={id}
+                onClick={() => setDraft(d => ({ ...d, provider: id }))}
+                className={`w-full text-left p-4 rounded-2xl border transition-all ${draft.provider === id ? 'border-orange-500 bg-orange-500/10' : 'border-white/5 bg-black/40 hover:border-white/20'}`}
+              >
+                <span className="block text-xs font-black uppercase tracking-widest">{PROVIDERS[id].label}</span>
+                <span className="block text-[11px] text-gray-500 mt-1">{DESCRIPTIONS[id]}</span>
+              </button>
+            ))}
+          </div>
+
+          {draft.provider === 'openai' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className={labelClass}>Base URL</label>
+                <input value={draft.openai.baseUrl} onChange={e => setOpenAI({ baseUrl: e.target.value })} placeholder="https://api.openai.com/v1" className={inputClass} />
+              </div>
+              <div className="space-y-2">
+                <label className={labelClass}>API Key (blank for local servers)</label>
+                <input type="password" value={draft.openai.apiKey} onChange={e => setOpenAI({ apiKey: e.target.value })} className={inputClass} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className={labelClass}>Text Model</label>
+                  <input value={draft.openai.textModel} onChange={e => setOpenAI({ textModel: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-2">
+                  <label className={labelClass}>Image Model</label>
+                  <input value={draft.openai.imageModel} onChange={e => setOpenAI({ imageModel: e.target.value })} placeholder="blank = n8n webhooks" className={inputClass} />
+                </div>
+              </div>
+              <p className="text-[10px] text-gray-600 uppercase tracking-widest">The key is kept in this browser's local storage.</p>
+            </div>
+          )}
+
+          <p className="text-[10px] text-gray-600 uppercase tracking-widest">Publishing always goes through the brand's posting webhook.</p>
+        </div>
+        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0">
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            disabled={draft.provider === 'openai' && (!draft.openai.baseUrl.trim() || !draft.openai.textModel.trim())}
+            className="w-full py-4 bg-orange-600 text-black font-black rounded-xl transition-all disabled:opacity-50 uppercase tracking-widest text-xs"
+          >
+            SAVE PROVIDER_
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
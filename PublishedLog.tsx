@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { PublishedPost, PublishedStatus, deletePublished } from './analyticsService';
+import { retrySend, deletePublishedPost, editPublishedCaption } from './publishService';
+import { describeError } from './serviceErrors';
+import { PLATFORMS } from './platforms';
+import { findAuthor } from './authorService';
+
+const STATUS_STYLES: Record<PublishedStatus, string> = {
+  published: 'bg-green-500/10 border-green-500/20 text-green-400',
+  pending: 'bg-orange-500/10 border-orange-500/20 text-orange-400',
+  failed: 'bg-red-500/10 border-red-500/20 text-red-400',
+  deleted: 'bg-white/5 border-white/10 text-gray-500',
+};
+
+const PublishedRow = ({
+  post,
+  onChange,
+  onForget,
+  notify
+}: {
+  post: PublishedPost;
+  onChange: (post: PublishedPost) => void;
+  onForget: (post: PublishedPost) => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(post.caption);
+  const [isBusy, setIsBusy] = useState(false);
+  const status = post.status || 'published';
+  const author = post.authorId ? findAuthor(post.authorId) : undefined;
+
+  // Every follow-up goes through the webhooks; the row only changes once they confirm
+  const run = async (action: () => Promise<PublishedPost>, success: string, fallback: string) => {
+    setIsBusy(true);
+    try {
+      const updated = await action();
+      onChange(updated);
+      if (updated.status === 'failed') notify(`${fallback} — ${updated.lastError}`, 'error');
+      else notify(success, 'success');
+      return true;
+    } catch (e) {
+      notify(describeError(e, fallback), 'error');
+      return false;
+    } finally { setIsBusy(false); }
+  };
+
+  const handleSaveCaption = async () => {
+    if (await run(() => editPublishedCaption(post, draft), "Caption Updated", "Caption Update Failed")) setIsEditing(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete this post from ${PLATFORMS[post.platform].label}? This can't be undone.`)) {
+      run(() => deletePublishedPost(post), "Post Deleted", "Delete Failed");
+    }
+  };
+
+  return (
+    <div className="flex gap-4 p-4 bg-black/40 border border-white/5 rounded-2xl">
+      {post.image ? (
+        <img src={post.image} className={`w-16 h-20 rounded-lg object-cover shrink-0 border border-white/10 ${status === 'deleted' ? 'opacity-30' : ''}`} alt="Published graphic" />
+      ) : (
+        <div className="w-16 h-20 rounded-lg shrink-0 border border-white/10 flex items-center justify-center text-[9px] font-black text-gray-600 uppercase">{post.type === 'document' ? 'PDF' : 'Text'}</div>
+      )}
+      <div className="min-w-0 flex-grow space-y-2">
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-[11px] font-bold text-white truncate">
+            {new Date(post.publishedAt).toLocaleString()} <span className="text-gray-500">• {PLATFORMS[post.platform].label}{author && ` • ${author.name}`}{post.editedAt && " • edited"}</span>
+          </span>
+          <span className={`px-2 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border shrink-0 ${STATUS_STYLES[status]}`}>{status}</span>
+        </div>
+        {isEditing ? (
+          <textarea
+            dir="auto"
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            className="w-full h-28 bg-black/40 border border-white/10 rounded-xl p-3 text-xs text-gray-200 outline-none resize-none focus:border-orange-500/30"
+          />
+        ) : (
+          <p dir="auto" className="text-xs text-gray-400 line-clamp-2 whitespace-pre-wrap">{post.caption || "(no caption)"}</p>
+        )}
+        {status === 'failed' && post.lastError && <p className="text-[10px] text-red-400 truncate">Attempt {post.attempts || 1}: {post.lastError}</p>}
+        <div className="flex flex-wrap gap-4 items-center">
+          {post.postUrl && status !== 'deleted' && (
+            <a href={post.postUrl} target="_blank" rel="noreferrer" className="text-[10px] font-black text-[#71b7fb] hover:underline uppercase tracking-widest">View Post_</a>
+          )}
+          {isEditing ? (
+            <>
+              <button onClick={handleSaveCaption} disabled={isBusy || !draft.trim() || draft === post.caption} className="text-[10px] font-black text-orange-500 uppercase tracking-widest disabled:opacity-30">{isBusy ? "Saving..." : "Save Caption_"}</button>
+              <button onClick={() => { setIsEditing(false); setDraft(post.caption); }} className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Discard</button>
+            </>
+          ) : status === 'failed' ? (
+            <>
+              {post.retry && <button onClick={() => run(() => retrySend(post), "Post Sent", "Retry Failed")} disabled={isBusy} className="text-[10px] font-black text-yellow-500 hover:text-yellow-400 uppercase tracking-widest disabled:opacity-30">{isBusy ? "Sending..." : "Retry_"}</button>}
+              <button onClick={() => onForget(post)} disabled={isBusy} className="text-[10px] font-black text-red-500 hover:text-red-400 uppercase tracking-widest disabled:opacity-30">Discard_</button>
+            </>
+          ) : status !== 'deleted' && post.postId && (
+            <>
+              <button onClick={() => { setDraft(post.caption); setIsEditing(true); }} disabled={isBusy} className="text-[10px] font-black text-orange-500 hover:text-orange-400 uppercase tracking-widest disabled:opacity-30">Edit Caption_</button>
+              <button onClick={handleDelete} disabled={isBusy} className="text-[10px] font-black text-red-500 hover:text-red-400 uppercase tracking-widest disabled:opacity-30">{isBusy ? "Deleting..." : "Delete Post_"}</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Everything sent through the posting webhook: live posts with their links, sends that failed
+ * (to retry or discard), and follow-ups that edit or delete a post through the manage webhook.
+ */
+export const PublishedLog = ({
+  posts,
+  setPosts,
+  onClose,
+  notify
+}: {
+  posts: PublishedPost[];
+  setPosts: (updater: (prev: PublishedPost[]) => PublishedPost[]) => void;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const failed = posts.filter(p => p.status === 'failed');
+  const sent = posts.filter(p => p.status !== 'failed');
+
+  const handleChange = (updated: PublishedPost) => setPosts(list => list.map(p => p.id === updated.id ? updated : p));
+
+  const handleForget = async (post: PublishedPost) => {
+    try {
+      await deletePublished(post.id);
+      setPosts(list => list.filter(p => p.id !== post.id));
+    } catch (e) { notify("History Write Failed", 'error'); }
+  };
+
+  const renderRows = (list: PublishedPost[]) => list.map(p => (
+    <React.Fragment key={p.id}>
+      <PublishedRow post={p} onChange={handleChange} onForget={handleForget} notify={notify} />
+    </React.Fragment>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-4xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center gap-4 shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Published_</h2>
+          <span className="text-[10px] text-gray-500 font-black uppercase tracking-widest">{sent.length} sent • {failed.length} failed</span>
+          <button onClick={onClose} className="ml-auto p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-6">
+          {failed.length > 0 && (
+            <div className="space-y-3">
+              <label className="text-[10px] text-red-400 font-black uppercase tracking-widest">Failed Sends</label>
+              {renderRows(failed)}
+            </div>
+          )}
+          <div className="space-y-3">
+            <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Sent</label>
+            {sent.length ? renderRows(sent) : (
+              <p className="py-12 text-center text-gray-600 text-xs uppercase tracking-widest">Published posts will appear here</p>
+            )}
+          </div>
+          <p className="text-[9px] text-gray-600 uppercase tracking-widest">
+            Retries reuse the original idempotency key, so a post that did go out isn't published twice. Editing and deleting need the post id from the posting webhook and the brand's manage webhook.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import {
+  ReviewDraft,
+  ReviewStatus,
+  ReviewComment,
+  REVIEW_STATUSES,
+  TRANSITIONS,
+  transitionReview,
+  addComment,
+  toggleResolved
+} from './reviewService';
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: 'bg-white/5 border-white/10 text-gray-400',
+  in_review: 'bg-orange-500/10 border-orange-500/20 text-orange-400',
+  approved: 'bg-green-500/10 border-green-500/20 text-green-400',
+  rejected: 'bg-red-500/10 border-red-500/20 text-red-400',
+  published: 'bg-blue-500/10 border-blue-500/20 text-blue-400',
+};
+
+const ACTION_LABELS: Partial<Record<ReviewStatus, string>> = {
+  in_review: 'Submit_',
+  approved: 'Approve_',
+  rejected: 'Reject_',
+  draft: 'Back To Draft_',
+};
+
+const statusLabel = (status: ReviewStatus) => REVIEW_STATUSES.find(s => s.id === status)!.label;
+
+export const ReviewStatusPill = ({ status }: { status: ReviewStatus }) => (
+  <span className={`px-2 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border shrink-0 ${STATUS_STYLES[status]}`}>{statusLabel(status)}</span>
+);
+
+/**
+ * Review state of the draft open in the editor, shown above the publish buttons.
+ */
+export const ReviewStatusBar = ({
+  review,
+  isStale,
+  onSubmit,
+  onOpen
+}: {
+  review: ReviewDraft | undefined;
+  isStale: boolean;
+  onSubmit: () => void;
+  onOpen: () => void;
+}) => {
+  const openComments = review?.comments.filter(c => !c.resolved).length || 0;
+  // Published drafts are final; new content starts a new draft
+  const canSubmit = !review || (review.status !== 'published' && (isStale || review.status === 'draft' || review.status === 'rejected'));
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-2xl bg-black/40 border border-white/5">
+      {review ? <ReviewStatusPill status={review.status} /> : <span className="text-[10px] font-black uppercase tracking-widest text-gray-600">Not Reviewed</span>}
+      {review && isStale && review.status !== 'draft' && <span className="text-[10px] font-bold text-yellow-500 uppercase tracking-widest">Changed Since Review</span>}
+      {openComments > 0 && <span className="text-[10px] font-bold text-gray-400">{openComments} open comment{openComments === 1 ? '' : 's'}</span>}
+      <div className="ml-auto flex gap-3">
+        {review && <button onClick={onOpen} className="text-[10px] font-black text-gray-400 hover:text-white uppercase">Open Review_</button>}
+        {canSubmit && <button onClick={onSubmit} className="text-[10px] font-black text-orange-500 hover:text-orange-400 uppercase">Submit For Review_</button>}
+      </div>
+    </div>
+  );
+};
+
+const CommentItem = ({ comment, pin, onToggle }: { comment: ReviewComment; pin: number | null; onToggle: () => void }) => (
+  <div className={`p-3 rounded-xl border space-y-1 ${comment.resolved ? 'border-white/5 opacity-50' : 'border-white/10 bg-black/40'}`}>
+    <div className="flex justify-between items-center gap-2">
+      <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">
+        {pin !== null && <span className="mr-2 px-1.5 py-0.5 rounded-full bg-orange-600 text-black">{pin}</span>}
+        {comment.author} • {comment.target}
+      </span>
+      <button onClick={onToggle} className="text-[10px] font-black text-orange-500 uppercase">{comment.resolved ? "Reopen" : "Resolve"}</button>
+    </div>
+    {comment.anchor?.quote && <p className="text-[11px] text-gray-500 italic border-l-2 border-white/10 pl-2 line-clamp-2">“{comment.anchor.quote}”</p>}
+    <p className="text-xs text-gray-200 whitespace-pre-wrap">{comment.text}</p>
+  </div>
+);
+
+const ReviewDetail = ({
+  review,
+  actor,
+  onChange,
+  onOpenDraft,
+  notify
+}: {
+  review: ReviewDraft;
+  actor: string;
+  onChange: (review: ReviewDraft) => void;
+  onOpenDraft: (review: ReviewDraft) => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [target, setTarget] = useState<'caption' | 'image'>('caption');
+  const [quote, setQuote] = useState('');
+  const [pin, setPin] = useState<{ x: number; y: number } | null>(null);
+  const [text, setText] = useState('');
+  const [note, setNote] = useState('');
+  const { snapshot } = review;
+  const pinned = review.comments.filter(c => c.target === 'image' && c.anchor?.x !== undefined);
+
+  const handleComment = () => {
+    const anchor = target === 'caption' ? (quote ? { quote } : undefined) : (pin || undefined);
+    onChange(addComment(review, { target, text: text.trim(), anchor }, actor));
+    setText('');
+    setQuote('');
+    setPin(null);
+  };
+
+  const handleTransition = (to: ReviewStatus) => {
+    try {
+      onChange(transitionReview(review, to, actor, note.trim() || undefined));
+      setNote('');
+    } catch (e) {
+      notify(e instanceof Error ? e.message : "Transition Failed", 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <ReviewStatusPill status={review.status} />
+        <span className="text-[10px] font-black uppercase tracking-widest text-gray-500">{snapshot.mode} • updated {new Date(review.updatedAt).toLocaleString()}</span>
+        <button onClick={() => onOpenDraft(review)} className="ml-auto text-[10px] font-black text-gray-400 hover:text-white uppercase">Open In Editor_</button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6 items-start">
+        {snapshot.image ? (
+          <div className="relative cursor-crosshair" onClick={e => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setTarget('image');
+            setPin({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+          }}>
+            <img src={snapshot.image} className="w-full rounded-xl border border-white/10" alt="Graphic under review" />
+            {pinned.map((c, i) => (
+              <span key={c.id} style={{ left: `${c.anchor!.x! * 100}%`, top: `${c.anchor!.y! * 100}%` }} className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full text-[10px] font-black flex items-center justify-center border-2 border-black ${c.resolved ? 'bg-gray-600 text-black' : 'bg-orange-600 text-black'}`}>{i + 1}</span>
+            ))}
+            {pin && <span style={{ left: `${pin.x * 100}%`, top: `${pin.y * 100}%` }} className="absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 border-white bg-white/30 animate-pulse" />}
+          </div>
+        ) : (
+          <div className="p-6 rounded-xl border border-dashed border-white/10 text-center text-[10px] font-black uppercase tracking-widest text-gray-600">
+            {snapshot.documentTitle ? `Carousel: ${snapshot.documentTitle}` : "Text-only post"}
+          </div>
+        )}
+        <div className="space-y-2">
+          <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Caption (select text to comment on it)</label>
+          <textarea
+            readOnly
+            value={snapshot.caption}
+            onSelect={e => {
+              const el = e.currentTarget;
+              const selected = el.value.slice(el.selectionStart, el.selectionEnd).trim();
+              if (selected) { setQuote(selected); setTarget('caption'); }
+            }}
+            className="w-full h-64 bg-black border border-white/10 rounded-xl p-3 text-xs outline-none resize-none"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3 p-4 rounded-2xl border border-white/5 bg-black/40">
+        <div className="flex items-center gap-2">
+          {(['caption', 'image'] as const).map(t => (
+            <button key={t} onClick={() => setTarget(t)} disabled={t === 'image' && !snapshot.image} className={`px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-lg disabled:opacity-30 ${target === t ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>{t}</button>
+          ))}
+          <span className="text-[10px] text-gray-500 truncate">
+            {target === 'caption' ? (quote ? `Quoting “${quote}”` : "Whole caption") : (pin ? `Pin at ${Math.round(pin.x * 100)}%, ${Math.round(pin.y * 100)}%` : "Click the image to pin")}
+          </span>
+        </div>
+        <div className="flex gap-3">
+          <input value={text} onChange={e => setText(e.target.value)} onKeyDown={e => { if (e.key === 'Enter' && text.trim()) handleComment(); }} placeholder="Add a comment..." className="flex-grow bg-black border border-white/10 rounded-xl p-3 text-xs outline-none focus:border-orange-500" />
+          <button onClick={handleComment} disabled={!text.trim()} className="px-5 bg-white/5 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Comment_</button>
+        </div>
+      </div>
+
+      {review.comments.length > 0 && (
+        <div className="space-y-2">
+          {review.comments.map(c => (
+            <React.Fragment key={c.id}>
+              <CommentItem comment={c} pin={pinned.includes(c) ? pinned.indexOf(c) + 1 : null} onToggle={() => onChange(toggleResolved(review, c.id, actor))} />
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      {TRANSITIONS[review.status].some(s => ACTION_LABELS[s]) && (
+        <div className="flex flex-wrap gap-3 items-center">
+          <input value={note} onChange={e => setNote(e.target.value)} placeholder="Note for the audit trail (optional)" className="flex-grow bg-black border border-white/10 rounded-xl p-3 text-xs outline-none" />
+          {TRANSITIONS[review.status].filter(s => ACTION_LABELS[s]).map(s => (
+            <button
+              key={s}
+              onClick={() => handleTransition(s)}
+              className={`px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest ${s === 'approved' ? 'bg-green-600 text-black' : s === 'rejected' ? 'bg-red-600 text-black' : 'bg-white/5 border border-white/10'}`}
+            >
+              {ACTION_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Audit Trail</label>
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {[...review.audit].reverse().map((entry, i) => (
+            <p key={i} className="text-[11px] text-gray-400 font-mono">
+              <span className="text-gray-600">{new Date(entry.at).toLocaleString()}</span> {entry.actor}: {entry.action}{entry.detail && <span className="text-gray-600"> — {entry.detail}</span>}
+            </p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const ReviewQueue = ({
+  reviews,
+  initialId,
+  actor,
+  onActorChange,
+  onChange,
+  onOpenDraft,
+  onClose,
+  notify
+}: {
+  reviews: ReviewDraft[];
+  initialId?: string;
+  actor: string;
+  onActorChange: (name: string) => void;
+  onChange: (review: ReviewDraft) => void;
+  onOpenDraft: (review: ReviewDraft) => void;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [filter, setFilter] = useState<ReviewStatus>(() => reviews.find(r => r.id === initialId)?.status || 'in_review');
+  const [selectedId, setSelectedId] = useState(initialId);
+  const visible = reviews.filter(r => r.status === filter);
+  const selected = reviews.find(r => r.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-6xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center gap-4 shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Review Queue_</h2>
+          <div className="flex items-center gap-3 ml-auto">
+            <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Reviewing As</label>
+            <input value={actor} onChange={e => onActorChange(e.target.value)} placeholder="Your name" className="bg-black border border-white/10 rounded-xl px-3 py-2 text-xs outline-none focus:border-orange-500 w-40" />
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="flex-grow grid md:grid-cols-[260px_1fr] overflow-hidden">
+          <div className="border-r border-white/5 flex flex-col overflow-hidden">
+            <div className="p-3 flex flex-wrap gap-1 border-b border-white/5">
+              {REVIEW_STATUSES.map(s => (
+                <button key={s.id} onClick={() => setFilter(s.id)} className={`px-2.5 py-1.5 text-[9px] font-black uppercase tracking-widest rounded-lg ${filter === s.id ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>
+                  {s.label} {reviews.filter(r => r.status === s.id).length}
+                </button>
+              ))}
+            </div>
+            <div className="p-3 space-y-2 overflow-y-auto">
+              {visible.length === 0 && <p className="py-8 text-center text-[10px] text-gray-600 uppercase tracking-widest">Nothing here</p>}
+              {visible.map(r => (
+                <button key={r.id} onClick={() => setSelectedId(r.id)} className={`w-full flex gap-3 p-2 rounded-xl text-left ${r.id === selectedId ? 'bg-white/10' : 'hover:bg-white/5'}`}>
+                  {r.snapshot.image
+                    ? <img src={r.snapshot.image} className="w-10 h-12 rounded-md object-cover shrink-0" alt="" />
+                    : <div className="w-10 h-12 rounded-md border border-white/10 shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="text-xs font-bold truncate">{r.snapshot.accomplishment || r.snapshot.caption.slice(0, 60) || "(empty draft)"}</p>
+                    <p className="text-[10px] text-gray-500">{r.comments.filter(c => !c.resolved).length} open • {new Date(r.updatedAt).toLocaleDateString()}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="p-6 overflow-y-auto">
+            {selected ? (
+              <React.Fragment key={selected.id}>
+                <ReviewDetail review={selected} actor={actor || 'Anonymous'} onChange={onChange} onOpenDraft={onOpenDraft} notify={notify} />
+              </React.Fragment>
+            ) : (
+              <p className="py-16 text-center text-gray-600 text-xs uppercase tracking-widest">Select a draft to review</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useState, useMemo } from 'react';
+import {
+  ScheduledPost,
+  ScheduleStatus,
+  LOCAL_TIME_ZONE,
+  listTimeZones,
+  zonedInputToUtc,
+  utcToZonedInput,
+  formatInZone
+} from './schedulerService';
+import { PLATFORMS } from './platforms';
+import { findAuthor } from './authorService';
+import { describeError } from './serviceErrors';
+
+const STATUS_STYLES: Record<ScheduleStatus, string> = {
+  pending: 'bg-orange-500/10 border-orange-500/20 text-orange-400',
+  retried: 'bg-yellow-500/10 border-yellow-500/20 text-yellow-400',
+  sent: 'bg-green-500/10 border-green-500/20 text-green-400',
+  failed: 'bg-red-500/10 border-red-500/20 text-red-400',
+};
+
+const DateTimeZonePicker = ({
+  value,
+  timeZone,
+  onChange
+}: {
+  value: string;
+  timeZone: string;
+  onChange: (value: string, timeZone: string) => void;
+}) => {
+  const zones = useMemo(listTimeZones, []);
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <input
+        type="datetime-local"
+        value={value}
+        onChange={e => onChange(e.target.value, timeZone)}
+        className="bg-black border border-white/10 rounded-xl p-3 text-xs outline-none focus:border-orange-500 [color-scheme:dark]"
+      />
+      <select
+        value={timeZone}
+        onChange={e => onChange(value, e.target.value)}
+        className="bg-black border border-white/10 rounded-xl p-3 text-xs outline-none focus:border-orange-500"
+      >
+        {zones.map(z => <option key={z} value={z}>{z}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export const ScheduleDialog = ({
+  onClose,
+  onConfirm,
+  notify
+}: {
+  onClose: () => void;
+  onConfirm: (scheduledAt: string, timeZone: string) => Promise<void>;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [timeZone, setTimeZone] = useState(LOCAL_TIME_ZONE);
+  const [local, setLocal] = useState(() => utcToZonedInput(new Date(Date.now() + 60 * 60 * 1000).toISOString(), LOCAL_TIME_ZONE));
+  const [isSaving, setIsSaving] = useState(false);
+  const isPast = !!local && new Date(zonedInputToUtc(local, timeZone)).getTime() <= Date.now();
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      await onConfirm(zonedInputToUtc(local, timeZone), timeZone);
+      onClose();
+    } catch (e) {
+      notify(describeError(e, "Scheduling Failed"), 'error');
+    } finally { setIsSaving(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4 animate-in fade-in duration-300">
+      <div className="max-w-md w-full bg-[#0a0a0a] border border-white/10 rounded-[2rem] shadow-2xl p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Schedule Post_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Go-Live Time & Timezone</label>
+          <DateTimeZonePicker value={local} timeZone={timeZone} onChange={(v, z) => { setLocal(v); setTimeZone(z); }} />
+          {isPast && <p className="text-[10px] text-yellow-500 uppercase tracking-widest">This time has passed — it will be sent on the next check.</p>}
+        </div>
+        <p className="text-[9px] text-gray-600 uppercase tracking-widest">Queued posts are dispatched while this app is open in a tab.</p>
+        <button
+          onClick={handleConfirm}
+          disabled={isSaving || !local}
+          className="w-full py-4 bg-orange-600 text-black font-black rounded-xl transition-all disabled:opacity-50 uppercase tracking-widest text-xs"
+        >
+          {isSaving ? "QUEUEING..." : "ADD TO QUEUE_"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const QueueItem = ({
+  item,
+  onReschedule,
+  onCancel,
+  onRetry
+}: {
+  item: ScheduledPost;
+  onReschedule: (item: ScheduledPost, scheduledAt: string, timeZone: string) => void;
+  onCancel: (item: ScheduledPost) => void;
+  onRetry: (item: ScheduledPost) => void;
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [local, setLocal] = useState(() => utcToZonedInput(item.scheduledAt, item.timeZone));
+  const [timeZone, setTimeZone] = useState(item.timeZone);
+  const author = useMemo(() => item.authorId ? findAuthor(item.authorId) : undefined, [item.authorId]);
+
+  return (
+    <div className="flex gap-4 p-4 bg-black/40 border border-white/5 rounded-2xl">
+      {item.image ? (
+        <img src={item.image} className="w-16 h-20 rounded-lg object-cover shrink-0 border border-white/10" alt="Scheduled graphic" />
+      ) : (
+        <div className="w-16 h-20 rounded-lg shrink-0 border border-white/10 flex items-center justify-center text-[9px] font-black text-gray-600 uppercase">{item.type === 'document' ? 'PDF' : 'Text'}</div>
+      )}
+      <div className="min-w-0 flex-grow space-y-2">
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-[11px] font-bold text-white truncate">{formatInZone(item.scheduledAt, item.timeZone)} <span className="text-gray-500">• {PLATFORMS[item.platform || 'linkedin'].label}{author && ` • ${author.name}`}</span></span>
+          <span className={`px-2 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border shrink-0 ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+        </div>
+        <p className="text-xs text-gray-400 line-clamp-2 whitespace-pre-wrap">{item.caption || "(no caption)"}</p>
+        {item.lastError && <p className="text-[10px] text-red-400 truncate">Attempt {item.attempts}: {item.lastError}</p>}
+        {isEditing ? (
+          <div className="space-y-2">
+            <DateTimeZonePicker value={local} timeZone={timeZone} onChange={(v, z) => { setLocal(v); setTimeZone(z); }} />
+            <div className="flex gap-2">
+              <button onClick={() => { onReschedule(item, zonedInputToUtc(local, timeZone), timeZone); setIsEditing(false); }} className="text-[10px] font-black text-orange-500 uppercase tracking-widest">Save_</button>
+              <button onClick={() => setIsEditing(false)} className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Discard</button>
+            </div>
+          </div>
+        ) : item.status !== 'sent' ? (
+          <div className="flex gap-4">
+            <button onClick={() => setIsEditing(true)} className="text-[10px] font-black text-orange-500 hover:text-orange-400 uppercase tracking-widest">Reschedule_</button>
+            {item.status === 'failed' && <button onClick={() => onRetry(item)} className="text-[10px] font-black text-yellow-500 hover:text-yellow-400 uppercase tracking-widest">Retry Now_</button>}
+            <button onClick={() => onCancel(item)} className="text-[10px] font-black text-red-500 hover:text-red-400 uppercase tracking-widest">Cancel_</button>
+          </div>
+        ) : item.postUrl && (
+          <a href={item.postUrl} target="_blank" rel="noreferrer" className="text-[10px] font-black text-[#71b7fb] hover:underline uppercase tracking-widest">View Post_</a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const SchedulePanel = ({
+  queue,
+  onClose,
+  onReschedule,
+  onCancel,
+  onRetry
+}: {
+  queue: ScheduledPost[];
+  onClose: () => void;
+  onReschedule: (item: ScheduledPost, scheduledAt: string, timeZone: string) => void;
+  onCancel: (item: ScheduledPost) => void;
+  onRetry: (item: ScheduledPost) => void;
+}) => {
+  const upcoming = queue.filter(i => i.status !== 'sent');
+  const sent = queue.filter(i => i.status === 'sent').reverse();
+
+  // Group upcoming items by calendar day in the viewer's zone.
+  const groups = new Map<string, ScheduledPost[]>();
+  upcoming.forEach(item => {
+    const day = new Intl.DateTimeFormat(undefined, { weekday: 'long', month: 'long', day: 'numeric' }).format(new Date(item.scheduledAt));
+    groups.set(day, [...(groups.get(day) || []), item]);
+  });
+  const days = Array.from(groups.entries());
+
+  const renderItem = (item: ScheduledPost) => (
+    <React.Fragment key={item.id}>
+      <QueueItem item={item} onReschedule={onReschedule} onCancel={onCancel} onRetry={onRetry} />
+    </React.Fragment>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-2xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Publishing Queue_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="flex-grow p-6 overflow-y-auto space-y-8">
+          {days.length === 0 && (
+            <p className="text-center text-[10px] font-black uppercase tracking-[0.4em] text-gray-600 py-12">Nothing Scheduled</p>
+          )}
+          {days.map(([day, items]) => (
+            <section key={day} className="space-y-3">
+              <h3 className="text-[10px] font-black uppercase tracking-widest text-gray-500">{day}</h3>
+              {items.map(renderItem)}
+            </section>
+          ))}
+          {sent.length > 0 && (
+            <section className="space-y-3 opacity-60">
+              <h3 className="text-[10px] font-black uppercase tracking-widest text-gray-500">Sent</h3>
+              {sent.map(renderItem)}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
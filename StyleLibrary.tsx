@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import {
+  StyleReference,
+  StylePick,
+  MAX_STYLE_PICKS,
+  MIN_STYLE_WEIGHT,
+  MAX_STYLE_WEIGHT,
+  DEFAULT_STYLE_WEIGHT,
+  saveStyle,
+  deleteStyle,
+  parseTags,
+  styleShares
+} from './styleService';
+
+/**
+ * The saved style references: name, tag and describe them, and pick up to three with
+ * relative weights to blend in the next generation. Removing a pick keeps the reference.
+ */
+export const StyleLibrary = ({
+  library,
+  picks,
+  describingIds,
+  onLibraryChange,
+  onPicksChange,
+  onAdd,
+  onDescribe,
+  onClose,
+  notify
+}: {
+  library: StyleReference[];
+  picks: StylePick[];
+  describingIds: string[];
+  onLibraryChange: (update: (library: StyleReference[]) => StyleReference[]) => void;
+  onPicksChange: (picks: StylePick[]) => void;
+  onAdd: (file: File) => void;
+  onDescribe: (style: StyleReference) => void;
+  onClose: () => void;
+  notify: (msg: string, type: 'success' | 'error') => void;
+}) => {
+  const [query, setQuery] = useState("");
+  const needle = query.trim().toLowerCase().replace(/^#/, '');
+  const visible = library.filter(s => !needle || s.name.toLowerCase().includes(needle) || s.tags.some(t => t.includes(needle)));
+  const shares = styleShares(picks);
+
+  const update = (id: string, changes: Partial<StyleReference>) => onLibraryChange(list => list.map(s => s.id === id ? { ...s, ...changes } : s));
+
+  const persist = (style: StyleReference) => {
+    saveStyle(style).catch(e => {
+      console.error("Failed to save style:", e);
+      notify("Style Not Saved", 'error');
+    });
+  };
+
+  const handleDelete = async (style: StyleReference) => {
+    if (!window.confirm(`Delete "${style.name}" from the library?`)) return;
+    try {
+      await deleteStyle(style.id);
+      onLibraryChange(list => list.filter(s => s.id !== style.id));
+      onPicksChange(picks.filter(p => p.id !== style.id));
+      notify("Style Deleted", 'success');
+    } catch (e) {
+      console.error("Failed to delete style:", e);
+      notify("Delete Failed", 'error');
+    }
+  };
+
+  const togglePick = (id: string) => {
+    if (picks.some(p => p.id === id)) onPicksChange(picks.filter(p => p.id !== id));
+    else if (picks.length < MAX_STYLE_PICKS) onPicksChange([...picks, { id, weight: DEFAULT_STYLE_WEIGHT }]);
+    else notify(`Blend Up to ${MAX_STYLE_PICKS} Styles`, 'error');
+  };
+
+  const setWeight = (id: string, weight: number) => onPicksChange(picks.map(p => p.id === id ? { ...p, weight } : p));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-4xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Style Library_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+
+        <div className="p-6 border-b border-white/5 flex gap-3 items-center shrink-0">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search names or #tags"
+            className="flex-grow bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-xs outline-none focus:border-orange-500/30"
+          />
+          <label className="relative shrink-0 px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all cursor-pointer">
+            Add Style_
+            <input type="file" accept="image/*" className="absolute inset-0 opacity-0 cursor-pointer" onChange={e => { const file = e.target.files?.[0]; if (file) onAdd(file); e.target.value = ''; }} />
+          </label>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-6 space-y-3">
+          {!library.length && (
+            <p className="text-center text-xs text-gray-600 uppercase tracking-widest py-12">No saved styles yet. Drop a reference image to start the library.</p>
+          )}
+          {visible.map(style => {
+            const pickIndex = picks.findIndex(p => p.id === style.id);
+            const pick = picks[pickIndex];
+            const isDescribing = describingIds.includes(style.id);
+            return (
+              <div key={style.id} className={`flex gap-4 p-4 rounded-2xl border ${pick ? 'border-orange-500/40 bg-orange-500/5' : 'border-white/5 bg-black/40'}`}>
+                <button onClick={() => togglePick(style.id)} className="relative shrink-0 w-24 h-24 rounded-xl overflow-hidden border border-white/10" title={pick ? "Remove from blend" : "Add to blend"}>
+                  <img src={style.thumb} className="w-full h-full object-cover" alt={style.name} />
+                  {pick && <span className="absolute top-1 left-1 bg-orange-600 text-black text-[9px] font-black px-2 py-0.5 rounded-full">{shares[pickIndex]}%</span>}
+                </button>
+                <div className="flex-grow min-w-0 space-y-2">
+                  <div className="flex gap-2">
+                    <input
+                      dir="auto"
+                      value={style.name}
+                      onChange={e => update(style.id, { name: e.target.value })}
+                      onBlur={() => persist(style)}
+                      className="flex-grow min-w-0 bg-transparent text-sm font-bold outline-none border-b border-white/5 focus:border-orange-500/30"
+                    />
+                    <button onClick={() => togglePick(style.id)} className={`shrink-0 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border transition-all ${pick ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}>
+                      {pick ? "In Blend" : "Use"}
+                    </button>
+                    <button onClick={() => handleDelete(style)} className="shrink-0 text-[10px] font-black text-gray-600 hover:text-red-500 uppercase">Delete_</button>
+                  </div>
+                  <input
+                    defaultValue={style.tags.join(', ')}
+                    onBlur={e => {
+                      const tags = parseTags(e.target.value);
+                      update(style.id, { tags });
+                      persist({ ...style, tags });
+                    }}
+                    placeholder="Tags, comma separated"
+                    className="w-full bg-transparent text-[10px] text-gray-400 outline-none border-b border-white/5 focus:border-orange-500/30"
+                  />
+                  <div className="flex gap-2 items-start">
+                    <textarea
+                      dir="auto"
+                      value={isDescribing ? "Describing palette and mood..." : style.description || ""}
+                      disabled={isDescribing}
+                      onChange={e => update(style.id, { description: e.target.value || null })}
+                      onBlur={() => persist(style)}
+                      placeholder="Palette and mood, sent with the image prompt"
+                      className="flex-grow h-14 bg-black/40 border border-white/5 rounded-lg p-2 text-[11px] text-gray-300 outline-none resize-none focus:border-orange-500/30 disabled:opacity-50"
+                    />
+                    <button onClick={() => onDescribe(style)} disabled={isDescribing} className="shrink-0 text-[10px] font-black text-orange-500 hover:text-orange-400 uppercase disabled:opacity-30">Describe_</button>
+                  </div>
+                  {pick && (
+                    <div className="flex items-center gap-3">
+                      <span className="text-[9px] text-gray-500 font-black uppercase tracking-widest">Weight</span>
+                      <input
+                        type="range"
+                        min={MIN_STYLE_WEIGHT}
+                        max={MAX_STYLE_WEIGHT}
+                        value={pick.weight}
+                        onChange={e => setWeight(style.id, Number(e.target.value))}
+                        className="flex-grow accent-orange-500"
+                      />
+                      <span className="text-[10px] font-mono text-gray-400 w-6 text-right">{pick.weight}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-white/5 shrink-0 flex justify-between items-center gap-4">
+          <p className="text-[9px] text-gray-600 uppercase tracking-widest">
+            {picks.length ? `${picks.length} of ${MAX_STYLE_PICKS} styles in the blend. The heaviest leads palette and lighting.` : "No styles picked: graphics use the plain image prompt."}
+          </p>
+          {picks.length > 0 && (
+            <button onClick={() => onPicksChange([])} className="shrink-0 text-[10px] font-black text-gray-500 hover:text-white uppercase tracking-widest">Clear Blend_</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
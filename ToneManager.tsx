@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import {
+  ToneProfile,
+  MIN_EXAMPLES,
+  MAX_EXAMPLES,
+  validateTone,
+  exportTones,
+  importTones
+} from './toneService';
+
+const inputClass = "w-full bg-black border border-white/10 rounded-xl p-3 text-xs outline-none focus:border-yellow-500";
+const labelClass = "text-[10px] text-gray-500 font-black uppercase tracking-widest";
+
+const RuleList = ({ label, rules, onChange }: { label: string; rules: string[]; onChange: (rules: string[]) => void }) => {
+  const [draft, setDraft] = useState(rules.join('\n'));
+  return (
+    <div className="space-y-2">
+      <label className={labelClass}>{label} (one per line)</label>
+      <textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={() => onChange(draft.split('\n').map(r => r.trim()).filter(Boolean))}
+        className={`${inputClass} h-24 resize-none`}
+      />
+    </div>
+  );
+};
+
+const ToneForm = ({ tone, onChange }: { tone: ToneProfile; onChange: (t: ToneProfile) => void }) => {
+  const setExample = (index: number, value: string) =>
+    onChange({ ...tone, examples: tone.examples.map((e, i) => i === index ? value : e) });
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <label className={labelClass}>Tone Name</label>
+        <input value={tone.name} onChange={e => onChange({ ...tone, name: e.target.value })} className={inputClass} />
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Description</label>
+        <textarea
+          value={tone.description}
+          onChange={e => onChange({ ...tone, description: e.target.value })}
+          placeholder="Who is speaking, to whom, and how it should feel"
+          className={`${inputClass} h-20 resize-none`}
+        />
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <RuleList label="Do" rules={tone.dos} onChange={dos => onChange({ ...tone, dos })} />
+        <RuleList label="Don't" rules={tone.donts} onChange={donts => onChange({ ...tone, donts })} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className={labelClass}>Example Posts ({tone.examples.length}/{MAX_EXAMPLES}, min {MIN_EXAMPLES})</label>
+          <button
+            onClick={() => onChange({ ...tone, examples: [...tone.examples, ''] })}
+            disabled={tone.examples.length >= MAX_EXAMPLES}
+            className="text-[10px] font-black text-yellow-500 uppercase disabled:opacity-30"
+          >
+            Add Example_
+          </button>
+        </div>
+        {tone.examples.map((example, i) => (
+          <div key={i} className="relative">
+            <textarea
+              value={example}
+              onChange={e => setExample(i, e.target.value)}
+              placeholder={`Paste a post written in this voice (${i + 1})`}
+              className={`${inputClass} h-28 resize-none`}
+            />
+            <button onClick={() => onChange({ ...tone, examples: tone.examples.filter((_, j) => j !== i) })} className="absolute top-2 right-2 text-[10px] font-black text-red-500 uppercase">Remove</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const TonePicker = ({
+  tones,
+  selectedId,
+  onChange
+}: {
+  tones: ToneProfile[];
+  selectedId: string;
+  onChange: (id: string) => void;
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {tones.map(t => (
+      <button
+        key={t.id}
+        onClick={() => onChange(t.id)}
+        title={t.description}
+        className={`px-4 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all border ${selectedId === t.id ? 'bg-yellow-600 text-black border-yellow-600' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
+      >
+        {t.name}{!t.builtIn && <span className="opacity-60"> ✦</span>}
+      </button>
+    ))}
+  </div>
+);
+
+export const ToneManager = ({
+  tones,
+  activeId,
+  onSave,
+  onClose,
+  onError
+}: {
+  tones: ToneProfile[];
+  activeId: string;
+  onSave: (tones: ToneProfile[]) => void;
+  onClose: () => void;
+  onError: (msg: string) => void;
+}) => {
+  const [drafts, setDrafts] = useState(tones);
+  const [selectedId, setSelectedId] = useState(activeId);
+  const selected = drafts.find(t => t.id === selectedId) || drafts[0];
+  const invalid = drafts.filter(t => validateTone(t).length);
+
+  const updateSelected = (next: ToneProfile) => setDrafts(ds => ds.map(d => d.id === next.id ? next : d));
+
+  const addTone = (base: ToneProfile) => {
+    const copy: ToneProfile = {
+      ...base,
+      id: crypto.randomUUID(),
+      name: base.name ? `${base.name} Copy` : 'New Tone',
+      builtIn: false,
+      examples: base.examples.length ? base.examples : Array(MIN_EXAMPLES).fill(''),
+    };
+    setDrafts(ds => [...ds, copy]);
+    setSelectedId(copy.id);
+  };
+
+  const deleteSelected = () => {
+    const remaining = drafts.filter(d => d.id !== selected.id);
+    setDrafts(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportTones(drafts)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'barq-tones.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importTones(await file.text());
+      // Imported tones replace local ones with the same id
+      setDrafts(ds => [...ds.filter(d => !imported.some(i => i.id === d.id)), ...imported]);
+      setSelectedId(imported[0].id);
+    } catch (e) {
+      onError(e instanceof Error ? `Import failed: ${e.message}` : "Import failed");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 animate-in fade-in duration-300">
+      <div className="max-w-4xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+          <h2 className="text-xl font-black italic tracking-tighter text-yellow-500 uppercase">Tones_</h2>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+        </div>
+        <div className="flex-grow grid md:grid-cols-[200px_1fr] overflow-hidden">
+          <div className="p-4 border-r border-white/5 space-y-2 overflow-y-auto">
+            {drafts.map(t => (
+              <button key={t.id} onClick={() => setSelectedId(t.id)} className={`w-full text-left px-3 py-2 rounded-lg text-xs font-bold truncate ${t.id === selected.id ? 'bg-yellow-600 text-black' : invalid.includes(t) ? 'text-red-400 hover:bg-white/5' : 'text-gray-400 hover:bg-white/5'}`}>
+                {t.name || "(unnamed)"}{t.builtIn && <span className="opacity-50"> • built-in</span>}
+              </button>
+            ))}
+            <div className="pt-4 space-y-2 border-t border-white/5">
+              <button onClick={() => addTone({ id: '', name: '', description: '', dos: [], donts: [], examples: [], builtIn: false })} className="block text-[10px] font-black text-yellow-500 uppercase">New_</button>
+              <button onClick={() => addTone(selected)} className="block text-[10px] font-black text-yellow-500 uppercase">Duplicate_</button>
+              <button onClick={deleteSelected} disabled={selected.builtIn} className="block text-[10px] font-black text-red-500 uppercase disabled:opacity-30">Delete_</button>
+              <button onClick={handleExport} className="block text-[10px] font-black text-gray-400 hover:text-white uppercase">Export JSON_</button>
+              <label className="block text-[10px] font-black text-gray-400 hover:text-white uppercase cursor-pointer">
+                Import JSON_
+                <input type="file" accept="application/json,.json" className="hidden" onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }} />
+              </label>
+            </div>
+          </div>
+          <div className="p-6 overflow-y-auto space-y-4">
+            {selected.builtIn ? (
+              <div className="space-y-4">
+                <h3 className="text-lg font-black uppercase italic">{selected.name}</h3>
+                <p className="text-sm text-gray-400">{selected.description}</p>
+                <p className="text-[10px] text-gray-600 uppercase tracking-widest">Built-in tones are read-only — duplicate one to add rules and example posts.</p>
+              </div>
+            ) : (
+              <>
+                {validateTone(selected).map(p => <p key={p} className="text-[10px] text-red-400 uppercase tracking-widest">{p}</p>)}
+                <React.Fragment key={selected.id}>
+                  <ToneForm tone={selected} onChange={updateSelected} />
+                </React.Fragment>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0">
+          <button
+            onClick={() => { onSave(drafts.map(d => d.builtIn ? d : { ...d, examples: d.examples.filter(e => e.trim()) })); onClose(); }}
+            disabled={invalid.length > 0}
+            className="w-full py-4 bg-yellow-600 text-black font-black rounded-xl transition-all disabled:opacity-50 uppercase tracking-widest text-xs"
+          >
+            SAVE TONES_
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
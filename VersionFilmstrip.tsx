@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ImageVersion, lineage } from './versionService';
+
+const VersionDetails = ({ version, label }: { version: ImageVersion; label: string }) => (
+  <div className="space-y-3 min-w-0">
+    <div className="aspect-[4/5] bg-black border border-white/5 rounded-2xl overflow-hidden">
+      <img src={version.image} className="w-full h-full object-contain" alt={label} />
+    </div>
+    <div className="space-y-1 text-[11px] text-gray-400">
+      <p className="font-black text-white uppercase tracking-widest text-[10px]">{label} • {version.kind} • {new Date(version.createdAt).toLocaleString()}</p>
+      <p><span className="text-gray-600 uppercase font-bold">Prompt:</span> {version.prompt}</p>
+      {version.editInstructions && <p><span className="text-gray-600 uppercase font-bold">Edit:</span> {version.editInstructions}</p>}
+      <p><span className="text-gray-600 uppercase font-bold">Style Ref:</span> {version.styleRef ? "Yes" : "None"}</p>
+      {version.templates && (
+        <p><span className="text-gray-600 uppercase font-bold">Templates:</span> {Object.values(version.templates).map(t => `${t!.name} v${t!.version}`).join(', ')}</p>
+      )}
+      {version.caption && <p className="line-clamp-3 whitespace-pre-wrap"><span className="text-gray-600 uppercase font-bold">Caption:</span> {version.caption}</p>}
+    </div>
+  </div>
+);
+
+const VersionCompare = ({
+  pair,
+  labelOf,
+  onRevert,
+  onClose
+}: {
+  pair: [ImageVersion, ImageVersion];
+  labelOf: (v: ImageVersion) => string;
+  onRevert: (v: ImageVersion) => void;
+  onClose: () => void;
+}) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 p-4 md:p-12 overflow-y-auto animate-in fade-in duration-300">
+    <div className="max-w-5xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
+      <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
+        <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Compare Versions_</h2>
+        <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close</button>
+      </div>
+      <div className="flex-grow p-6 overflow-y-auto grid md:grid-cols-2 gap-6">
+        {pair.map(v => (
+          <div key={v.id} className="space-y-4">
+            <VersionDetails version={v} label={labelOf(v)} />
+            <button onClick={() => { onRevert(v); onClose(); }} className="w-full py-3 bg-[#111] border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest text-orange-500 hover:bg-orange-500/5 transition-all">Revert To {labelOf(v)}_</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export const VersionFilmstrip = ({
+  versions,
+  currentId,
+  onRevert,
+  onBranch
+}: {
+  versions: ImageVersion[];
+  currentId: string | null;
+  onRevert: (v: ImageVersion) => void;
+  onBranch: (v: ImageVersion) => void;
+}) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  if (versions.length === 0) return null;
+
+  const labelOf = (v: ImageVersion) => `v${versions.indexOf(v) + 1}`;
+  const activePath = new Set(currentId ? lineage(versions, currentId).map(v => v.id) : []);
+  const comparePair = compareIds.map(id => versions.find(v => v.id === id)).filter(Boolean) as ImageVersion[];
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-2));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Version History ({versions.length})</label>
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={comparePair.length !== 2}
+          className="text-[10px] font-black text-orange-500 hover:text-orange-400 uppercase disabled:opacity-30"
+        >
+          Compare {comparePair.length}/2_
+        </button>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {versions.map(v => {
+          const parent = v.parentId ? versions.find(p => p.id === v.parentId) : undefined;
+          const isCurrent = v.id === currentId;
+          return (
+            <div key={v.id} className={`shrink-0 w-24 space-y-1 transition-opacity ${activePath.has(v.id) ? 'opacity-100' : 'opacity-50 hover:opacity-100'}`}>
+              <button
+                onClick={() => onRevert(v)}
+                title={v.editInstructions || v.prompt}
+                className={`relative block w-24 aspect-[4/5] rounded-xl overflow-hidden border-2 ${isCurrent ? 'border-orange-500' : 'border-white/10 hover:border-white/30'}`}
+              >
+                <img src={v.image} className="w-full h-full object-cover" alt={labelOf(v)} />
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/80 text-[9px] font-black uppercase">{labelOf(v)}</span>
+              </button>
+              <div className="flex justify-between items-center text-[9px] font-bold uppercase text-gray-500">
+                <span>{v.kind === 'edit' && parent ? `edit of ${labelOf(parent)}` : v.kind}</span>
+                <input type="checkbox" checked={compareIds.includes(v.id)} onChange={() => toggleCompare(v.id)} title="Select for comparison" className="accent-orange-500" />
+              </div>
+              {!isCurrent && (
+                <button onClick={() => onBranch(v)} className="text-[9px] font-black text-orange-500 hover:text-orange-400 uppercase tracking-widest">Branch Edit_</button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {isComparing && comparePair.length === 2 && (
+        <VersionCompare pair={[comparePair[0], comparePair[1]]} labelOf={labelOf} onRevert={onRevert} onClose={() => setIsComparing(false)} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import { dbGetAll, dbPut, dbDelete } from './db';
+import { PostType } from './geminiService';
+import { PlatformId } from './platforms';
+import { BUILTIN_TONES } from './toneService';
+import { thumbnail } from './imageUtils';
+import { parseCsv, readXlsx } from './spreadsheet';
+
+const STORE = 'published';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far an export's date may drift from our own publish time (exports are day-granular and zone-less)
+const MATCH_WINDOW_MS = 2 * DAY_MS;
+
+/** What a post was made with, carried from the editor (or the queue) into the history. */
+export interface PostOrigin {
+  toneId: string | null;
+  toneName: string;
+  styleRef: string | null;
+}
+
+export interface PostMetrics {
+  impressions: number;
+  reactions: number;
+  comments: number;
+  reposts: number;
+  clicks: number;
+  /** Reactions + comments + reposts (+ clicks), or the export's own total when it has one. */
+  engagements: number;
+  importedAt: string;
+}
+
+/** Records from before the posting webhook reported back have no status and count as published. */
+export type PublishedStatus = 'published' | 'pending' | 'failed' | 'deleted';
+
+/** What a failed send needs to go out again; the history itself keeps thumbnails only. */
+export interface RetryPayload {
+  image: string | null;
+  document?: { pdf: string; title: string };
+  altText?: string;
+}
+
+export interface PublishedPost {
+  id: string;
+  /** When it went out; for failed sends, when the last attempt was made. */
+  publishedAt: string;
+  platform: PlatformId;
+  type: PostType;
+  caption: string;
+  toneId: string | null;
+  toneName: string;
+  /** Thumbnails only; the full-size assets stay in the version history. */
+  image: string | null;
+  styleRef: string | null;
+  brandId: string;
+  authorId?: string;
+  /** Public URL of the post, from the posting webhook or an analytics import; later imports match on it. */
+  postUrl?: string;
+  metrics?: PostMetrics;
+  status?: PublishedStatus;
+  /** Platform id reported by the posting webhook, needed to delete or edit the post. */
+  postId?: string;
+  /** Sent with every attempt of this post so the workflow never publishes it twice. */
+  idempotencyKey?: string;
+  attempts?: number;
+  lastError?: string;
+  /** Only on failed sends; dropped once the post goes out. */
+  retry?: RetryPayload;
+  editedAt?: string;
+  deletedAt?: string;
+}
+
+/** The send's result, merged into the history record. */
+export type PublishOutcome = Pick<PublishedPost, 'status' | 'postId' | 'postUrl' | 'idempotencyKey' | 'attempts' | 'lastError' | 'retry'>;
+
+/** One post's row from a LinkedIn analytics export. */
+export interface AnalyticsRow {
+  url?: string;
+  date?: string;
+  text?: string;
+  impressions: number;
+  reactions: number;
+  comments: number;
+  reposts: number;
+  clicks: number;
+  engagements: number;
+}
+
+export async function recordPublished(
+  post: { platform: PlatformId; type: PostType; caption: string; image: string | null; brandId: string; authorId?: string },
+  origin?: PostOrigin,
+  outcome: PublishOutcome = {}
+): Promise<PublishedPost> {
+  const shrink = (src: string | null) => src ? thumbnail(src).catch(() => null) : Promise.resolve(null);
+  const [image, styleRef] = await Promise.all([shrink(post.image), shrink(origin?.styleRef || null)]);
+  // Callers pass whole post payloads; only the fields the history needs are kept
+  const record: PublishedPost = {
+    id: crypto.randomUUID(),
+    platform: post.platform,
+    type: post.type,
+    caption: post.caption,
+    brandId: post.brandId,
+    ...(post.authorId && { authorId: post.authorId }),
+    publishedAt: new Date().toISOString(),
+    toneId: origin?.toneId || null,
+    toneName: origin?.toneName || 'Unknown',
+    image,
+    styleRef,
+    ...outcome,
+  };
+  await dbPut(STORE, record);
+  return record;
+}
+
+export async function loadPublished(): Promise<PublishedPost[]> {
+  const all = await dbGetAll<PublishedPost>(STORE);
+  return all.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
+}
+
+/** Failed sends are kept for retrying but never counted in the analytics. */
+export function isLive(post: PublishedPost): boolean {
+  return post.status !== 'failed';
+}
+
+export async function savePublished(posts: PublishedPost[]): Promise<void> {
+  for (const post of posts) await dbPut(STORE, post);
+}
+
+export function deletePublished(id: string): Promise<void> {
+  return dbDelete(STORE, id);
+}
+
+type Column = keyof AnalyticsRow;
+
+// Header names vary between page, creator and older exports; first match wins
+const COLUMN_PATTERNS: [Column, RegExp][] = [
+  ['url', /\b(url|link)\b/],
+  ['date', /\bdate\b|published|created/],
+  ['text', /title|text|content|commentary/],
+  ['impressions', /impressions|views/],
+  ['reactions', /reactions|likes/],
+  ['comments', /comments/],
+  ['reposts', /reposts|shares/],
+  ['clicks', /clicks/],
+  ['engagements', /^engagements?$|total engagement/],
+];
+
+const toNumber = (value: string) => {
+  const n = parseFloat(value.replace(/[,\s%]/g, ''));
+  return Number.isFinite(n) ? n : 0;
+};
+
+// Excel stores dates as day serials since 1899-12-30
+function toIsoDate(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const serial = Number(trimmed);
+  const date = Number.isFinite(serial) && serial > 20000 && serial < 80000
+    ? new Date(Date.UTC(1899, 11, 30) + serial * DAY_MS)
+    : new Date(trimmed);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function columnsOf(header: string[], from: number, to: number): Partial<Record<Column, number>> {
+  const columns: Partial<Record<Column, number>> = {};
+  for (let i = from; i < to; i++) {
+    const name = header[i].trim().toLowerCase();
+    const match = COLUMN_PATTERNS.find(([column, pattern]) => columns[column] === undefined && pattern.test(name));
+    if (match) columns[match[0]] = i;
+  }
+  return columns;
+}
+
+/**
+ * Finds the metrics table in a sheet. Exports often start with a description row, and
+ * creator exports put several tables side by side (each starting with a URL column),
+ * which are merged back into one row per post.
+ */
+function rowsFromTable(table: string[][]): AnalyticsRow[] {
+  const headerAt = table.findIndex(r => r.some(cell => /impressions|engagements/i.test(cell)));
+  if (headerAt < 0) return [];
+  const header = table[headerAt];
+  const starts = header.map((cell, i) => /\b(url|link)\b/i.test(cell) ? i : -1).filter(i => i >= 0);
+  const segments = starts.length > 1 ? starts.map((s, i) => [s, starts[i + 1] ?? header.length]) : [[0, header.length]];
+
+  const merged = new Map<string, AnalyticsRow>();
+  for (const [from, to] of segments) {
+    const columns = columnsOf(header, from, to);
+    table.slice(headerAt + 1).forEach((cells, index) => {
+      const get = (column: Column) => columns[column] === undefined ? '' : (cells[columns[column]!] || '').trim();
+      if (columns.url !== undefined && !get('url')) return;
+      const key = get('url') || String(index);
+      const row = merged.get(key) || { impressions: 0, reactions: 0, comments: 0, reposts: 0, clicks: 0, engagements: 0 };
+      if (get('url')) row.url = get('url');
+      if (get('text')) row.text = get('text');
+      row.date = row.date || toIsoDate(get('date'));
+      for (const metric of ['impressions', 'reactions', 'comments', 'reposts', 'clicks', 'engagements'] as const) {
+        if (columns[metric] !== undefined) row[metric] = toNumber(get(metric));
+      }
+      merged.set(key, row);
+    });
+  }
+  return [...merged.values()]
+    .map(r => ({ ...r, engagements: r.engagements || r.reactions + r.comments + r.reposts + r.clicks }))
+    .filter(r => r.impressions || r.engagements);
+}
+
+/**
+ * Parses a LinkedIn analytics export (.csv or .xlsx) into one row per post.
+ */
+export async function parseAnalytics(fileName: string, data: ArrayBuffer): Promise<AnalyticsRow[]> {
+  const tables = fileName.toLowerCase().endsWith('.xlsx')
+    ? (await readXlsx(data)).map(sheet => sheet.rows)
+    : [parseCsv(new TextDecoder().decode(data))];
+  const rows = tables.flatMap(rowsFromTable);
+  if (!rows.length) throw new Error("No post metrics found. Export the Content (posts) analytics from LinkedIn.");
+  return rows;
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const nearDate = (post: PublishedPost, row: AnalyticsRow) =>
+  !row.date || Math.abs(new Date(post.publishedAt).getTime() - new Date(row.date).getTime()) <= MATCH_WINDOW_MS;
+
+/**
+ * Attaches imported metrics to our LinkedIn history: by post URL when known, then by
+ * caption text near the publish date, then by date alone when only one post is a candidate.
+ */
+export function matchAnalytics(posts: PublishedPost[], rows: AnalyticsRow[]): { updated: PublishedPost[]; unmatched: AnalyticsRow[] } {
+  const pool = posts.filter(p => p.platform === 'linkedin');
+  const taken = new Set<string>();
+  const updated: PublishedPost[] = [];
+  const unmatched: AnalyticsRow[] = [];
+  const importedAt = new Date().toISOString();
+
+  for (const row of rows) {
+    const open = pool.filter(p => !taken.has(p.id));
+    const snippet = row.text ? normalizeText(row.text).slice(0, 60) : '';
+    const sameDay = open.filter(p => row.date && nearDate(p, row));
+    const post = (row.url && open.find(p => p.postUrl === row.url))
+      || (snippet && open.find(p => nearDate(p, row) && normalizeText(p.caption).includes(snippet)))
+      || (!snippet && sameDay.length === 1 ? sameDay[0] : undefined);
+    if (!post) { unmatched.push(row); continue; }
+    taken.add(post.id);
+    const { url, date, text, ...metrics } = row;
+    updated.push({ ...post, postUrl: post.postUrl || url, metrics: { ...metrics, importedAt } });
+  }
+  return { updated, unmatched };
+}
+
+export type Dimension = 'tone' | 'style' | 'weekday' | 'hour' | 'length';
+
+export const DIMENSIONS: { id: Dimension; label: string }[] = [
+  { id: 'tone', label: 'Tone' },
+  { id: 'style', label: 'Style Ref' },
+  { id: 'weekday', label: 'Weekday' },
+  { id: 'hour', label: 'Time Of Day' },
+  { id: 'length', label: 'Caption Length' },
+];
+
+export interface Bucket {
+  key: string;
+  label: string;
+  /** Style reference thumbnail, for the style breakdown. */
+  thumb?: string | null;
+  /** Posts in the bucket, and how many of them have imported metrics. */
+  posts: number;
+  measured: number;
+  avgImpressions: number;
+  avgReactions: number;
+  /** Engagements per impression across the measured posts. */
+  engagementRate: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOUR_BLOCK = 3;
+// Roughly: fits above LinkedIn's "see more" fold, a few paragraphs, long-form
+const LENGTH_BANDS: [number, string][] = [[210, 'Under 210 chars'], [700, '210–699 chars'], [1300, '700–1299 chars'], [Infinity, '1300+ chars']];
+
+function bucketOf(post: PublishedPost, dimension: Dimension): { key: string; label: string; order: number; thumb?: string | null } {
+  const at = new Date(post.publishedAt);
+  switch (dimension) {
+    case 'tone': {
+      const builtin = BUILTIN_TONES.findIndex(t => t.id === post.toneId);
+      return { key: post.toneId || post.toneName, label: post.toneName, order: builtin < 0 ? BUILTIN_TONES.length : builtin };
+    }
+    case 'style':
+      return post.styleRef ? { key: post.styleRef, label: 'Style ref', order: 1, thumb: post.styleRef } : { key: 'none', label: 'No style ref', order: 0 };
+    case 'weekday':
+      // Monday first
+      return { key: WEEKDAYS[at.getDay()], label: WEEKDAYS[at.getDay()], order: (at.getDay() + 6) % 7 };
+    case 'hour': {
+      const start = Math.floor(at.getHours() / HOUR_BLOCK) * HOUR_BLOCK;
+      const label = `${String(start).padStart(2, '0')}:00–${String(start + HOUR_BLOCK).padStart(2, '0')}:00`;
+      return { key: label, label, order: start };
+    }
+    case 'length': {
+      const band = LENGTH_BANDS.findIndex(([max]) => post.caption.length < max);
+      return { key: String(band), label: LENGTH_BANDS[band][1], order: band };
+    }
+  }
+}
+
+/**
+ * Average performance of the history grouped along one dimension, in the dimension's natural order.
+ */
+export function breakdown(posts: PublishedPost[], dimension: Dimension): Bucket[] {
+  const groups = new Map<string, { bucket: ReturnType<typeof bucketOf>; posts: PublishedPost[] }>();
+  for (const post of posts) {
+    const bucket = bucketOf(post, dimension);
+    const group = groups.get(bucket.key) || { bucket, posts: [] };
+    group.posts.push(post);
+    groups.set(bucket.key, group);
+  }
+  let styleCount = 0;
+  return [...groups.values()]
+    .sort((a, b) => a.bucket.order - b.bucket.order || a.bucket.label.localeCompare(b.bucket.label))
+    .map(({ bucket, posts: group }) => {
+      const measured = group.map(p => p.metrics).filter((m): m is PostMetrics => !!m);
+      const sum = (pick: (m: PostMetrics) => number) => measured.reduce((total, m) => total + pick(m), 0);
+      const impressions = sum(m => m.impressions);
+      return {
+        key: bucket.key,
+        label: bucket.thumb ? `Style ref ${++styleCount}` : bucket.label,
+        thumb: bucket.thumb,
+        posts: group.length,
+        measured: measured.length,
+        avgImpressions: measured.length ? impressions / measured.length : 0,
+        avgReactions: measured.length ? sum(m => m.reactions) / measured.length : 0,
+        engagementRate: impressions ? sum(m => m.engagements) / impressions : 0,
+      };
+    });
+}
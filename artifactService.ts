@@ -0,0 +1,257 @@
+export type ArtifactKind = 'git_log' | 'patch' | 'markdown' | 'changelog' | 'notes';
+
+export const ARTIFACT_KINDS: { id: ArtifactKind; label: string }[] = [
+  { id: 'git_log', label: 'Git Log' },
+  { id: 'patch', label: 'Patch' },
+  { id: 'markdown', label: 'PR / Issue' },
+  { id: 'changelog', label: 'Changelog' },
+  { id: 'notes', label: 'Notes' },
+];
+
+export type FactKind = 'shipped' | 'metric' | 'contributor' | 'date';
+
+export const FACT_KINDS: { id: FactKind; label: string }[] = [
+  { id: 'shipped', label: 'What Shipped' },
+  { id: 'metric', label: 'Metrics' },
+  { id: 'contributor', label: 'Contributors' },
+  { id: 'date', label: 'Dates' },
+];
+
+export interface ArtifactFact {
+  id: string;
+  kind: FactKind;
+  text: string;
+  /** Where in the artifact it came from, e.g. a short commit hash or changelog version. */
+  context?: string;
+  /** Whether the fact starts ticked; older changelog sections start unticked. */
+  selected: boolean;
+}
+
+export interface Artifact {
+  id: string;
+  name: string;
+  kind: ArtifactKind;
+  text: string;
+  facts: ArtifactFact[];
+}
+
+/** Numbers with a unit or a before/after: "40%", "3x faster", "120ms", "from 9 to 2 minutes". */
+const METRIC_PATTERN = /\b\d[\d,.]*\s?(%|x\b|×|ms\b|s\b|secs?\b|seconds?\b|min(ute)?s?\b|hours?\b|days?\b|[kmgt]b\b|k\b|rps\b|qps\b|req\/s|users?\b|customers?\b|requests?\b|tests?\b|lines?\b|files?\b)|\bfrom\s+\S*\d\S*\s+to\s+\S*\d/i;
+const ONELINE_PATTERN = /^([0-9a-f]{7,40})\s+(?:\([^)]*\)\s+)?(.+)$/;
+const VERSION_HEADING = /^#{1,3}\s*\[?v?(\d+\.\d+[^\]\s]*)\]?(?:\s*[-–(]\s*([^)]+)\)?)?/;
+const SKIPPED_SECTIONS = /test|checklist|screenshot|how to review|reviewers?/i;
+
+const fact = (kind: FactKind, text: string, context?: string, selected = true): ArtifactFact => ({
+  id: crypto.randomUUID(),
+  kind,
+  text: text.trim(),
+  context,
+  selected,
+});
+
+/** Lines carrying a number with a unit become metrics, everything else what shipped. */
+const classify = (text: string, context?: string, selected = true) =>
+  fact(METRIC_PATTERN.test(text) ? 'metric' : 'shipped', text, context, selected);
+
+function isoDate(raw: string): string | null {
+  const date = new Date(raw.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+/** Earliest and latest of the dates found, as one fact. */
+function dateRange(dates: (string | null)[]): ArtifactFact[] {
+  const sorted = dates.filter((d): d is string => !!d).sort();
+  if (!sorted.length) return [];
+  const [first, last] = [sorted[0], sorted[sorted.length - 1]];
+  return [fact('date', first === last ? first : `${first} to ${last}`)];
+}
+
+const authorName = (raw: string) => raw.replace(/<[^>]*>/, '').trim();
+
+function contributors(names: string[]): ArtifactFact[] {
+  return [...new Set(names.map(n => n.trim()).filter(Boolean))].map(n => fact('contributor', n));
+}
+
+const isNoise = (subject: string) => /^(merge (branch|pull request|remote)|revert ")/i.test(subject);
+
+function parseGitLog(text: string): ArtifactFact[] {
+  const facts: ArtifactFact[] = [];
+  const authors: string[] = [];
+  const dates: (string | null)[] = [];
+
+  if (/^commit [0-9a-f]{7,40}/m.test(text)) {
+    text.split(/^(?=commit [0-9a-f]{7,40})/m).filter(c => c.startsWith('commit ')).forEach(chunk => {
+      const sha = chunk.slice(7, 14);
+      const author = chunk.match(/^Author:\s*(.+)$/m);
+      const date = chunk.match(/^Date:\s*(.+)$/m);
+      if (author) authors.push(authorName(author[1]));
+      if (date) dates.push(isoDate(date[1]));
+      // The message is the indented block after the headers
+      const message = chunk.split('\n').filter(l => /^ {4}/.test(l)).map(l => l.trim());
+      const [subject, ...body] = message;
+      if (!subject || isNoise(subject)) return;
+      facts.push(classify(subject, sha));
+      body.forEach(line => {
+        const coAuthor = line.match(/^co-authored-by:\s*(.+)$/i);
+        if (coAuthor) authors.push(authorName(coAuthor[1]));
+        else if (METRIC_PATTERN.test(line)) facts.push(fact('metric', line.replace(/^[-*]\s*/, ''), sha));
+      });
+    });
+  } else {
+    text.split('\n').forEach(line => {
+      const match = line.trim().match(ONELINE_PATTERN);
+      if (match && !isNoise(match[2])) facts.push(classify(match[2], match[1].slice(0, 7)));
+    });
+  }
+  return [...facts, ...contributors(authors), ...dateRange(dates)];
+}
+
+const diffStat = (files: number, added: number, removed: number) =>
+  `${files} file${files === 1 ? '' : 's'} changed, +${added} / -${removed} lines`;
+
+function parsePatch(text: string): ArtifactFact[] {
+  const facts: ArtifactFact[] = [];
+  const authors: string[] = [];
+  const dates: (string | null)[] = [];
+
+  const headers = text.split(/^(?=From [0-9a-f]{40} )/m).filter(p => /^From [0-9a-f]{40} /.test(p));
+  headers.forEach(part => {
+    const sha = part.slice(5, 12);
+    const from = part.match(/^From:\s*(.+)$/m);
+    const date = part.match(/^Date:\s*(.+)$/m);
+    const subject = part.match(/^Subject:\s*(?:\[[^\]]*\]\s*)?(.+(?:\n [^\n]+)*)$/m);
+    if (from) authors.push(authorName(from[1]));
+    if (date) dates.push(isoDate(date[1]));
+    if (subject) facts.push(classify(subject[1].replace(/\n /g, ' '), sha));
+    // Commit body sits between the blank line after the headers and the "---" separator
+    const body = part.split(/\n\n/).slice(1).join('\n\n').split(/^---$/m)[0];
+    body.split('\n').map(l => l.trim()).forEach(line => {
+      const coAuthor = line.match(/^co-authored-by:\s*(.+)$/i);
+      if (coAuthor) authors.push(authorName(coAuthor[1]));
+      else if (line && METRIC_PATTERN.test(line)) facts.push(fact('metric', line.replace(/^[-*]\s*/, ''), sha));
+    });
+  });
+
+  const stats = [...text.matchAll(/(\d+) files? changed(?:, (\d+) insertions?\(\+\))?(?:, (\d+) deletions?\(-\))?/g)];
+  if (stats.length) {
+    const sum = (i: number) => stats.reduce((n, s) => n + Number(s[i] || 0), 0);
+    facts.push(fact('metric', diffStat(sum(1), sum(2), sum(3))));
+  } else {
+    const files = new Set([...text.matchAll(/^diff --git a\/(\S+)/gm)].map(m => m[1]));
+    const added = (text.match(/^\+(?!\+\+)/gm) || []).length;
+    const removed = (text.match(/^-(?!--)/gm) || []).length;
+    if (files.size) facts.push(fact('metric', diffStat(files.size, added, removed)));
+  }
+  return [...facts, ...contributors(authors), ...dateRange(dates)];
+}
+
+const bulletText = (line: string) => {
+  const match = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.+)$/);
+  if (!match || match[1] === ' ') return null;
+  return match[2].replace(/\*\*|__|`/g, '').trim();
+};
+
+function parseMarkdown(text: string): ArtifactFact[] {
+  const facts: ArtifactFact[] = [];
+  const lines = text.split('\n');
+  const title = lines.find(l => l.trim())?.replace(/^#+\s*/, '').trim();
+  if (title) facts.push(classify(title, 'title'));
+
+  let skipping = false;
+  lines.slice(1).forEach(line => {
+    const heading = line.match(/^#{1,6}\s+(.+)$/);
+    if (heading) { skipping = SKIPPED_SECTIONS.test(heading[1]); return; }
+    if (skipping) return;
+    const bullet = bulletText(line);
+    if (bullet) facts.push(classify(bullet));
+    else if (line.trim() && METRIC_PATTERN.test(line)) facts.push(fact('metric', line.trim()));
+  });
+
+  const mentions = [...text.matchAll(/(?:^|\s)@([A-Za-z0-9][\w-]*)/g)].map(m => `@${m[1]}`);
+  const coAuthors = [...text.matchAll(/^co-authored-by:\s*(.+)$/gim)].map(m => authorName(m[1]));
+  const dates = [...text.matchAll(/\b(\d{4}-\d{2}-\d{2})\b/g)].map(m => isoDate(m[1]));
+  return [...facts, ...contributors([...mentions, ...coAuthors]), ...dateRange(dates)];
+}
+
+function parseChangelog(text: string): ArtifactFact[] {
+  const facts: ArtifactFact[] = [];
+  let version: string | undefined;
+  let sectionIndex = -1;
+  let category = '';
+
+  text.split('\n').forEach(line => {
+    const heading = line.match(VERSION_HEADING);
+    if (heading && !/unreleased/i.test(line)) {
+      version = `v${heading[1]}`;
+      sectionIndex++;
+      category = '';
+      const date = heading[2] && isoDate(heading[2]);
+      if (date) facts.push(fact('date', `${version} released ${date}`, version, sectionIndex === 0));
+      return;
+    }
+    const sub = line.match(/^#{3,4}\s+(.+)$/);
+    if (sub) { category = sub[1].trim(); return; }
+    const bullet = bulletText(line);
+    // Only the newest release starts ticked; older ones are there to pick from
+    if (bullet && version) facts.push(classify(category ? `${category}: ${bullet}` : bullet, version, sectionIndex === 0));
+  });
+  return facts;
+}
+
+function parseNotes(text: string): ArtifactFact[] {
+  return text.split(/\n+/)
+    .flatMap(line => bulletText(line) ? [bulletText(line)!] : line.split(/(?<=[.!?])\s+/))
+    .map(s => s.trim())
+    .filter(s => s.length > 3)
+    .map(s => classify(s));
+}
+
+/**
+ * Guesses what a pasted or uploaded artifact is from its file name and content.
+ */
+export function detectArtifactKind(name: string, text: string): ArtifactKind {
+  if (/\.(patch|diff)$/i.test(name) || /^From [0-9a-f]{40} /m.test(text) || /^diff --git /m.test(text)) return 'patch';
+  if (/^commit [0-9a-f]{7,40}/m.test(text)) return 'git_log';
+  const lines = text.split('\n').filter(l => l.trim());
+  if (lines.length && lines.filter(l => ONELINE_PATTERN.test(l.trim())).length / lines.length > 0.6) return 'git_log';
+  if (/changelog|history|releases/i.test(name) || text.split('\n').filter(l => VERSION_HEADING.test(l)).length >= 1) return 'changelog';
+  if (/\.(md|markdown)$/i.test(name) || /^#{1,6}\s/m.test(text) || /^\s*[-*]\s+\[[ xX]\]/m.test(text)) return 'markdown';
+  return 'notes';
+}
+
+const PARSERS: Record<ArtifactKind, (text: string) => ArtifactFact[]> = {
+  git_log: parseGitLog,
+  patch: parsePatch,
+  markdown: parseMarkdown,
+  changelog: parseChangelog,
+  notes: parseNotes,
+};
+
+/**
+ * Parses an artifact into facts, de-duplicated per kind. `kind` overrides detection.
+ */
+export function parseArtifact(name: string, text: string, kind = detectArtifactKind(name, text)): Artifact {
+  const seen = new Set<string>();
+  const facts = PARSERS[kind](text).filter(f => {
+    const key = `${f.kind}:${f.text.toLowerCase()}`;
+    if (!f.text || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { id: crypto.randomUUID(), name, kind, text, facts };
+}
+
+/**
+ * The ticked facts as the structured brief that replaces free text in the polish and caption prompts.
+ */
+export function summarizeFacts(facts: ArtifactFact[]): string {
+  const of = (kind: FactKind) => facts.filter(f => f.kind === kind);
+  // Release versions help the story; commit hashes don't
+  const list = (kind: FactKind) => of(kind).map(f => `- ${f.text}${f.context?.startsWith('v') ? ` (${f.context})` : ''}`).join('\n');
+  return [
+    of('shipped').length ? `What shipped:\n${list('shipped')}` : '',
+    of('metric').length ? `Metrics:\n${list('metric')}` : '',
+    of('contributor').length ? `Contributors: ${of('contributor').map(f => f.text).join(', ')}` : '',
+    of('date').length ? `When: ${of('date').map(f => f.text).join('; ')}` : '',
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,115 @@
+import { normalizeHashtag } from './brandService';
+
+export type AuthorKind = 'person' | 'page';
+
+/**
+ * Who a post is published as: an engineer's own account or the company page.
+ */
+export interface AuthorProfile {
+  id: string;
+  name: string;
+  headline: string;
+  /** URL or data URL; falls back to the name's initial. */
+  avatar: string | null;
+  kind: AuthorKind;
+  /** LinkedIn member URN / vanity name or page id the posting workflow publishes as. */
+  account: string;
+  /** Tone picked automatically when switching to this author. */
+  defaultToneId: string | null;
+  /** Added to the brand's mandatory hashtags in the caption prompt. */
+  hashtags: string[];
+}
+
+const AUTHORS_KEY = 'barq_authors';
+const ACTIVE_KEY = 'barq_author';
+
+export const DEFAULT_AUTHOR: AuthorProfile = {
+  id: 'barq-digital-engineer',
+  name: 'Barq Digital Engineer',
+  headline: 'Building the future of social assets',
+  avatar: null,
+  kind: 'person',
+  account: '',
+  defaultToneId: null,
+  hashtags: [],
+};
+
+/**
+ * Fills gaps in a (possibly hand-edited or imported) author from the defaults.
+ */
+export function normalizeAuthor(raw: Partial<AuthorProfile>): AuthorProfile {
+  if (!raw || typeof raw !== 'object') throw new Error("Author must be an object.");
+  if (!raw.name || typeof raw.name !== 'string') throw new Error("Author is missing a name.");
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name: raw.name.trim(),
+    headline: String(raw.headline || '').trim(),
+    avatar: raw.avatar || null,
+    kind: raw.kind === 'page' ? 'page' : 'person',
+    account: String(raw.account || '').trim(),
+    defaultToneId: raw.defaultToneId || null,
+    hashtags: Array.isArray(raw.hashtags) ? raw.hashtags.map(normalizeHashtag).filter(Boolean) : [],
+  };
+}
+
+export function loadAuthors(): AuthorProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(AUTHORS_KEY) || '[]');
+    const authors = Array.isArray(stored) ? stored.map(normalizeAuthor) : [];
+    return authors.length ? authors : [DEFAULT_AUTHOR];
+  } catch (e) {
+    console.error("Stored authors are unreadable:", e);
+    return [DEFAULT_AUTHOR];
+  }
+}
+
+export function saveAuthors(authors: AuthorProfile[]): void {
+  localStorage.setItem(AUTHORS_KEY, JSON.stringify(authors));
+}
+
+export function loadActiveAuthorId(): string {
+  return localStorage.getItem(ACTIVE_KEY) || DEFAULT_AUTHOR.id;
+}
+
+export function saveActiveAuthorId(id: string): void {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
+
+export function findAuthor(id: string): AuthorProfile | undefined {
+  return loadAuthors().find(a => a.id === id);
+}
+
+/**
+ * Matches an author by name (as used in batch files); undefined when nobody matches.
+ */
+export function authorByName(authors: AuthorProfile[], name: string): AuthorProfile | undefined {
+  return authors.find(a => a.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/**
+ * Prompt section telling the model whose voice the post is in.
+ */
+export function authorContext(author: AuthorProfile): string {
+  const who = author.headline ? `${author.name}, ${author.headline}` : author.name;
+  return author.kind === 'page'
+    ? `Write as the official ${author.name} company page: use "we" and "our team", never "I".`
+    : `Write in the first person as ${who}: use "I" for my own work and "we" for the team's, and credit teammates by role.`;
+}
+
+/** Fields the posting webhook uses to pick the account to publish as. */
+export function publishTarget(author: AuthorProfile): { author: string; target: string; targetType: AuthorKind } {
+  return { author: author.name, target: author.account, targetType: author.kind };
+}
+
+export function exportAuthors(authors: AuthorProfile[]): string {
+  return JSON.stringify({ version: 1, authors }, null, 2);
+}
+
+/**
+ * Accepts either an export bundle ({ authors: [...] }), a bare array, or a single author.
+ */
+export function importAuthors(json: string): AuthorProfile[] {
+  const parsed = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.authors) ? parsed.authors : [parsed];
+  return list.map(normalizeAuthor);
+}
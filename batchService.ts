@@ -0,0 +1,163 @@
+import { enhanceText, generateSocialPost, generateCaptionWithTone, generateAltText } from './geminiService';
+import { BrandProfile } from './brandService';
+import { PlatformSpec } from './platforms';
+import { renderTemplate, TemplateLayout } from './templateRenderer';
+import { urlToDataUrl } from './imageUtils';
+import { ToneProfile, toneByName } from './toneService';
+import { AuthorProfile, authorByName } from './authorService';
+import { parseCsv } from './spreadsheet';
+import { failedChecks } from './imagePipeline';
+import { CaptionLanguage, languageByName } from './languageService';
+import { asStyles } from './styleService';
+
+export const DEFAULT_BATCH_TONE = 'Corporate Professional';
+export const MAX_CONCURRENCY = 4;
+
+/** One row of an imported batch file. */
+export interface BatchInput {
+  accomplishment: string;
+  tone: string;
+  styleRef?: string;
+  author?: string;
+  /** Caption language; rows without one use the app's selected language. */
+  language?: CaptionLanguage;
+}
+
+export type BatchStatus = 'queued' | 'running' | 'ready' | 'failed' | 'approved';
+
+export interface BatchRow extends BatchInput {
+  id: string;
+  status: BatchStatus;
+  headline: string;
+  image: string | null;
+  caption: string;
+  altText: string;
+  /** Failed image checks (spelling, logo, size) of the generated graphic. */
+  imageIssues: string[];
+  /** True when the image webhook failed and the graphic was composed locally. */
+  usedTemplate: boolean;
+  error?: string;
+}
+
+export interface BatchContext {
+  brand: BrandProfile;
+  logoBase64: string;
+  platform: PlatformSpec;
+  layout: TemplateLayout;
+  tones: ToneProfile[];
+  authors: AuthorProfile[];
+  /** Used for rows whose author column is empty or names nobody known. */
+  author: AuthorProfile;
+  language: CaptionLanguage;
+  prompts: { image: string; imageStyled: string; caption: string; polish: string };
+}
+
+function toInput(record: Record<string, unknown>, line: number): BatchInput {
+  const get = (key: string) => {
+    const match = Object.keys(record).find(k => k.trim().toLowerCase().replace(/[\s_-]/g, '') === key);
+    return match && record[match] != null ? String(record[match]).trim() : '';
+  };
+  const accomplishment = get('accomplishment');
+  if (!accomplishment) throw new Error(`Row ${line} has no accomplishment.`);
+  return {
+    accomplishment,
+    tone: get('tone') || DEFAULT_BATCH_TONE,
+    styleRef: get('styleref') || undefined,
+    author: get('author') || undefined,
+    language: languageByName(get('language')),
+  };
+}
+
+/**
+ * Parses a CSV (with a header row) or JSON array of accomplishments.
+ * Recognised columns: accomplishment, tone, style_ref, author, language (en, ar or bilingual).
+ */
+export function parseBatchFile(fileName: string, text: string): BatchInput[] {
+  let records: Record<string, unknown>[];
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of rows.");
+    records = parsed.map(r => typeof r === 'string' ? { accomplishment: r } : r);
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error("The file is empty.");
+    records = rows.map(cells => Object.fromEntries(header.map((h, i) => [h, cells[i] ?? ''])));
+  }
+  if (!records.length) throw new Error("No rows found.");
+  return records.map((r, i) => toInput(r, i + 1));
+}
+
+export function createRows(inputs: BatchInput[]): BatchRow[] {
+  return inputs.map(input => ({
+    ...input,
+    id: crypto.randomUUID(),
+    status: 'queued',
+    headline: '',
+    image: null,
+    caption: '',
+    altText: '',
+    imageIssues: [],
+    usedTemplate: false,
+  }));
+}
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await worker(items[next++]);
+  });
+  await Promise.all(lanes);
+}
+
+export function rowAuthor(row: BatchRow, ctx: Pick<BatchContext, 'authors' | 'author'>): AuthorProfile {
+  return (row.author && authorByName(ctx.authors, row.author)) || ctx.author;
+}
+
+/**
+ * Polishes the headline, forges (and describes) the graphic and writes the toned caption for one row.
+ * Falls back to the local Quick Template renderer when the image webhook is down.
+ */
+export async function generateBatchRow(row: BatchRow, ctx: BatchContext): Promise<Pick<BatchRow, 'headline' | 'image' | 'caption' | 'altText' | 'imageIssues' | 'usedTemplate'>> {
+  const { brand, logoBase64, platform, layout, tones, prompts } = ctx;
+  const styleRef = row.styleRef ? await urlToDataUrl(row.styleRef) : null;
+  const headline = await enhanceText(row.accomplishment, brand, prompts.polish);
+
+  const forge = async () => {
+    try {
+      const { image, checks } = await generateSocialPost(headline, logoBase64, asStyles(styleRef), brand, platform, styleRef ? prompts.imageStyled : prompts.image);
+      return { image, imageIssues: failedChecks(checks).map(c => c.message), usedTemplate: false };
+    } catch (e) {
+      console.error(`Image webhook failed for "${row.accomplishment}", using Quick Template:`, e);
+      const image = await renderTemplate({ text: headline, logoBase64, colors: brand.colors, layout, width: platform.width, height: platform.height });
+      return { image, imageIssues: [], usedTemplate: true };
+    }
+  };
+
+  const describe = async () => {
+    const visual = await forge();
+    // Alt text is editable afterwards, so a failed description doesn't fail the row
+    const altText = await generateAltText(visual.image, row.accomplishment, brand).catch(e => {
+      console.error(`Alt text failed for "${row.accomplishment}":`, e);
+      return '';
+    });
+    return { ...visual, altText };
+  };
+
+  const [visual, caption] = await Promise.all([
+    describe(),
+    generateCaptionWithTone(row.accomplishment, toneByName(tones, row.tone), brand, rowAuthor(row, ctx), row.language || ctx.language, prompts.caption),
+  ]);
+  return { headline, caption, ...visual };
+}
+
+/**
+ * Serialises approved rows for hand-off to other tools.
+ */
+export function exportBatch(rows: BatchRow[]): string {
+  return JSON.stringify(rows.map(({ accomplishment, tone, author, language, headline, caption, image, altText }) => ({
+    accomplishment, tone, author, language, headline, caption, image, altText,
+  })), null, 2);
+}
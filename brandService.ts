@@ -0,0 +1,129 @@
+export interface BrandColor {
+  name: string;
+  hex: string;
+}
+
+/**
+ * Everything that used to be hard-coded for Barq Digital: assets, palette,
+ * hashtag rules, n8n endpoints and the Gemini model used for text.
+ */
+export interface BrandProfile {
+  id: string;
+  name: string;
+  logoUrl: string;
+  /** First entry is the primary (edge) colour, second the secondary (centre) colour. */
+  colors: BrandColor[];
+  defaultStyleRef: string | null;
+  mandatoryHashtags: string[];
+  webhooks: {
+    image: string;
+    edit: string;
+    publish: string;
+    /** Optional: receives every review state change. */
+    review: string;
+    /** Optional: deletes or edits posts already published (see README, Published Posts). */
+    manage: string;
+  };
+  models: {
+    text: string;
+  };
+}
+
+const PROFILES_KEY = 'barq_brand_profiles';
+const ACTIVE_KEY = 'barq_active_brand';
+
+export const DEFAULT_BRAND_PROFILE: BrandProfile = {
+  id: 'barq-digital',
+  name: 'Barq Digital',
+  logoUrl: "https://res.cloudinary.com/djmakoiji/image/upload/v1765978253/Barq_Digital_Logo-removebg-preview_glejpc.png",
+  colors: [
+    { name: 'orange', hex: '#EA580C' },
+    { name: 'amber yellow', hex: '#F59E0B' },
+  ],
+  defaultStyleRef: null,
+  mandatoryHashtags: ['#BarqDigital'],
+  webhooks: {
+    image: "https://n8n.srv927950.hstgr.cloud/webhook/image-get",
+    edit: "https://n8n.srv927950.hstgr.cloud/webhook/4d10ba4c-3102-452a-ae61-51d3d022cf14",
+    publish: "https://n8n.srv927950.hstgr.cloud/webhook/image-linkedin",
+    review: "",
+    manage: "",
+  },
+  models: {
+    text: 'gemini-3-flash-preview',
+  },
+};
+
+const NO_WEBHOOKS: BrandProfile['webhooks'] = { image: "", edit: "", publish: "", review: "", manage: "" };
+
+/** A blank brand: Barq's palette and model as a starting point, but no logo or webhooks of its own yet. */
+export function newProfile(name: string): BrandProfile {
+  return { ...DEFAULT_BRAND_PROFILE, id: crypto.randomUUID(), name, logoUrl: "", mandatoryHashtags: [], webhooks: { ...NO_WEBHOOKS } };
+}
+
+/**
+ * Fills gaps in a (possibly hand-edited or imported) profile from the defaults. Only the
+ * Barq Digital profile inherits Barq's logo and endpoints; another brand's posts must never
+ * go out through them.
+ */
+export function normalizeProfile(raw: Partial<BrandProfile>): BrandProfile {
+  if (!raw || typeof raw !== 'object') throw new Error("Brand profile must be an object.");
+  if (!raw.name || typeof raw.name !== 'string') throw new Error("Brand profile is missing a name.");
+  const colors = Array.isArray(raw.colors) ? raw.colors.filter(c => c && typeof c.hex === 'string') : [];
+  const isDefault = raw.id === DEFAULT_BRAND_PROFILE.id;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name: raw.name,
+    logoUrl: raw.logoUrl || (isDefault ? DEFAULT_BRAND_PROFILE.logoUrl : ""),
+    colors: colors.length >= 2 ? colors : DEFAULT_BRAND_PROFILE.colors,
+    defaultStyleRef: raw.defaultStyleRef || null,
+    mandatoryHashtags: Array.isArray(raw.mandatoryHashtags) ? raw.mandatoryHashtags.map(normalizeHashtag).filter(Boolean) : [],
+    webhooks: { ...(isDefault ? DEFAULT_BRAND_PROFILE.webhooks : NO_WEBHOOKS), ...raw.webhooks },
+    models: { ...DEFAULT_BRAND_PROFILE.models, ...raw.models },
+  };
+}
+
+export function normalizeHashtag(tag: string): string {
+  const clean = tag.trim().replace(/^#+/, '').replace(/\s+/g, '');
+  return clean ? `#${clean}` : '';
+}
+
+export function loadProfiles(): BrandProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+    const profiles = Array.isArray(stored) ? stored.map(normalizeProfile) : [];
+    return profiles.length ? profiles : [DEFAULT_BRAND_PROFILE];
+  } catch (e) {
+    console.error("Stored brand profiles are unreadable:", e);
+    return [DEFAULT_BRAND_PROFILE];
+  }
+}
+
+export function saveProfiles(profiles: BrandProfile[]): void {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string {
+  return localStorage.getItem(ACTIVE_KEY) || DEFAULT_BRAND_PROFILE.id;
+}
+
+export function saveActiveProfileId(id: string): void {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
+
+export function findProfile(id: string): BrandProfile | undefined {
+  return loadProfiles().find(p => p.id === id);
+}
+
+export function exportProfiles(profiles: BrandProfile[]): string {
+  return JSON.stringify({ version: 1, profiles }, null, 2);
+}
+
+/**
+ * Accepts either an export bundle ({ profiles: [...] }), a bare array, or a single profile.
+ */
+export function importProfiles(json: string): BrandProfile[] {
+  const parsed = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.profiles) ? parsed.profiles : [parsed];
+  return list.map(normalizeProfile);
+}
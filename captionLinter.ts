@@ -0,0 +1,137 @@
+import { PLATFORMS } from './platforms';
+import { normalizeHashtag } from './brandService';
+
+/** LinkedIn collapses a post after roughly this many characters on desktop… */
+export const FOLD_CHARS = 210;
+/** …or this many lines, whichever comes first. */
+export const FOLD_LINES = 3;
+
+const LINKEDIN = PLATFORMS.linkedin;
+
+const tagKey = (tag: string) => normalizeHashtag(tag).toLowerCase();
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  severity: LintSeverity;
+  message: string;
+}
+
+export type CaptionToken =
+  | { type: 'text'; value: string }
+  | { type: 'hashtag'; value: string }
+  | { type: 'mention'; value: string }
+  | { type: 'link'; value: string };
+
+const TOKEN_PATTERN = /(https?:\/\/[^\s]+|www\.[^\s]+)|((?:^|(?<=\s))#[\p{L}\p{N}_]+)|((?:^|(?<=\s))@[\p{L}\p{N}_.-]*[\p{L}\p{N}_])/gu;
+
+const MARKDOWN_PATTERNS: { pattern: RegExp; label: string }[] = [
+  { pattern: /\*\*[^*\n]+\*\*|__[^_\n]+__/, label: 'bold (** or __)' },
+  { pattern: /(^|\s)[*_][^*_\s][^*_\n]*[*_](?=\s|$|[.,!?])/m, label: 'italics (* or _)' },
+  { pattern: /`[^`\n]+`/, label: 'inline code (`)' },
+  { pattern: /^#{1,6}\s/m, label: 'headings (#)' },
+  { pattern: /\[[^\]\n]+\]\([^)\n]+\)/, label: 'links ([text](url))' },
+  { pattern: /^\s*>\s/m, label: 'block quotes (>)' },
+];
+
+/**
+ * Splits a caption into the runs LinkedIn renders differently: hashtags, @mentions and links.
+ */
+export function tokenizeCaption(text: string): CaptionToken[] {
+  const tokens: CaptionToken[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index!;
+    if (index > last) tokens.push({ type: 'text', value: text.slice(last, index) });
+    // Trailing punctuation belongs to the sentence, not the link
+    const value = match[1] ? match[1].replace(/[.,!?;:)]+$/, '') : match[0];
+    tokens.push({ type: match[1] ? 'link' : match[2] ? 'hashtag' : 'mention', value });
+    last = index + value.length;
+  }
+  if (last < text.length) tokens.push({ type: 'text', value: text.slice(last) });
+  return tokens;
+}
+
+export function extractHashtags(text: string): string[] {
+  return tokenizeCaption(text).filter(t => t.type === 'hashtag').map(t => t.value);
+}
+
+export function extractMentions(text: string): string[] {
+  return tokenizeCaption(text).filter(t => t.type === 'mention').map(t => t.value);
+}
+
+/**
+ * Character offset where LinkedIn's "…see more" fold lands, or null when the whole post shows.
+ * The fold backs off to the last word boundary, as LinkedIn does.
+ */
+export function foldIndex(text: string): number | null {
+  let lineEnd = -1;
+  for (let i = 0; i < FOLD_LINES; i++) {
+    lineEnd = text.indexOf('\n', lineEnd + 1);
+    if (lineEnd === -1) break;
+  }
+  const byLines = lineEnd === -1 ? Infinity : lineEnd;
+  const limit = Math.min(byLines, FOLD_CHARS);
+  if (text.trimEnd().length <= limit) return null;
+  if (limit === byLines) return byLines;
+  const space = text.lastIndexOf(' ', limit);
+  return space > FOLD_CHARS / 2 ? space : limit;
+}
+
+export function findMarkdown(text: string): string[] {
+  return MARKDOWN_PATTERNS.filter(m => m.pattern.test(text)).map(m => m.label);
+}
+
+/**
+ * Removes Markdown syntax LinkedIn would show literally, keeping the words and hashtags.
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]\n]+)\]\(([^)\n]+)\)/g, '$1 ($2)')
+    .replace(/\*\*([^*\n]+)\*\*|__([^_\n]+)__/g, (_, a, b) => a || b)
+    .replace(/(^|\s)[*_]([^*_\s][^*_\n]*)[*_](?=\s|$|[.,!?])/gm, '$1$2')
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^(\s*)>\s/gm, '$1');
+}
+
+/**
+ * Checks a caption against LinkedIn's limits and rendering rules.
+ * Errors should block publishing; warnings only need confirming.
+ */
+export function lintCaption(text: string, mandatoryHashtags: string[] = []): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const error = (message: string) => issues.push({ severity: 'error', message });
+  const warn = (message: string) => issues.push({ severity: 'warning', message });
+
+  if (!text.trim()) {
+    error("Caption is empty.");
+    return issues;
+  }
+  if (text.length > LINKEDIN.captionLimit) {
+    error(`${text.length - LINKEDIN.captionLimit} characters over LinkedIn's ${LINKEDIN.captionLimit.toLocaleString()} limit.`);
+  }
+
+  const markdown = findMarkdown(text);
+  if (markdown.length) warn(`Markdown will show literally: ${markdown.join(', ')}.`);
+
+  const fold = foldIndex(text);
+  if (fold !== null && fold < 60) warn(`The "…see more" fold cuts in after only ${fold} characters — move the hook up.`);
+
+  const hashtags = extractHashtags(text);
+  const normalized = hashtags.map(tagKey);
+  if (hashtags.length > LINKEDIN.maxHashtags) warn(`${hashtags.length} hashtags; LinkedIn works best with ${LINKEDIN.maxHashtags} or fewer.`);
+  const numeric = hashtags.filter(h => /^#\p{N}+$/u.test(h));
+  if (numeric.length) warn(`Number-only hashtags are not linked: ${numeric.join(' ')}.`);
+  const duplicates = hashtags.filter((h, i) => normalized.indexOf(normalized[i]) !== i);
+  if (duplicates.length) warn(`Duplicate hashtags: ${Array.from(new Set(duplicates)).join(' ')}.`);
+  const broken = text.match(/(^|\s)#[\p{L}\p{N}_]+[-'’][\p{L}\p{N}][\p{L}\p{N}_'’-]*/gu);
+  if (broken) warn(`Hashtags stop at punctuation: ${broken.map(b => b.trim()).join(' ')}.`);
+  const missing = mandatoryHashtags.filter(m => !normalized.includes(tagKey(m)));
+  if (missing.length) warn(`Missing brand hashtags: ${missing.join(' ')}.`);
+
+  const mentions = extractMentions(text);
+  if (mentions.length) warn(`Typed mentions (${mentions.join(' ')}) won't tag anyone until they are picked in LinkedIn's editor.`);
+
+  return issues;
+}
@@ -0,0 +1,71 @@
+import { jsPDF } from 'jspdf';
+import { generateSocialPost } from './geminiService';
+import { BrandProfile } from './brandService';
+import { PLATFORMS } from './platforms';
+import { renderRendition } from './imageUtils';
+import { failedChecks } from './imagePipeline';
+import { WeightedStyle, asStyles } from './styleService';
+
+export const MIN_SLIDES = 3;
+export const MAX_SLIDES = 10;
+
+/** Carousel pages use LinkedIn's portrait frame. */
+const SLIDE_FORMAT = PLATFORMS.linkedin;
+
+export interface CarouselSlide {
+  id: string;
+  title: string;
+  body: string;
+  image: string | null;
+  /** Failed image checks of the current visual, shown on the slide. */
+  issues?: string[];
+}
+
+export function slideText(slide: Pick<CarouselSlide, 'title' | 'body'>): string {
+  return slide.body ? `${slide.title} — ${slide.body}` : slide.title;
+}
+
+export async function generateSlideVisual(
+  slide: CarouselSlide,
+  logoBase64: string,
+  styles: WeightedStyle[],
+  profile: BrandProfile
+): Promise<Pick<CarouselSlide, 'image' | 'issues'>> {
+  // Already normalised to the slide frame by the image pipeline
+  const { image, checks } = await generateSocialPost(slideText(slide), logoBase64, styles, profile, SLIDE_FORMAT);
+  return { image, issues: failedChecks(checks).map(c => c.message) };
+}
+
+/**
+ * Generates every slide in order. Without explicit style references, the first
+ * finished slide becomes the reference for the rest so the deck stays consistent.
+ */
+export async function generateCarouselVisuals(
+  slides: CarouselSlide[],
+  logoBase64: string,
+  styles: WeightedStyle[],
+  profile: BrandProfile,
+  onSlide: (slide: CarouselSlide) => void
+): Promise<void> {
+  let references = styles;
+  for (const slide of slides) {
+    const visual = await generateSlideVisual(slide, logoBase64, references, profile);
+    if (!references.length) references = asStyles(visual.image);
+    onSlide({ ...slide, ...visual });
+  }
+}
+
+/**
+ * Assembles the slides into a PDF document client-side and returns it as a data URL.
+ */
+export async function buildCarouselPdf(slides: CarouselSlide[]): Promise<string> {
+  const { width, height } = SLIDE_FORMAT;
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'px', format: [width, height], hotfixes: ['px_scaling'] });
+  for (const [i, slide] of slides.entries()) {
+    if (!slide.image) throw new Error(`Slide ${i + 1} has no visual yet.`);
+    if (i > 0) doc.addPage([width, height], 'portrait');
+    const jpeg = await renderRendition(slide.image, width, height, 'image/jpeg');
+    doc.addImage(jpeg, 'JPEG', 0, 0, width, height);
+  }
+  return doc.output('datauristring');
+}
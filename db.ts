@@ -0,0 +1,50 @@
+/**
+ * Minimal promise wrapper around the app's IndexedDB database.
+ * Every store is keyed by `id`; bump DB_VERSION whenever a store is added.
+ */
+const DB_NAME = 'barq_autopost';
+const DB_VERSION = 5;
+const STORES = ['schedule', 'versions', 'reviews', 'published', 'styles'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDB().then(db => new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+export function dbGetAll<T>(store: string): Promise<T[]> {
+  return run<T[]>(store, 'readonly', s => s.getAll());
+}
+
+export function dbGet<T>(store: string, id: string): Promise<T | undefined> {
+  return run<T | undefined>(store, 'readonly', s => s.get(id));
+}
+
+export function dbPut<T>(store: string, value: T): Promise<void> {
+  return run<IDBValidKey>(store, 'readwrite', s => s.put(value)).then(() => undefined);
+}
+
+export function dbDelete(store: string, id: string): Promise<void> {
+  return run<undefined>(store, 'readwrite', s => s.delete(id));
+}
@@ -0,0 +1,172 @@
+import { ZipEntry, writeZip } from './zipUtils';
+import { loadImage, renderRendition, dataURLtoBlob } from './imageUtils';
+import { PlatformId, PLATFORMS, PLATFORM_IDS } from './platforms';
+import { PromptKind, TemplateRef } from './promptService';
+import { DraftSummary } from './versionService';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+export type ExportSize = 'original' | PlatformId;
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+export const EXPORT_SIZES: { id: ExportSize; label: string }[] = [
+  { id: 'original', label: 'Original' },
+  ...PLATFORM_IDS.map(id => ({ id, label: `${PLATFORMS[id].label} ${PLATFORMS[id].width}×${PLATFORMS[id].height}` })),
+];
+
+export interface ExportSettings {
+  formats: ExportFormat[];
+  sizes: ExportSize[];
+}
+
+/** Everything a bundle is built from; the current draft comes from the editor, others from history. */
+export interface ExportDraft {
+  id: string;
+  prompt: string;
+  caption: string;
+  altText: string;
+  image: string | null;
+  styleRef: string | null;
+  tone: string | null;
+  templates?: Partial<Record<PromptKind, TemplateRef>>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const SETTINGS_KEY = 'barq_export_settings';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { formats: ['png'], sizes: ['original'] };
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+const mimeOf = (dataUrl: string) => dataUrl.slice(5, dataUrl.indexOf(';'));
+
+const bytesOf = async (dataUrl: string) => new Uint8Array(await dataURLtoBlob(dataUrl).arrayBuffer());
+
+export function loadExportSettings(): ExportSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      formats: Array.isArray(stored.formats) && stored.formats.length ? stored.formats : DEFAULT_EXPORT_SETTINGS.formats,
+      sizes: Array.isArray(stored.sizes) && stored.sizes.length ? stored.sizes : DEFAULT_EXPORT_SETTINGS.sizes,
+    };
+  } catch (e) {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+}
+
+export function saveExportSettings(settings: ExportSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function fromSummary({ draftId, head, startedAt }: DraftSummary): ExportDraft {
+  return {
+    id: draftId,
+    prompt: head.prompt,
+    caption: head.caption,
+    altText: head.altText || '',
+    image: head.image,
+    styleRef: head.styleRef,
+    tone: head.tone || null,
+    templates: head.templates,
+    createdAt: startedAt,
+    updatedAt: head.createdAt,
+  };
+}
+
+/** Folder and file-name stem: the first words of the prompt plus a short id, so names stay unique. */
+export function draftSlug(draft: ExportDraft): string {
+  const words = draft.prompt.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const stem = words.slice(0, 5).join('-').slice(0, 40);
+  return `${stem || 'draft'}-${draft.id.slice(0, 6)}`;
+}
+
+/**
+ * The files of one draft's bundle: the image in every chosen size and format, the caption,
+ * alt text, style reference and a JSON manifest describing them.
+ */
+export async function draftEntries(draft: ExportDraft, settings: ExportSettings, folder = ''): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = [];
+  const images: { file: string; format: string; width: number; height: number; size: ExportSize }[] = [];
+
+  if (draft.image) {
+    const original = await loadImage(draft.image);
+    for (const size of settings.sizes) {
+      const { width, height } = size === 'original' ? original : PLATFORMS[size];
+      for (const format of settings.formats) {
+        const rendered = await renderRendition(draft.image, width, height, `image/${format}`);
+        // Browsers without a WebP encoder hand back PNG; name the file after what was produced
+        const extension = EXTENSIONS[mimeOf(rendered)] || format;
+        const file = `image-${size}-${width}x${height}.${extension}`;
+        if (images.some(i => i.file === file)) continue;
+        entries.push({ name: folder + file, data: await bytesOf(rendered) });
+        images.push({ file, format: extension, width, height, size });
+      }
+    }
+  }
+
+  const styleRefFile = draft.styleRef ? `style-ref.${EXTENSIONS[mimeOf(draft.styleRef)] || 'png'}` : null;
+  if (draft.styleRef && styleRefFile) entries.push({ name: folder + styleRefFile, data: await bytesOf(draft.styleRef) });
+  entries.push({ name: `${folder}caption.txt`, data: draft.caption });
+  if (draft.altText) entries.push({ name: `${folder}alt-text.txt`, data: draft.altText });
+
+  entries.push({
+    name: `${folder}manifest.json`,
+    data: JSON.stringify({
+      draftId: draft.id,
+      prompt: draft.prompt,
+      tone: draft.tone,
+      styleRef: styleRefFile,
+      templates: draft.templates || {},
+      caption: 'caption.txt',
+      altText: draft.altText || null,
+      images,
+      createdAt: draft.createdAt,
+      updatedAt: draft.updatedAt,
+      exportedAt: new Date().toISOString(),
+    }, null, 2),
+  });
+  return entries;
+}
+
+/**
+ * One ZIP for the selection: a single draft's files sit at the root, several drafts get a
+ * folder each.
+ */
+export async function exportDrafts(drafts: ExportDraft[], settings: ExportSettings): Promise<{ blob: Blob; fileName: string }> {
+  if (drafts.length === 1) {
+    return { blob: writeZip(await draftEntries(drafts[0], settings)), fileName: `${draftSlug(drafts[0])}.zip` };
+  }
+  const entries: ZipEntry[] = [];
+  for (const draft of drafts) entries.push(...await draftEntries(draft, settings, `${draftSlug(draft)}/`));
+  return { blob: writeZip(entries), fileName: `barq-export-${new Date().toISOString().slice(0, 10)}.zip` };
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Puts the image itself on the clipboard. Browsers only take PNG there, so other formats are
+ * converted; the blob is passed as a promise so Safari keeps the click's permission meanwhile.
+ */
+export async function copyImageToClipboard(image: string): Promise<void> {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') {
+    throw new Error("This browser can't copy images to the clipboard.");
+  }
+  const png = (async () => {
+    if (mimeOf(image) === 'image/png') return dataURLtoBlob(image);
+    const img = await loadImage(image);
+    return dataURLtoBlob(await renderRendition(image, img.width, img.height));
+  })();
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+}
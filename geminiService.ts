@@ -1,145 +1,552 @@
-import { GoogleGenAI } from "@google/genai";
+import { Type } from "@google/genai";
+import { BrandProfile } from "./brandService";
+import { PlatformId, PlatformSpec, PLATFORMS, orientationOf, fitCaption } from "./platforms";
+import { builtInBody, renderPrompt, usedPlaceholders } from "./promptService";
+import { ToneProfile, BUILTIN_TONES, DEFAULT_TONE_ID, findTone, toneGuide } from "./toneService";
+import { AuthorProfile, authorContext, publishTarget } from "./authorService";
+import { RequestOptions, postWebhook } from "./serviceClient";
+import { ServiceError, isCancelled } from "./serviceErrors";
+import { dataURLtoBlob } from "./imageUtils";
+import { getProvider } from "./providerService";
+import { CheckedImage, GraphicReview, MAX_IMAGE_ATTEMPTS, normalizeImage, contentChecks, failedChecks } from "./imagePipeline";
+import {
+  CaptionLanguage,
+  LANGUAGE_NAMES,
+  ARABIC_TYPOGRAPHY,
+  hasArabic,
+  isMostlyArabic,
+  languageRule,
+  protectTokens,
+  restoreTokens,
+  splitTrailingTags
+} from "./languageService";
+import { WeightedStyle, styleGuide } from "./styleService";
 
 /**
- * Helper to convert Base64 Data URL to Blob
+ * Enhances text using the active provider (Gemini 3 Flash by default). The result stays in
+ * the input's language, since it ends up on the graphic.
  */
-export function dataURLtoBlob(dataurl: string): Blob {
-  const arr = dataurl.split(',');
-  const mime = arr[0].match(/:(.*?);/)![1];
-  const bstr = atob(arr[1]);
-  let n = bstr.length;
-  const u8arr = new Uint8Array(n);
-  while(n--){
-      u8arr[n] = bstr.charCodeAt(n);
-  }
-  return new Blob([u8arr], {type:mime});
+export async function enhanceText(text: string, profile: BrandProfile, template = builtInBody('polish'), options: RequestOptions = {}): Promise<string> {
+  if (!text) return "";
+  return getProvider().generateText({
+    task: { kind: 'polish', text },
+    source: "Polish",
+    prompt: `${renderPrompt(template, { accomplishment: text })}\n\nReply in the same language as the input; do not translate it.`,
+    brand: profile,
+  }, options);
 }
 
 /**
- * Enhances text using Gemini 3 Flash.
+ * Generates an engaging LinkedIn caption based on accomplishments.
  */
-export async function enhanceText(text: string): Promise<string> {
-  if (!text) return "";
+export async function generateCaption(accomplishment: string, profile: BrandProfile, language: CaptionLanguage = 'en', template = builtInBody('caption'), options: RequestOptions = {}): Promise<string> {
+  return generateCaptionWithTone(accomplishment, findTone(BUILTIN_TONES, DEFAULT_TONE_ID), profile, null, language, template, options);
+}
+
+/**
+ * Specialized caption generation with tone support. The tone's description, rules and example
+ * posts go in at `{{toneGuide}}`, the author's first-person context at `{{authorContext}}` and
+ * the target language at `{{languageRule}}`; each is appended after the prompt when the
+ * template doesn't place it. Set `options.onText` to stream the caption as it is written.
+ */
+export async function generateCaptionWithTone(
+  accomplishment: string,
+  tone: ToneProfile,
+  profile: BrandProfile,
+  author: AuthorProfile | null,
+  language: CaptionLanguage = 'en',
+  template = builtInBody('caption'),
+  options: RequestOptions = {}
+): Promise<string> {
+  if (!accomplishment) return "";
+  const hashtags = [...new Set([...profile.mandatoryHashtags, ...(author?.hashtags || [])])];
+  const hashtagRule = hashtags.length
+    ? `Include 3-4 relevant hashtags at the end including ${hashtags.join(' ')}.`
+    : "Include 3-4 relevant hashtags at the end.";
+  const guide = toneGuide(tone);
+  const voice = author ? authorContext(author) : '';
+  const rule = languageRule(language);
+  const prompt = renderPrompt(template, { accomplishment, tone: tone.name, toneGuide: guide, authorContext: voice, hashtagRule, languageRule: rule, brandName: profile.name });
+  const placed = usedPlaceholders(template);
+  const extras = [
+    placed.includes('toneGuide') ? '' : guide,
+    placed.includes('authorContext') ? '' : voice,
+    placed.includes('languageRule') ? '' : rule,
+  ].filter(Boolean);
+  return getProvider().generateText({
+    task: { kind: 'caption', accomplishment, tone: tone.name, language },
+    source: "Caption",
+    prompt: [prompt, ...extras].join('\n\n'),
+    brand: profile,
+  }, options);
+}
+
+/**
+ * Rewrites a LinkedIn caption for another network's length limit and hashtag conventions.
+ */
+export async function adaptCaptionForPlatform(caption: string, platform: PlatformSpec, profile: BrandProfile, options: RequestOptions = {}): Promise<string> {
+  if (!caption) return "";
+  if (platform.id === 'linkedin') return fitCaption(caption, platform, profile.mandatoryHashtags);
+  const adapted = await getProvider().generateText({
+    task: { kind: 'adapt', caption, platform },
+    source: `${platform.label} caption`,
+    prompt: `Adapt this LinkedIn post for ${platform.label}.
+      Original post:
+      ${caption}
+      Rules:
+      1. Hard limit of ${platform.captionLimit} characters including hashtags and spaces.
+      2. Hashtags: ${platform.hashtagConvention}.${profile.mandatoryHashtags.length ? ` Always keep ${profile.mandatoryHashtags.join(' ')}.` : ""}
+      3. Match how people write on ${platform.label}; keep the facts unchanged.
+      4. Output ONLY the final caption text, with no introductions or explanations.
+      5. NO Markdown formatting.`,
+    brand: profile,
+  }, options);
+  return fitCaption(adapted, platform, profile.mandatoryHashtags);
+}
+
+/**
+ * Translates a caption into `language`. Hashtags, mentions and links are masked so they come
+ * back unchanged; "bilingual" keeps the original and adds the other language after it, with
+ * the hashtag block shared at the end.
+ */
+export async function translateCaption(caption: string, language: CaptionLanguage, profile: BrandProfile, options: RequestOptions = {}): Promise<string> {
+  if (!caption.trim()) return "";
+  const into = language === 'bilingual' ? (isMostlyArabic(caption) ? 'en' : 'ar') : language;
+  const { body, tags } = language === 'bilingual' ? splitTrailingTags(caption) : { body: caption, tags: '' };
+  const { masked, tokens } = protectTokens(body);
+  const translated = await getProvider().generateText({
+    task: { kind: 'translate', text: masked, language: LANGUAGE_NAMES[into] },
+    source: "Translation",
+    prompt: `Translate this LinkedIn post into ${LANGUAGE_NAMES[into]}.
+      Post:
+      ${masked}
+      Rules:
+      1. Keep every marker like [[0]] exactly as written; they stand for hashtags, mentions and links. Place each where it reads naturally.
+      2. Keep the meaning, tone, line breaks and emoji; leave product names and code identifiers untranslated.
+      3. ${into === 'ar' ? "Write natural Modern Standard Arabic with Arabic punctuation (، ؛ ؟)." : "Write natural, professional English."}
+      4. Output ONLY the translated post, with no introductions, explanations or Markdown.`,
+    brand: profile,
+  }, options);
+  const result = restoreTokens(translated.trim(), tokens);
+  return language === 'bilingual' ? [body, result, tags].filter(Boolean).join('\n\n') : result;
+}
+
+/** LinkedIn accepts longer alt text, but screen reader users are best served by a short one. */
+export const ALT_TEXT_LIMIT = 250;
+
+/**
+ * Describes a graphic for screen readers using the provider's vision model.
+ * `context` (the accomplishment) helps it read the headline and logo correctly.
+ */
+export async function generateAltText(image: string, context: string, profile: BrandProfile, options: RequestOptions = {}): Promise<string> {
+  const text = await getProvider().generateText({
+    task: { kind: 'alt_text', context },
+    source: "Alt text",
+    prompt: `Write alt text for this ${profile.name} social media graphic for screen reader users.
+      The post is about: ${context || "(not given)"}
+      Rules:
+      1. Under ${ALT_TEXT_LIMIT} characters.
+      2. Quote any headline or text in the image exactly, then briefly describe the visual and layout.
+      3. Do not start with "Image of" or "Picture of"; do not mention colours unless they carry meaning.
+      4. Output ONLY the alt text, with no introductions, quotes or Markdown.`,
+    image,
+    brand: profile,
+  }, options);
+  return text.replace(/^["']|["']$/g, '').trim();
+}
+
+/**
+ * Describes a style reference's palette, lighting, texture and mood with the provider's vision
+ * model, so the look can be named in image prompts (and blended with other references).
+ */
+export async function describeStyle(image: string, profile: BrandProfile, options: RequestOptions = {}): Promise<string> {
+  const text = await getProvider().generateText({
+    task: { kind: 'describe_style' },
+    source: "Style description",
+    prompt: `Describe the visual style of this reference image so a designer could reproduce its look in a new ${profile.name} graphic.
+      Rules:
+      1. Cover the colour palette (name the dominant colours with approximate hex codes), lighting, texture and overall mood.
+      2. Ignore the subject and any text in the image; describe only the style.
+      3. At most 60 words, as one plain paragraph.
+      4. Output ONLY the description, with no introductions, quotes or Markdown.`,
+    image,
+    brand: profile,
+  }, options);
+  return text.replace(/^["']|["']$/g, '').trim();
+}
+
+/** Structured model output, parsed; malformed text counts as an empty response rather than a SyntaxError. */
+function parseModelJson(source: string, json: string): unknown {
   try {
-    const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Rewrite this professional accomplishment for a social media graphic. Keep it impactful, bold, and under 12 words. Output ONLY the polished text.\n\nInput: "${text}"`,
-    });
-    return response.text || text;
-  } catch (error) {
-    console.error("Text enhancement failed:", error);
-    return text;
+    return JSON.parse(json);
+  } catch (e) {
+    throw new ServiceError('empty_response', source, "The model returned malformed JSON.", { cause: e });
   }
 }
 
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
 /**
- * Generates an engaging LinkedIn caption based on accomplishments.
+ * Vision check of a rendered graphic: is `text` spelled exactly as given (skipped when
+ * null) and is the brand logo visible?
  */
-export async function generateCaption(accomplishment: string): Promise<string> {
-  return generateCaptionWithTone(accomplishment, 'Corporate Professional');
+export async function reviewGraphic(image: string, text: string | null, profile: BrandProfile, options: RequestOptions = {}): Promise<GraphicReview> {
+  const json = await getProvider().generateText({
+    task: { kind: 'verify_image', text },
+    source: "Image check",
+    prompt: `You are checking a ${profile.name} social media graphic before it is published.
+    ${text ? `1. Its headline should be this text or a shortened form of it: "${text}". Set textCorrect to false for any misspelled, garbled or invented word, and list each problem briefly.` : "1. Ignore the wording; set textCorrect to true."}
+    2. Set logoPresent to true only if a company logo is clearly visible and not cut off or distorted.`,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        textCorrect: { type: Type.BOOLEAN },
+        problems: { type: Type.ARRAY, items: { type: Type.STRING } },
+        logoPresent: { type: Type.BOOLEAN },
+      },
+      required: ['textCorrect', 'problems', 'logoPresent'],
+    },
+    image,
+    brand: profile,
+  }, options);
+  const review = parseModelJson("Image check", json);
+  if (!isObject(review)) throw new ServiceError('empty_response', "Image check", "The image check returned no verdict.");
+  return {
+    textCorrect: review.textCorrect !== false,
+    problems: Array.isArray(review.problems) ? review.problems.filter(p => typeof p === 'string') : [],
+    logoPresent: review.logoPresent !== false,
+  };
 }
 
 /**
- * Specialized caption generation with tone support for Text Mode.
+ * Runs an image call through validation: broken bodies and graphics that fail the vision
+ * check are retried, and the best attempt comes back with its checks for the UI to flag.
  */
-export async function generateCaptionWithTone(accomplishment: string, tone: string): Promise<string> {
-  if (!accomplishment) return "";
-  try {
-    const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Write a professional, engaging LinkedIn post caption based on this engineering accomplishment: ${accomplishment}. 
-      Tone: ${tone}.
-      Rules:
-      1. Keep it concise (under 200 words).
-      2. Include 3-4 relevant hashtags at the end including #BarqDigital.
-      3. Make it sound natural and authentic.
-      4. Output ONLY the final caption text.
-      5. NO introductions (like "Here is the caption").
-      6. NO explanations.
-      7. NO Markdown formatting (no **, no _, no # at the start of lines unless it's a hashtag).`,
+async function checkedImage(
+  source: string,
+  produce: () => Promise<string>,
+  frame: { width: number; height: number },
+  text: string | null,
+  profile: BrandProfile,
+  options: RequestOptions
+): Promise<CheckedImage> {
+  let best: CheckedImage | null = null;
+  for (let attempts = 1; attempts <= MAX_IMAGE_ATTEMPTS; attempts++) {
+    let normalized;
+    try {
+      normalized = await normalizeImage(await produce(), frame, source);
+    } catch (e) {
+      if (isCancelled(e) || attempts === MAX_IMAGE_ATTEMPTS) throw e;
+      console.warn(`${source} returned an unusable image, retrying:`, e);
+      continue;
+    }
+    // An unavailable vision check shouldn't block the image; it is reported as skipped
+    const review = await reviewGraphic(normalized.image, text, profile, options).catch(e => {
+      if (isCancelled(e)) throw e;
+      console.error("Image check failed:", e);
+      return null;
     });
-    return response.text?.trim() || "";
-  } catch (error) {
-    console.error("Caption generation failed:", error);
-    return "";
+    const result = { ...normalized, checks: [...normalized.checks, ...contentChecks(review, text !== null)], attempts };
+    if (!best || failedChecks(result.checks).length < failedChecks(best.checks).length) best = result;
+    if (!failedChecks(result.checks).length) break;
   }
+  return best!;
+}
+
+export interface CaptionScore {
+  hook: number;
+  clarity: number;
+  length: number;
+  hashtags: number;
+  notes: string;
+}
+
+export const SCORE_CRITERIA: { key: keyof Omit<CaptionScore, 'notes'>; label: string }[] = [
+  { key: 'hook', label: 'Hook' },
+  { key: 'clarity', label: 'Clarity' },
+  { key: 'length', label: 'Length' },
+  { key: 'hashtags', label: 'Hashtags' },
+];
+
+export function totalScore(score: CaptionScore): number {
+  return SCORE_CRITERIA.reduce((sum, c) => sum + score[c.key], 0) / SCORE_CRITERIA.length;
 }
 
 /**
- * Generates the social media post image via the n8n webhook.
+ * Rates LinkedIn caption candidates 1-10 on hook strength, clarity, length and hashtag quality.
+ * Returns one score per caption, in the same order.
+ */
+export async function scoreCaptions(captions: string[], profile: BrandProfile, options: RequestOptions = {}): Promise<CaptionScore[]> {
+  if (!captions.length) return [];
+  const json = await getProvider().generateText({
+    task: { kind: 'score', captions },
+    source: "Scoring",
+    prompt: `You are a strict LinkedIn editor. Score each candidate post from 1 to 10 on:
+    - hook: does the first line make a reader stop scrolling?
+    - clarity: is the accomplishment and its impact easy to understand?
+    - length: is it tight enough for the feed (roughly 80-200 words is ideal)?
+    - hashtags: 3-5 relevant, specific hashtags at the end${profile.mandatoryHashtags.length ? `, including ${profile.mandatoryHashtags.join(' ')}` : ""}.
+    Add one short sentence of notes per candidate. Return exactly ${captions.length} results in the same order.
+
+    ${captions.map((c, i) => `Candidate ${i + 1}:\n${c}`).join('\n\n')}`,
+    schema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          hook: { type: Type.NUMBER },
+          clarity: { type: Type.NUMBER },
+          length: { type: Type.NUMBER },
+          hashtags: { type: Type.NUMBER },
+          notes: { type: Type.STRING },
+        },
+        required: ['hook', 'clarity', 'length', 'hashtags', 'notes'],
+      },
+    },
+    brand: profile,
+  }, options);
+  const scores = parseModelJson("Scoring", json);
+  if (!Array.isArray(scores) || scores.length !== captions.length || !scores.every(isObject)) {
+    throw new ServiceError('empty_response', "Scoring", "Caption scores did not match the candidates.");
+  }
+  const clamp = (n: unknown) => Math.min(10, Math.max(1, Number(n) || 1));
+  return scores.map(s => ({
+    hook: clamp(s.hook),
+    clarity: clamp(s.clarity),
+    length: clamp(s.length),
+    hashtags: clamp(s.hashtags),
+    notes: typeof s.notes === 'string' ? s.notes.trim() : '',
+  }));
+}
+
+/**
+ * Combines the strongest parts of several caption variants into one post.
+ */
+export async function mergeCaptions(captions: string[], profile: BrandProfile, options: RequestOptions = {}): Promise<string> {
+  if (captions.length < 2) return captions[0] || "";
+  return getProvider().generateText({
+    task: { kind: 'merge', captions },
+    source: "Merge",
+    prompt: `Merge these LinkedIn post variants into one post: keep the strongest hook, the clearest explanation of the impact, and the best hashtags.
+    Keep it under 200 words.${profile.mandatoryHashtags.length ? ` Always keep ${profile.mandatoryHashtags.join(' ')}.` : ""}
+    Output ONLY the final caption text, with no introductions, explanations or Markdown.
+
+    ${captions.map((c, i) => `Variant ${i + 1}:\n${c}`).join('\n\n')}`,
+    brand: profile,
+  }, options);
+}
+
+export interface SlideOutline {
+  title: string;
+  body: string;
+}
+
+/**
+ * Breaks a longer write-up into a 3-10 slide carousel outline.
+ */
+export async function generateCarouselOutline(source: string, slideCount: number, profile: BrandProfile, options: RequestOptions = {}): Promise<SlideOutline[]> {
+  if (!source) return [];
+  const count = Math.min(10, Math.max(3, slideCount));
+  const json = await getProvider().generateText({
+    task: { kind: 'outline', source, slideCount: count },
+    source: "Carousel outline",
+    prompt: `Turn this engineering write-up into a LinkedIn carousel of exactly ${count} slides.
+    Slide 1 is a hook, the last slide is a takeaway or call to action, the rest tell the story in order.
+    Each slide has a title (max 8 words) and a body (max 20 words). Plain text only, no Markdown, no emojis.
+
+    Write-up: "${source}"`,
+    schema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          body: { type: Type.STRING },
+        },
+        required: ['title', 'body'],
+      },
+    },
+    brand: profile,
+  }, options);
+  const parsed = parseModelJson("Carousel outline", json);
+  // Slides without a title would render as "undefined"
+  const slides: SlideOutline[] = (Array.isArray(parsed) ? parsed : [])
+    .filter(isObject)
+    .flatMap(s => typeof s.title === 'string' && s.title.trim() ? [{ title: s.title.trim(), body: typeof s.body === 'string' ? s.body.trim() : '' }] : []);
+  if (slides.length < 3) {
+    throw new ServiceError('empty_response', "Carousel outline", "Carousel outline came back empty.");
+  }
+  return slides.slice(0, 10);
+}
+
+/**
+ * Generates the social media post image via the active provider (the n8n webhook by default).
+ * `template` overrides the built-in image prompt for the matching kind (plain or style-ref).
+ * `styles` are the weighted style references, heaviest first; their descriptions go at
+ * `{{styleGuide}}`, as Arabic typography rules go at `{{typography}}`, or after the prompt.
  */
 export async function generateSocialPost(
   accomplishment: string,
   logoBase64: string,
-  styleRef: string | null
-): Promise<string> {
-  const WEBHOOK_URL = "https://n8n.srv927950.hstgr.cloud/webhook/image-get";
-  
-  let promptText = "";
-  
-  if (styleRef) {
-  promptText = `A luxurious, high-end professional social media milestone graphic in strict 4:5 portrait aspect ratio.
-CENTRAL CONTENT: Prominently centered, bold elegant text reading "${accomplishment}" in a clean, modern sans-serif typeface with refined kerning and subtle outer glow for maximum impact and readability.
-LOGO: Precisely positioned at the top center, appropriately scaled (15-20% of image height) to maintain perfect compositional balance and strong brand presence.
-CRITICAL STYLE TRANSFER: This is an exact one-to-one visual replication. The color palette, gradients, lighting, shadows, highlights, textures, depth, mood, atmosphere, and overall artistic treatment MUST IDENTICALLY MATCH the attached reference image. Replicate every nuance with precision—no creative deviations allowed. Achieve the same level of sophistication and professional excellence as the reference.`;
-} else {
-promptText = `A sophisticated, premium corporate achievement announcement graphic in strict 4:5 portrait aspect ratio.
-BACKGROUND: Rich, immersive gradient transitioning from deep vibrant orange at the edges to warm glowing amber yellow in the center, enhanced with subtle dark textured overlays (faint geometric patterns or brushed metallic grain) for tactile depth and luxury.
-MAIN TEXT: Bold, pristine white "${accomplishment}" centered both vertically and horizontally. Use a modern geometric sans-serif font (e.g., similar to Futura Bold, Montserrat ExtraBold, or Helvetica Neue Bold) with excellent letter-spacing, subtle drop shadow or soft outer glow for elevated contrast and celebratory presence.
-
-CREATIVE ACCENTS:
-- Gentle radiant light beams or soft golden lens flares emanating subtly from behind the text to convey achievement and energy.
-- Minimalist abstract gold or white geometric lines/particles floating elegantly in the background for a sense of innovation and precision engineering.
-LOGO: Precisely positioned at the top center, appropriately scaled (15-20% of image height) to maintain perfect compositional balance and strong brand presence.
-OVERALL STYLE: Ultra-modern, confident, and impeccably professional—evoking innovation, excellence, and milestone celebration. High contrast, razor-sharp details, premium production quality ideal for LinkedIn, executive social channels, and corporate branding. Clean, powerful, and visually striking.`;
-}
-
-  const formData = new FormData();
-  formData.append('prompt', promptText);
-  formData.append('accomplishment', accomplishment);
-  formData.append('logoImage', dataURLtoBlob(logoBase64), 'logo.png');
-  if (styleRef) formData.append('styleImage', dataURLtoBlob(styleRef), 'style.png');
-
-  const response = await fetch(WEBHOOK_URL, { method: 'POST', body: formData });
-  if (!response.ok) throw new Error("Generation failed.");
-  const blob = await response.blob();
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve(reader.result as string);
-    reader.readAsDataURL(blob);
+  styles: WeightedStyle[],
+  profile: BrandProfile,
+  platform: PlatformSpec = PLATFORMS.linkedin,
+  template = builtInBody(styles.length ? 'image_styled' : 'image'),
+  options: RequestOptions = {}
+): Promise<CheckedImage> {
+  const [primary, secondary] = profile.colors;
+  const typography = hasArabic(accomplishment) ? ARABIC_TYPOGRAPHY : '';
+  const guide = styleGuide(styles);
+  const rendered = renderPrompt(template, {
+    accomplishment,
+    typography,
+    styleGuide: guide,
+    frame: `strict ${platform.aspect} ${orientationOf(platform)} aspect ratio`,
+    brandName: profile.name,
+    brandColors: profile.colors.map(c => `${c.name} (${c.hex})`).join(', '),
+    primaryColor: primary.name,
+    primaryHex: primary.hex,
+    secondaryColor: secondary.name,
+    secondaryHex: secondary.hex,
   });
+  const placed = usedPlaceholders(template);
+  const promptText = [
+    rendered,
+    guide && !placed.includes('styleGuide') ? guide : '',
+    typography && !placed.includes('typography') ? typography : '',
+  ].filter(Boolean).join('\n');
+
+  return checkedImage(
+    "Image webhook",
+    () => getProvider().generateImage({ prompt: promptText, accomplishment, logo: logoBase64, styles, platform, brand: profile }, options),
+    platform,
+    accomplishment,
+    profile,
+    options
+  );
 }
 
 /**
- * Sends edit data to the webhook and returns the processed image.
+ * Sends edit data to the active provider (the edit webhook by default) and returns the processed image.
+ * `mask` is a same-size PNG where white marks the only region the edit may change.
  */
 export async function sendEditToWebhook(payload: {
   originalImage: string;
   editedImage?: string;
+  mask?: string;
   prompt: string;
   type: 'visual' | 'text';
-}): Promise<string | null> {
-  const EDIT_WEBHOOK_URL = "https://n8n.srv927950.hstgr.cloud/webhook/4d10ba4c-3102-452a-ae61-51d3d022cf14";
+}, profile: BrandProfile, platform: PlatformSpec = PLATFORMS.linkedin, options: RequestOptions = {}): Promise<CheckedImage> {
+  // Edits may change the wording on purpose, so only the logo is verified
+  return checkedImage("Edit webhook", () => getProvider().editImage({ ...payload, brand: profile }, options), platform, null, profile, options);
+}
+
+export type PostType = 'image' | 'text_only' | 'document';
+
+/** What the posting webhook reports back; `pending` means accepted but not live yet. */
+export interface PublishResult {
+  status: 'published' | 'pending';
+  /** Platform id of the post, e.g. a LinkedIn share URN. */
+  postId: string | null;
+  url: string | null;
+}
+
+export type PostOperation = 'delete' | 'update_caption';
+
+/**
+ * A posting or manage webhook's JSON reply (n8n may wrap it in an array), or null for an empty
+ * or plain-text body. A `{ status: 'failed', error }` reply throws with the workflow's message.
+ */
+async function readWebhookReply(source: string, response: Response, fallback: string): Promise<Record<string, unknown> | null> {
+  const body = await response.text();
+  let parsed: unknown = null;
+  try { parsed = JSON.parse(body); } catch (e) { /* older workflows reply with plain text */ }
+  const json: unknown = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (!json || typeof json !== 'object') return null;
+  const reply = json as Record<string, unknown>;
+  if (reply.status === 'failed') throw new ServiceError('webhook', source, typeof reply.error === 'string' && reply.error ? reply.error : fallback);
+  return reply;
+}
+
+/**
+ * Reads the webhook's JSON reply ({ status, postId, url, error }). Workflows that answer with
+ * an empty or non-JSON body still count as published, just without an id or link. `duplicate`
+ * means the idempotency key was already used and the original post is returned.
+ */
+async function readPublishResult(source: string, response: Response): Promise<PublishResult> {
+  const reply = await readWebhookReply(source, response, "The posting webhook reported a failure.");
+  if (!reply) return { status: 'published', postId: null, url: null };
+  const postId = firstText(reply.postId, reply.urn, reply.id);
+  const url = firstText(reply.url, reply.postUrl) || (postId?.startsWith('urn:li:') ? `https://www.linkedin.com/feed/update/${postId}/` : null);
+  return { status: reply.status === 'pending' ? 'pending' : 'published', postId, url };
+}
+
+/** The first non-empty string (or number, for numeric ids) among webhook reply fields. */
+function firstText(...values: unknown[]): string | null {
+  for (const value of values) {
+    if (typeof value === 'string' && value) return value;
+    if (typeof value === 'number') return String(value);
+  }
+  return null;
+}
+
+/**
+ * Publishes a post via the posting webhook. The idempotency key lets the workflow recognise a
+ * resend of the same post (a retry after a lost reply) instead of posting it twice.
+ */
+export async function publishPost(post: {
+  image: string | null;
+  caption: string;
+  type: PostType;
+  platform: PlatformId;
+  /** PDF data URL and title for 'document' (carousel) posts. */
+  document?: { pdf: string; title: string };
+  /** Who to publish as; omitted, the workflow uses its default account. */
+  author?: AuthorProfile;
+  /** Screen reader description of the image. */
+  altText?: string;
+  idempotencyKey: string;
+}, profile: BrandProfile, options: RequestOptions = {}): Promise<PublishResult> {
+  if (!profile.webhooks.publish) {
+    throw new ServiceError('config', "Posting webhook", `Set ${profile.name}'s posting webhook before publishing.`);
+  }
   const formData = new FormData();
-  formData.append('originalImage', dataURLtoBlob(payload.originalImage), 'original.png');
-  if (payload.editedImage) formData.append('editedImage', dataURLtoBlob(payload.editedImage), 'edited.png');
-  formData.append('prompt', payload.prompt);
-  formData.append('type', payload.type);
+  if (post.type === 'image' && post.image) {
+    formData.append('file', dataURLtoBlob(post.image), `barq_post_${post.platform}.png`);
+  }
+  if (post.type === 'document' && post.document) {
+    formData.append('file', dataURLtoBlob(post.document.pdf), 'barq_carousel.pdf');
+    formData.append('title', post.document.title);
+  }
+  formData.append('caption', post.caption);
+  formData.append('type', post.type);
+  formData.append('platform', post.platform);
+  formData.append('idempotencyKey', post.idempotencyKey);
+  if (post.type === 'image' && post.altText) formData.append('altText', post.altText);
+  if (post.author) Object.entries(publishTarget(post.author)).forEach(([key, value]) => formData.append(key, value));
+  // Only resent on request, with the same key: automatic retries could double-post
+  const response = await postWebhook("Posting webhook", profile.webhooks.publish, formData, { retries: 0, ...options });
+  return readPublishResult("Posting webhook", response);
+}
 
-  try {
-    const response = await fetch(EDIT_WEBHOOK_URL, { method: 'POST', body: formData });
-    if (!response.ok) return null;
-    const blob = await response.blob();
-    if (blob.size === 0) return null;
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.readAsDataURL(blob);
-    });
-  } catch (e) {
-    console.error("Webhook edit sync error:", e);
-    return null;
+/**
+ * Deletes a published post, or replaces its caption, through the brand's manage webhook.
+ */
+export async function managePost(operation: PostOperation, post: {
+  postId: string;
+  platform: PlatformId;
+  caption?: string;
+  author?: AuthorProfile;
+}, profile: BrandProfile, options: RequestOptions = {}): Promise<void> {
+  if (!profile.webhooks.manage) {
+    throw new ServiceError('config', "Manage webhook", `Set ${profile.name}'s manage webhook to delete or edit published posts.`);
   }
+  const formData = new FormData();
+  formData.append('operation', operation);
+  formData.append('postId', post.postId);
+  formData.append('platform', post.platform);
+  if (operation === 'update_caption' && post.caption !== undefined) formData.append('caption', post.caption);
+  if (post.author) Object.entries(publishTarget(post.author)).forEach(([key, value]) => formData.append(key, value));
+  const response = await postWebhook("Manage webhook", profile.webhooks.manage, formData, { retries: 0, ...options });
+  await readWebhookReply("Manage webhook", response, "The manage webhook reported a failure.");
 }
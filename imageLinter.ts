@@ -0,0 +1,112 @@
+import { LintIssue } from './captionLinter';
+import { loadImage } from './imageUtils';
+
+/** WCAG AA minimums: large (headline) text, and body-size text. */
+export const MIN_LARGE_TEXT_CONTRAST = 3;
+export const MIN_BODY_TEXT_CONTRAST = 4.5;
+
+const SAMPLE_WIDTH = 320;
+const BLOCK = 16;
+// A block "looks like text" when enough neighbouring pixels differ sharply…
+const MIN_EDGE_SHARE = 0.08;
+const EDGE_RATIO = 1.5;
+// …and its darkest and lightest pixels are distinct colours, not one flat fill
+const MIN_TEXT_RATIO = 1.25;
+// Ignore a handful of noisy blocks before warning
+const MIN_FLAGGED_SHARE = 0.15;
+
+export interface ContrastRegion {
+  /** Position and size as fractions of the image. */
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  ratio: number;
+}
+
+export interface LegibilityReport {
+  /** Blocks that look like text, and the ones among them below the large-text minimum. */
+  textBlocks: number;
+  lowContrast: ContrastRegion[];
+  worstRatio: number | null;
+  medianRatio: number | null;
+  issues: LintIssue[];
+}
+
+const linear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+};
+
+const contrast = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+/**
+ * Estimates text contrast without knowing where the text is: the pixels are cut into
+ * blocks, blocks with sharp, two-tone detail are treated as text, and their darkest
+ * and lightest tones are compared with the WCAG formula.
+ */
+export function analyzeContrast(data: Uint8ClampedArray, width: number, height: number): LegibilityReport {
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = 0.2126 * linear(data[i * 4]) + 0.7152 * linear(data[i * 4 + 1]) + 0.0722 * linear(data[i * 4 + 2]);
+  }
+
+  const ratios: number[] = [];
+  const lowContrast: ContrastRegion[] = [];
+  for (let by = 0; by + BLOCK <= height; by += BLOCK) {
+    for (let bx = 0; bx + BLOCK <= width; bx += BLOCK) {
+      const values: number[] = [];
+      let edges = 0;
+      for (let y = by; y < by + BLOCK; y++) {
+        for (let x = bx; x < bx + BLOCK; x++) {
+          const v = lum[y * width + x];
+          values.push(v);
+          if (x + 1 < bx + BLOCK && contrast(v, lum[y * width + x + 1]) > EDGE_RATIO) edges++;
+          if (y + 1 < by + BLOCK && contrast(v, lum[(y + 1) * width + x]) > EDGE_RATIO) edges++;
+        }
+      }
+      values.sort((a, b) => a - b);
+      // The 5th/95th percentiles skip anti-aliased stroke edges
+      const ratio = contrast(percentile(values, 0.05), percentile(values, 0.95));
+      if (edges / (2 * BLOCK * (BLOCK - 1)) < MIN_EDGE_SHARE || ratio < MIN_TEXT_RATIO) continue;
+      ratios.push(ratio);
+      if (ratio < MIN_LARGE_TEXT_CONTRAST) {
+        lowContrast.push({ x: bx / width, y: by / height, w: BLOCK / width, h: BLOCK / height, ratio });
+      }
+    }
+  }
+
+  const sorted = [...ratios].sort((a, b) => a - b);
+  const worstRatio = sorted.length ? sorted[0] : null;
+  const medianRatio = sorted.length ? percentile(sorted, 0.5) : null;
+  const issues: LintIssue[] = [];
+  if (lowContrast.length >= 2 && lowContrast.length / ratios.length >= MIN_FLAGGED_SHARE) {
+    issues.push({
+      severity: 'warning',
+      message: `Text contrast is as low as ${worstRatio!.toFixed(1)}:1 in ${lowContrast.length} areas; headline text needs at least ${MIN_LARGE_TEXT_CONTRAST}:1 to be readable.`
+    });
+  } else if (medianRatio !== null && medianRatio < MIN_BODY_TEXT_CONTRAST) {
+    issues.push({
+      severity: 'warning',
+      message: `Typical text contrast is ${medianRatio.toFixed(1)}:1: fine for large headlines, but small print needs ${MIN_BODY_TEXT_CONTRAST}:1.`
+    });
+  }
+  return { textBlocks: ratios.length, lowContrast, worstRatio, medianRatio, issues };
+}
+
+/**
+ * Runs the contrast analysis on a rendered graphic, downscaled to keep it fast.
+ */
+export async function checkLegibility(image: string): Promise<LegibilityReport> {
+  const img = await loadImage(image);
+  const width = Math.min(SAMPLE_WIDTH, img.width);
+  const height = Math.round(img.height * (width / img.width));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, width, height);
+  return analyzeContrast(ctx.getImageData(0, 0, width, height).data, width, height);
+}
@@ -0,0 +1,132 @@
+import { ServiceError } from './serviceErrors';
+import { loadImage, frameImage } from './imageUtils';
+
+/** Webhook images get one retry when they come back broken or fail the content check. */
+export const MAX_IMAGE_ATTEMPTS = 2;
+/** LinkedIn's upload limit for feed images. */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Anything under half the target size looks soft once scaled up
+const MIN_SIZE_SHARE = 0.5;
+const ASPECT_TOLERANCE = 0.02;
+const MIN_JPEG_QUALITY = 0.6;
+
+export type CheckId = 'format' | 'size' | 'aspect' | 'encoding' | 'text' | 'logo';
+export type CheckStatus = 'ok' | 'fixed' | 'failed' | 'skipped';
+
+export interface ImageCheck {
+  id: CheckId;
+  status: CheckStatus;
+  message: string;
+}
+
+export interface CheckedImage {
+  /** Normalised to the target frame and re-encoded for upload. */
+  image: string;
+  checks: ImageCheck[];
+  attempts: number;
+}
+
+/** What the vision model reported about a graphic. */
+export interface GraphicReview {
+  textCorrect: boolean;
+  problems: string[];
+  logoPresent: boolean;
+}
+
+export const CHECK_LABELS: Record<CheckId, string> = {
+  format: 'Format',
+  size: 'Size',
+  aspect: 'Aspect',
+  encoding: 'Upload',
+  text: 'Spelling',
+  logo: 'Logo',
+};
+
+export const failedChecks = (checks: ImageCheck[]) => checks.filter(c => c.status === 'failed');
+
+const SIGNATURES: [string, number[]][] = [
+  ['image/png', [0x89, 0x50, 0x4e, 0x47]],
+  ['image/jpeg', [0xff, 0xd8, 0xff]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38]],
+  ['image/webp', [0x52, 0x49, 0x46, 0x46]],
+];
+
+/**
+ * Identifies the image type from its first bytes; webhooks often mislabel bodies
+ * (an HTML error page sent as application/octet-stream, say).
+ */
+function sniffMime(dataUrl: string): string | null {
+  const head = atob(dataUrl.slice(dataUrl.indexOf(',') + 1, dataUrl.indexOf(',') + 17));
+  const match = SIGNATURES.find(([, bytes]) => bytes.every((b, i) => head.charCodeAt(i) === b));
+  return match ? match[0] : null;
+}
+
+const byteSize = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+/**
+ * PNG keeps flat graphics crisp and is often the smaller file for them; photographic
+ * renders compress far better as JPEG. Whichever is smaller wins, within the upload limit.
+ */
+function encodeForUpload(canvas: HTMLCanvasElement): string {
+  const png = canvas.toDataURL('image/png');
+  let quality = 0.92;
+  let jpeg = canvas.toDataURL('image/jpeg', quality);
+  while (byteSize(jpeg) > MAX_UPLOAD_BYTES && quality > MIN_JPEG_QUALITY) {
+    quality -= 0.1;
+    jpeg = canvas.toDataURL('image/jpeg', quality);
+  }
+  return byteSize(png) <= MAX_UPLOAD_BYTES && byteSize(png) <= byteSize(jpeg) ? png : jpeg;
+}
+
+/**
+ * Verifies a returned image and fits it to the target frame: rejects bodies that aren't
+ * images, flags tiny ones, pads off-ratio ones and re-encodes for upload.
+ */
+export async function normalizeImage(raw: string, frame: { width: number; height: number }, source: string): Promise<Omit<CheckedImage, 'attempts'>> {
+  const declared = raw.slice(5, raw.indexOf(';')) || 'unknown type';
+  const mime = raw.startsWith('data:') ? sniffMime(raw) : null;
+  if (!mime) throw new ServiceError('empty_image', source, `Expected an image but got ${declared}.`);
+  const img = await loadImage(raw).catch(() => {
+    throw new ServiceError('empty_image', source, `The ${mime} image could not be decoded.`);
+  });
+
+  const { width, height } = frame;
+  const checks: ImageCheck[] = [{ id: 'format', status: 'ok', message: mime.replace('image/', '').toUpperCase() }];
+  const size = `${img.width}×${img.height}`;
+  if (Math.min(img.width / width, img.height / height) < MIN_SIZE_SHARE) {
+    checks.push({ id: 'size', status: 'failed', message: `Only ${size}; upscaled to ${width}×${height} and will look soft.` });
+  } else if (img.width !== width || img.height !== height) {
+    checks.push({ id: 'size', status: 'fixed', message: `Resized from ${size} to ${width}×${height}.` });
+  } else {
+    checks.push({ id: 'size', status: 'ok', message: size });
+  }
+  const target = width / height;
+  checks.push(Math.abs(img.width / img.height - target) / target > ASPECT_TOLERANCE
+    ? { id: 'aspect', status: 'fixed', message: `Padded from ${(img.width / img.height).toFixed(2)} to ${target.toFixed(2)} (width/height).` }
+    : { id: 'aspect', status: 'ok', message: target.toFixed(2) });
+
+  const image = encodeForUpload(frameImage(img, width, height));
+  checks.push({ id: 'encoding', status: 'ok', message: `${image.slice(11, image.indexOf(';')).toUpperCase()}, ${Math.round(byteSize(image) / 1024)} KB` });
+  return { image, checks };
+}
+
+/**
+ * Turns the vision model's findings into checks. `expectsText` is false for edits,
+ * whose wording may have been changed on purpose.
+ */
+export function contentChecks(review: GraphicReview | null, expectsText: boolean): ImageCheck[] {
+  if (!review) {
+    return [{ id: 'logo', status: 'skipped', message: "Vision check unavailable." }];
+  }
+  const checks: ImageCheck[] = [];
+  if (expectsText) {
+    checks.push(review.textCorrect
+      ? { id: 'text', status: 'ok', message: "Text matches" }
+      : { id: 'text', status: 'failed', message: review.problems.join('; ') || "The headline text does not match." });
+  }
+  checks.push(review.logoPresent
+    ? { id: 'logo', status: 'ok', message: "Logo present" }
+    : { id: 'logo', status: 'failed', message: "The brand logo is missing or unreadable." });
+  return checks;
+}
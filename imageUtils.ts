@@ -0,0 +1,104 @@
+/**
+ * Loads a data URL or remote image into an HTMLImageElement.
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image could not be decoded."));
+    img.src = src;
+  });
+}
+
+/**
+ * Re-frames an image to an exact output size without cropping its content:
+ * the image is contained in the frame over a blurred, cover-scaled copy of itself.
+ */
+export async function renderRendition(src: string, width: number, height: number, type = 'image/png'): Promise<string> {
+  return frameImage(await loadImage(src), width, height).toDataURL(type, 0.92);
+}
+
+/**
+ * The canvas behind `renderRendition`, for callers that encode the result themselves.
+ */
+export function frameImage(img: HTMLImageElement, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const cover = Math.max(width / img.width, height / img.height);
+  ctx.filter = 'blur(40px) brightness(0.7)';
+  ctx.drawImage(img, (width - img.width * cover) / 2, (height - img.height * cover) / 2, img.width * cover, img.height * cover);
+  ctx.filter = 'none';
+
+  const contain = Math.min(width / img.width, height / img.height);
+  ctx.drawImage(img, (width - img.width * contain) / 2, (height - img.height * contain) / 2, img.width * contain, img.height * contain);
+  return canvas;
+}
+
+/**
+ * Small JPEG copy of an image (longest side `size` px) for lists and history records.
+ */
+export async function thumbnail(src: string, size = 160): Promise<string> {
+  const img = await loadImage(src);
+  const scale = Math.min(1, size / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+/**
+ * Returns a data URL for an image reference, fetching it first when it is remote.
+ */
+export async function urlToDataUrl(src: string): Promise<string> {
+  if (src.startsWith('data:')) return src;
+  const res = await fetch(src);
+  if (!res.ok) throw new Error(`Image fetch failed: ${res.status}`);
+  const blob = await res.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Image could not be read."));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Helper to convert Base64 Data URL to Blob
+ */
+export function dataURLtoBlob(dataurl: string): Blob {
+  const arr = dataurl.split(',');
+  const mime = arr[0].match(/:(.*?);/)![1];
+  const bstr = atob(arr[1]);
+  let n = bstr.length;
+  const u8arr = new Uint8Array(n);
+  while(n--){
+      u8arr[n] = bstr.charCodeAt(n);
+  }
+  return new Blob([u8arr], {type:mime});
+}
+
+/**
+ * Turns a white-on-black edit mask into the transparent-where-editable PNG that
+ * OpenAI-style image edit endpoints expect.
+ */
+export async function maskToAlpha(mask: string): Promise<string> {
+  const img = await loadImage(mask);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, img.width, img.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const { data } = pixels;
+    data[i + 3] = 255 - Math.round((data[i] + data[i + 1] + data[i + 2]) / 3);
+    data[i] = data[i + 1] = data[i + 2] = 0;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -1,21 +1,122 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { 
   generateSocialPost, 
   enhanceText, 
-  generateCaption,
   generateCaptionWithTone,
-  dataURLtoBlob, 
-  sendEditToWebhook 
+  translateCaption,
+  sendEditToWebhook,
+  adaptCaptionForPlatform,
+  generateAltText,
+  describeStyle,
+  PostType
 } from './geminiService';
+import {
+  ScheduledPost,
+  loadQueue,
+  schedulePost,
+  reschedulePost,
+  retryPost,
+  cancelPost,
+  dispatchPost,
+  isDue
+} from './schedulerService';
+import { ScheduleDialog, SchedulePanel } from './SchedulePanel';
+import { ImageVersion, loadVersions, recordVersion, updateVersion } from './versionService';
+import { VersionFilmstrip } from './VersionFilmstrip';
+import {
+  BrandProfile,
+  loadProfiles,
+  saveProfiles,
+  loadActiveProfileId,
+  saveActiveProfileId
+} from './brandService';
+import { BrandProfileManager } from './BrandProfileManager';
+import { PlatformId, PLATFORMS, fitCaption } from './platforms';
+import { PlatformPicker, PlatformVariants, CaptionLimitBadge } from './PlatformTargets';
+import { renderRendition } from './imageUtils';
+import { CarouselBuilder, CarouselDocument } from './CarouselBuilder';
+import { renderTemplate, TemplateLayout, TEMPLATE_LAYOUTS } from './templateRenderer';
+import { ImageEditor, EditorResult } from './ImageEditor';
+import {
+  PromptKind,
+  PromptTemplate,
+  PromptSelection,
+  loadTemplates,
+  saveTemplates,
+  loadSelection,
+  saveSelection,
+  resolveTemplate,
+  currentVersion,
+  toRef
+} from './promptService';
+import { PromptLibrary, PromptSelector } from './PromptLibrary';
+import { BatchRow, BatchContext, rowAuthor } from './batchService';
+import { BatchGenerator } from './BatchGenerator';
+import { LinkedInPreview } from './LinkedInPreview';
+import { CaptionVariants } from './CaptionVariants';
+import { CaptionLintPanel } from './CaptionLint';
+import { lintCaption } from './captionLinter';
+import { ToneProfile, loadTones, saveTones, loadSelectedToneId, saveSelectedToneId, findTone, toneByName } from './toneService';
+import { ToneManager, TonePicker } from './ToneManager';
+import { describeError, isCancelled } from './serviceErrors';
+import { ProviderSettings, loadProviderSettings, saveProviderSettings, PROVIDERS } from './providerService';
+import { ProviderSettingsDialog } from './ProviderSettings';
+import { placeholderLogo } from './mockProvider';
+import { Artifact } from './artifactService';
+import { ArtifactIngest } from './ArtifactIngest';
+import { AuthorProfile, loadAuthors, saveAuthors, loadActiveAuthorId, saveActiveAuthorId } from './authorService';
+import { AuthorManager } from './AuthorManager';
+import {
+  ReviewDraft,
+  ReviewSnapshot,
+  loadReviews,
+  saveReview,
+  syncReview,
+  createReview,
+  submitReview,
+  transitionReview,
+  recordOverride,
+  isApproved,
+  fingerprint,
+  mediaFingerprint,
+  loadActorName,
+  saveActorName
+} from './reviewService';
+import { ReviewQueue, ReviewStatusBar } from './ReviewQueue';
+import { PublishedPost, PostOrigin, loadPublished, isLive } from './analyticsService';
+import { sendPost } from './publishService';
+import { PublishedLog } from './PublishedLog';
+import { AnalyticsDashboard } from './AnalyticsDashboard';
+import { LegibilityReport, checkLegibility } from './imageLinter';
+import { AccessibilityPanel } from './AccessibilityPanel';
+import { ImageCheck, failedChecks } from './imagePipeline';
+import { ImageChecks } from './ImageChecks';
+import { CaptionLanguage, CAPTION_LANGUAGES, loadCaptionLanguage, saveCaptionLanguage } from './languageService';
+import { LanguagePicker } from './LanguagePicker';
+import { ExportDraft, copyImageToClipboard } from './exportService';
+import { ExportPanel } from './ExportPanel';
+import {
+  StyleReference,
+  StylePick,
+  MAX_STYLE_PICKS,
+  DEFAULT_STYLE_WEIGHT,
+  loadStyles,
+  updateStyle,
+  createStyle,
+  styleNameFromFile,
+  loadStylePicks,
+  saveStylePicks,
+  resolvePicks,
+  asStyles,
+  styleShares
+} from './styleService';
+import { StyleLibrary } from './StyleLibrary';
 
-const LOGO_URL = "https://res.cloudinary.com/djmakoiji/image/upload/v1765978253/Barq_Digital_Logo-removebg-preview_glejpc.png";
-const IMAGE_WEBHOOK_URL = "https://n8n.srv927950.hstgr.cloud/webhook/image-linkedin";
+const SCHEDULER_TICK_MS = 30 * 1000;
 
-type AppMode = 'image' | 'text';
-type Tone = 'Humble Brag' | 'Technical Deep Dive' | 'Storytelling' | 'Collaborative' | 'Corporate Professional';
-
-const TONES: Tone[] = ['Humble Brag', 'Technical Deep Dive', 'Storytelling', 'Collaborative', 'Corporate Professional'];
+type AppMode = 'image' | 'text' | 'carousel';
+type RenderMode = 'ai' | 'template';
 
 // Helper for debouncing
 function useDebounce<T>(value: T, delay: number): T {
@@ -27,138 +128,147 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
-const LinkedInPreview = ({ text }: { text: string }) => {
-  const [isExpanded, setIsExpanded] = useState(false);
-  const textLines = text.split('\n');
-  const previewLimit = 4;
-  const showSeeMore = textLines.length > previewLimit && !isExpanded;
+// Keeps the persisted publishing queue in state and dispatches due items while the tab is open
+function useScheduler(onDispatched: (item: ScheduledPost) => void) {
+  const [queue, setQueue] = useState<ScheduledPost[]>([]);
+  const inFlight = useRef(new Set<string>());
+  const onDispatchedRef = useRef(onDispatched);
+  onDispatchedRef.current = onDispatched;
 
-  return (
-    <div className="w-full max-w-full bg-[#1a1a1a] border border-white/10 rounded-xl overflow-hidden shadow-2xl animate-in fade-in zoom-in-95 duration-500">
-      {/* Header */}
-      <div className="p-4 flex gap-3">
-        <div className="w-12 h-12 rounded-full bg-gradient-to-br from-orange-500 to-yellow-500 flex items-center justify-center font-black text-black shrink-0">B</div>
-        <div className="min-w-0">
-          <h4 className="font-bold text-sm text-white flex items-center gap-1 truncate">Barq Digital Engineer <span className="text-gray-500 font-normal shrink-0">• 1st</span></h4>
-          <p className="text-[11px] text-gray-400 truncate">Building the future of social assets</p>
-          <p className="text-[11px] text-gray-500 flex items-center gap-1">Just now • <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.477 2 2 6.477 2 12s4.477 10 10 10 10-4.477 10-10S17.523 2 12 2zm0 18c-4.411 0-8-3.589-8-8s3.589-8 8-8 8 3.589 8 8-3.589 8-8 8z"/><path d="M12.5 7H11v6l5.25 3.15.75-1.23-4.5-2.67z"/></svg></p>
-        </div>
-      </div>
-      
-      {/* Content */}
-      <div className="px-4 pb-3 text-sm text-gray-200 leading-relaxed whitespace-pre-wrap">
-        {showSeeMore ? textLines.slice(0, previewLimit).join('\n') : text}
-        {showSeeMore && (
-          <button onClick={() => setIsExpanded(true)} className="text-gray-400 hover:text-white font-bold ml-1">...see more</button>
-        )}
-      </div>
-
-      {/* Engagement Bar */}
-      <div className="px-4 py-2 flex items-center justify-between border-t border-white/5">
-        <div className="flex -space-x-1">
-          <div className="w-5 h-5 rounded-full bg-blue-600 border border-[#1a1a1a] flex items-center justify-center text-[10px]">👍</div>
-          <div className="w-5 h-5 rounded-full bg-red-500 border border-[#1a1a1a] flex items-center justify-center text-[10px]">❤️</div>
-          <div className="w-5 h-5 rounded-full bg-green-500 border border-[#1a1a1a] flex items-center justify-center text-[10px]">💡</div>
-        </div>
-        <div className="text-[11px] text-gray-500">12 comments • 4 reposts</div>
-      </div>
-
-      <div className="px-4 py-1 flex justify-around border-t border-white/5 text-gray-400 font-bold text-xs">
-        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Like</button>
-        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Comment</button>
-        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Repost</button>
-        <button className="flex items-center gap-1 py-2 hover:bg-white/5 px-2 rounded-md">Send</button>
-      </div>
-    </div>
-  );
-};
+  const upsert = useCallback((item: ScheduledPost) => {
+    setQueue(q => [...q.filter(i => i.id !== item.id), item].sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt)));
+  }, []);
 
-const ImageEditor = ({ 
-  image, 
-  onClose, 
-  onSend 
-}: { 
-  image: string; 
-  onClose: () => void; 
-  onSend: (data: { editedImage?: string, textInstructions?: string }) => Promise<void> 
-}) => {
-  const [textInstructions, setTextInstructions] = useState("");
-  const [isSending, setIsSending] = useState(false);
-  const INTERNAL_WIDTH = 1080;
-  const INTERNAL_HEIGHT = 1350;
-
-  const handleFinalSend = async () => {
-    setIsSending(true);
-    try {
-      const exportCanvas = document.createElement('canvas');
-      exportCanvas.width = INTERNAL_WIDTH;
-      exportCanvas.height = INTERNAL_HEIGHT;
-      const ctx = exportCanvas.getContext('2d')!;
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.src = image;
-      await new Promise((res, rej) => { img.onload = res; img.onerror = rej; });
-      ctx.drawImage(img, 0, 0, INTERNAL_WIDTH, INTERNAL_HEIGHT);
-      await onSend({ editedImage: exportCanvas.toDataURL('image/png'), textInstructions: textInstructions.trim() });
-      onClose();
-    } catch (e) { console.error(e); } finally { setIsSending(false); }
-  };
+  const remove = useCallback((id: string) => setQueue(q => q.filter(i => i.id !== id)), []);
 
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/98 p-4 md:p-12 overflow-y-auto animate-in fade-in duration-300">
-      <div className="max-w-2xl w-full bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] shadow-2xl flex flex-col max-h-full overflow-hidden">
-        <div className="p-6 border-b border-white/5 flex justify-between items-center shrink-0">
-          <h2 className="text-xl font-black italic tracking-tighter text-orange-500 uppercase">Visual Editor_</h2>
-          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors uppercase text-[10px] font-black tracking-widest border border-white/5 rounded-lg">Close [Esc]</button>
-        </div>
-        
-        <div className="flex-grow p-6 overflow-y-auto space-y-6">
-          <div className="aspect-[4/5] bg-black border border-white/5 rounded-2xl overflow-hidden relative shadow-inner">
-            <img src={image} className="w-full h-full object-contain" alt="Preview" />
-          </div>
-          
-          <div className="space-y-4">
-             <div className="flex justify-between items-center">
-               <label className="text-[10px] text-gray-500 font-black uppercase tracking-widest">AI Generative Edit Prompt</label>
-               <span className="text-[9px] text-orange-500/50 font-bold uppercase tracking-tighter">Powered by Gemini Vision</span>
-             </div>
-             <input 
-               autoFocus
-               value={textInstructions} 
-               onChange={e => setTextInstructions(e.target.value)} 
-               placeholder="Example: 'Change background to dark navy blue', 'Make it look like a tech magazine'..." 
-               className="w-full bg-black border border-white/10 rounded-xl p-4 outline-none focus:border-orange-500 text-sm transition-all shadow-xl" 
-               onKeyDown={e => e.key === 'Enter' && handleFinalSend()}
-             />
-          </div>
-        </div>
-
-        <div className="p-6 border-t border-white/5 bg-[#0f0f0f] shrink-0">
-          <button 
-            onClick={handleFinalSend} 
-            disabled={isSending || !textInstructions.trim()} 
-            className="w-full py-4 bg-orange-600 text-black font-black rounded-xl hover:scale-[1.01] active:scale-[0.99] transition-all disabled:opacity-50 disabled:grayscale shadow-xl shadow-orange-900/20"
-          >
-            {isSending ? "SYNCING WITH AI..." : "APPLY GENERATIVE EDITS_"}
-          </button>
-        </div>
-      </div>
-    </div>
-  );
-};
+  useEffect(() => {
+    let cancelled = false;
+    const tick = async () => {
+      const items = await loadQueue();
+      if (cancelled) return;
+      setQueue(items);
+      for (const item of items.filter(i => isDue(i) && !inFlight.current.has(i.id))) {
+        inFlight.current.add(item.id);
+        try {
+          const updated = await dispatchPost(item);
+          if (cancelled) continue;
+          if (!updated) remove(item.id);
+          else { upsert(updated); onDispatchedRef.current(updated); }
+        } finally { inFlight.current.delete(item.id); }
+      }
+    };
+    tick().catch(e => console.error("Scheduler tick failed:", e));
+    const handle = setInterval(() => tick().catch(e => console.error("Scheduler tick failed:", e)), SCHEDULER_TICK_MS);
+    return () => { cancelled = true; clearInterval(handle); };
+  }, [upsert, remove]);
+
+  return { queue, upsert, remove };
+}
 
 const App = () => {
   const [appMode, setAppMode] = useState<AppMode>(() => (localStorage.getItem('barq_mode') as AppMode) || 'image');
   const [accomplishment, setAccomplishment] = useState("");
   const [caption, setCaption] = useState("");
-  const [styleRef, setStyleRef] = useState<string | null>(null);
+  // A reference that isn't in the library (brand default, restored version); library picks take precedence
+  const [looseStyleRef, setLooseStyleRef] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [logoBase64, setLogoBase64] = useState<string | null>(null);
   const [notification, setNotification] = useState<{msg: string, type: 'success' | 'error'} | null>(null);
-  const [selectedTone, setSelectedTone] = useState<Tone>('Corporate Professional');
+  const [tones, setTones] = useState<ToneProfile[]>(loadTones);
+  const [selectedToneId, setSelectedToneId] = useState(loadSelectedToneId);
+  const [isToneManagerOpen, setIsToneManagerOpen] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [isQueueOpen, setIsQueueOpen] = useState(false);
+  const [draftId, setDraftId] = useState(() => localStorage.getItem('barq_draft_id') || crypto.randomUUID());
+  const [versions, setVersions] = useState<ImageVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>(loadProfiles);
+  const [activeBrandId, setActiveBrandId] = useState(loadActiveProfileId);
+  const [isBrandManagerOpen, setIsBrandManagerOpen] = useState(false);
+  const brand = brandProfiles.find(p => p.id === activeBrandId) || brandProfiles[0];
+  const [targets, setTargets] = useState<PlatformId[]>(() => {
+    const stored = (localStorage.getItem('barq_targets') || 'linkedin').split(',').filter((t): t is PlatformId => t in PLATFORMS);
+    return stored.length ? stored : ['linkedin'];
+  });
+  const [renditions, setRenditions] = useState<Partial<Record<PlatformId, string>>>({});
+  const [platformCaptions, setPlatformCaptions] = useState<Partial<Record<PlatformId, string>>>({});
+  const [isAdapting, setIsAdapting] = useState(false);
+  const [carouselDoc, setCarouselDoc] = useState<CarouselDocument | null>(null);
+  const [renderMode, setRenderMode] = useState<RenderMode>(() => (localStorage.getItem('barq_render_mode') as RenderMode) || 'ai');
+  const [templateLayout, setTemplateLayout] = useState<TemplateLayout>(() => (localStorage.getItem('barq_template_layout') as TemplateLayout) || 'centered');
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [promptSelection, setPromptSelection] = useState<PromptSelection>(loadSelection);
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
+  const [batchRows, setBatchRows] = useState<BatchRow[]>([]);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isVariantsOpen, setIsVariantsOpen] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [isProviderOpen, setIsProviderOpen] = useState(false);
+  const [artifacts, setArtifacts] = useState<Artifact[]>([]);
+  const [isIngestOpen, setIsIngestOpen] = useState(false);
+  const [authors, setAuthors] = useState<AuthorProfile[]>(loadAuthors);
+  const [activeAuthorId, setActiveAuthorId] = useState(loadActiveAuthorId);
+  const [isAuthorManagerOpen, setIsAuthorManagerOpen] = useState(false);
+  const [reviews, setReviews] = useState<ReviewDraft[]>([]);
+  const [isReviewQueueOpen, setIsReviewQueueOpen] = useState(false);
+  const [reviewer, setReviewer] = useState(loadActorName);
+  const pendingSnapshot = useRef<ReviewSnapshot | null>(null);
+  const [published, setPublished] = useState<PublishedPost[]>([]);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isPublishedLogOpen, setIsPublishedLogOpen] = useState(false);
+  const [altText, setAltText] = useState("");
+  const [isDescribing, setIsDescribing] = useState(false);
+  const [legibility, setLegibility] = useState<LegibilityReport | null>(null);
+  const [imageChecks, setImageChecks] = useState<ImageCheck[]>([]);
+  const [language, setLanguage] = useState<CaptionLanguage>(loadCaptionLanguage);
+  const [isWritingCaption, setIsWritingCaption] = useState(false);
+  const [isCaptionEdited, setIsCaptionEdited] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [styleLibrary, setStyleLibrary] = useState<StyleReference[]>([]);
+  const [stylePicks, setStylePicks] = useState<StylePick[]>(loadStylePicks);
+  const [describingStyleIds, setDescribingStyleIds] = useState<string[]>([]);
+  const [isStyleLibraryOpen, setIsStyleLibraryOpen] = useState(false);
+  const author = authors.find(a => a.id === activeAuthorId) || authors[0];
+  const isOffline = providerSettings.provider === 'mock';
+  const selectedTone = findTone(tones, selectedToneId);
+  const inFlight = useRef<Record<string, AbortController>>({});
+  const review = reviews.find(r => r.id === draftId);
+  const reviewActor = reviewer || author.name;
+  const inReviewCount = reviews.filter(r => r.status === 'in_review').length;
+  const failedSendCount = published.filter(p => !isLive(p)).length;
+  const templateFor = (kind: PromptKind) => resolveTemplate(promptTemplates, promptSelection, kind);
+  const promptBody = (kind: PromptKind) => currentVersion(templateFor(kind)).body;
+  // Instagram cannot carry text-only posts, so Text Mode drops those targets; document posts are LinkedIn-only
+  const activeTargets: PlatformId[] = appMode === 'carousel' ? ['linkedin']
+    : appMode === 'image' ? targets
+    : targets.filter(t => !PLATFORMS[t].requiresImage);
+  const primaryPlatform = PLATFORMS[targets[0]];
+  // What an approval is checked against; the data URLs are hashed only when they change, not per keystroke
+  const liveMedia = useMemo(
+    () => mediaFingerprint(appMode === 'image' ? generatedImage : null, appMode === 'carousel' ? carouselDoc?.pdf : null),
+    [appMode, generatedImage, carouselDoc]
+  );
+  const liveFingerprint = useMemo(() => fingerprint({
+    caption,
+    media: liveMedia,
+    altText: appMode === 'image' ? altText.trim() : '',
+    // Unadapted networks get a trimmed copy of the LinkedIn caption, already covered above
+    targets: activeTargets.map(platform => ({ platform, caption: platform === 'linkedin' ? '' : platformCaptions[platform] || '' }))
+  }), [appMode, caption, liveMedia, altText, activeTargets.join(','), platformCaptions]);
+  const isReviewStale = !!review && review.snapshot.fingerprint !== liveFingerprint;
+  const pickedStyles = resolvePicks(stylePicks, styleLibrary);
+  const activeStyles = pickedStyles.length ? pickedStyles : asStyles(looseStyleRef);
+  // The heaviest reference stands for the blend in history, analytics and exports
+  const styleRef = activeStyles[0]?.image || null;
+
+  const { queue, upsert: upsertQueued, remove: removeQueued } = useScheduler(item => {
+    if (item.status === 'sent') setNotification({ msg: "Scheduled Post Sent", type: 'success' });
+    else if (item.status === 'failed') setNotification({ msg: "Scheduled Post Failed", type: 'error' });
+  });
+  const pendingCount = queue.filter(i => i.status === 'pending' || i.status === 'retried').length;
 
   const debouncedAccomplishment = useDebounce(accomplishment, 2000);
 
@@ -167,19 +277,123 @@ const App = () => {
   }, [appMode]);
 
   useEffect(() => {
-    fetch(LOGO_URL).then(r => r.blob()).then(b => {
+    localStorage.setItem('barq_draft_id', draftId);
+    // Restore the draft's history, resuming at whichever version was active last session
+    loadVersions(draftId).then(list => {
+      setVersions(list);
+      const savedId = localStorage.getItem('barq_current_version');
+      const current = list.find(v => v.id === savedId) || list[list.length - 1];
+      if (current) applyVersion(current);
+      // Drafts opened from the review queue resume at the content that was reviewed
+      const snapshot = pendingSnapshot.current;
+      pendingSnapshot.current = null;
+      if (snapshot) applySnapshot(snapshot, list);
+    }).catch(e => console.error("Version history unavailable:", e));
+  }, [draftId]);
+
+  useEffect(() => {
+    if (!generatedImage) { setLegibility(null); return; }
+    let stale = false;
+    checkLegibility(generatedImage)
+      .then(report => { if (!stale) setLegibility(report); })
+      .catch(e => console.error("Legibility check failed:", e));
+    return () => { stale = true; };
+  }, [generatedImage]);
+
+  // Scheduled posts are recorded by the scheduler, so the history is re-read on every open
+  useEffect(() => {
+    loadPublished().then(setPublished).catch(e => console.error("Published history unavailable:", e));
+  }, [isAnalyticsOpen, isPublishedLogOpen]);
+
+  useEffect(() => {
+    loadReviews().then(setReviews).catch(e => console.error("Reviews unavailable:", e));
+  }, []);
+
+  useEffect(() => {
+    loadStyles().then(setStyleLibrary).catch(e => console.error("Style library unavailable:", e));
+  }, []);
+
+  useEffect(() => {
+    saveStylePicks(stylePicks);
+  }, [stylePicks]);
+
+  useEffect(() => {
+    if (currentVersionId) localStorage.setItem('barq_current_version', currentVersionId);
+  }, [currentVersionId]);
+
+  useEffect(() => {
+    saveActiveProfileId(brand.id);
+  }, [brand.id]);
+
+  useEffect(() => {
+    saveActiveAuthorId(author.id);
+  }, [author.id]);
+
+  useEffect(() => {
+    localStorage.setItem('barq_targets', targets.join(','));
+  }, [targets]);
+
+  useEffect(() => {
+    saveTones(tones);
+    saveSelectedToneId(selectedTone.id);
+  }, [tones, selectedTone.id]);
+
+  useEffect(() => {
+    saveCaptionLanguage(language);
+  }, [language]);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    saveTemplates(promptTemplates);
+  }, [promptTemplates]);
+
+  useEffect(() => {
+    saveSelection(promptSelection);
+  }, [promptSelection]);
+
+  useEffect(() => {
+    localStorage.setItem('barq_render_mode', renderMode);
+    localStorage.setItem('barq_template_layout', templateLayout);
+  }, [renderMode, templateLayout]);
+
+  // Re-frame the current graphic for every selected network
+  useEffect(() => {
+    if (!generatedImage) { setRenditions({}); return; }
+    let cancelled = false;
+    Promise.all(targets.map(async id => [id, await renderRendition(generatedImage, PLATFORMS[id].width, PLATFORMS[id].height)] as const))
+      .then(entries => { if (!cancelled) setRenditions(Object.fromEntries(entries)); })
+      .catch(e => console.error("Rendition failed:", e));
+    return () => { cancelled = true; };
+  }, [generatedImage, targets]);
+
+  useEffect(() => {
+    setLogoBase64(null);
+    if (!brand.logoUrl) {
+      if (isOffline) setLogoBase64(placeholderLogo(brand));
+      else setNotification({ msg: "Set A Logo For This Brand", type: 'error' });
+      return;
+    }
+    fetch(brand.logoUrl).then(r => r.blob()).then(b => {
       const reader = new FileReader(); 
       reader.onloadend = () => setLogoBase64(reader.result as string); 
       reader.readAsDataURL(b);
+    }).catch(e => {
+      console.error("Logo fetch failed:", e);
+      // Offline demos still need a logo to composite
+      if (isOffline) setLogoBase64(placeholderLogo(brand));
+      else setNotification({ msg: "Brand Logo Unavailable", type: 'error' });
     });
-  }, []);
+  }, [brand.logoUrl, isOffline]);
 
-  // Auto-generate caption for Text Mode on change
+  // Auto-generate caption for Text Mode on change, unless it has been edited by hand
   useEffect(() => {
-    if (appMode === 'text' && debouncedAccomplishment.trim().length > 10) {
+    if (appMode === 'text' && !isCaptionEdited && debouncedAccomplishment.trim().length > 10) {
       handleAIRefineCaption();
     }
-  }, [debouncedAccomplishment, appMode, selectedTone]);
+  }, [debouncedAccomplishment, appMode, selectedTone.id, language]);
 
   const processFile = (file: File) => {
     if (!file.type.startsWith('image/')) {
@@ -187,10 +401,36 @@ const App = () => {
       return;
     }
     const reader = new FileReader();
-    reader.onloadend = () => setStyleRef(reader.result as string);
+    reader.onloadend = () => addStyleRef(reader.result as string, styleNameFromFile(file.name));
     reader.readAsDataURL(file);
   };
 
+  // New references are saved to the library and join the blend, replacing the oldest pick when it is full
+  const addStyleRef = async (image: string, name: string) => {
+    try {
+      const style = await createStyle(image, name);
+      setStyleLibrary(list => [style, ...list]);
+      setLooseStyleRef(null);
+      setStylePicks(picks => [...picks, { id: style.id, weight: DEFAULT_STYLE_WEIGHT }].slice(-MAX_STYLE_PICKS));
+      setNotification({ msg: `Style Saved: ${style.name}`, type: 'success' });
+      describeStyleRef(style);
+    } catch (e) {
+      console.error("Failed to save style:", e);
+      setNotification({ msg: "Style Not Saved", type: 'error' });
+    }
+  };
+
+  const describeStyleRef = async (style: StyleReference) => {
+    setDescribingStyleIds(ids => [...ids, style.id]);
+    try {
+      const description = await describeStyle(style.image, brand);
+      setStyleLibrary(list => list.map(s => s.id === style.id ? { ...s, description } : s));
+      await updateStyle(style.id, { description });
+    } catch (e) { notifyError(e, "Style Description Failed"); } finally {
+      setDescribingStyleIds(ids => ids.filter(id => id !== style.id));
+    }
+  };
+
   const handleStyleRef = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) processFile(file);
@@ -216,47 +456,531 @@ const App = () => {
     if (file) processFile(file);
   };
 
-  const handleRemoveStyleRef = () => {
-    setStyleRef(null);
-    setNotification({ msg: "Style Reference Cleared", type: 'success' });
+  const handleSwitchBrand = (id: string) => {
+    const next = brandProfiles.find(p => p.id === id);
+    if (!next) return;
+    setActiveBrandId(id);
+    setStylePicks([]);
+    setLooseStyleRef(next.defaultStyleRef);
+    setNotification({ msg: `Brand: ${next.name}`, type: 'success' });
+  };
+
+  const handleSaveBrands = (profiles: BrandProfile[]) => {
+    saveProfiles(profiles);
+    setBrandProfiles(profiles);
+    const active = profiles.find(p => p.id === activeBrandId) || profiles[0];
+    setActiveBrandId(active.id);
+    setNotification({ msg: "Brand Profiles Saved", type: 'success' });
+  };
+
+  const handleSwitchAuthor = (id: string) => {
+    const next = authors.find(a => a.id === id);
+    if (!next) return;
+    setActiveAuthorId(id);
+    if (next.defaultToneId && tones.some(t => t.id === next.defaultToneId)) setSelectedToneId(next.defaultToneId);
+    setNotification({ msg: `Posting As: ${next.name}`, type: 'success' });
+  };
+
+  const handleSaveAuthors = (list: AuthorProfile[]) => {
+    saveAuthors(list);
+    setAuthors(list);
+    const active = list.find(a => a.id === activeAuthorId) || list[0];
+    setActiveAuthorId(active.id);
+    setNotification({ msg: "Authors Saved", type: 'success' });
+  };
+
+  // Deselecting a library style keeps it saved for later drafts
+  const handleRemoveStyleRef = (id?: string) => {
+    if (id) setStylePicks(picks => picks.filter(p => p.id !== id));
+    setLooseStyleRef(null);
+    setNotification({ msg: id ? "Style Removed From Blend" : "Style Reference Cleared", type: 'success' });
+  };
+
+  const applyVersion = (version: ImageVersion) => {
+    setCurrentVersionId(version.id);
+    setGeneratedImage(version.image);
+    setCaption(version.caption);
+    // The blend comes back from the library; its heaviest reference stands in if those styles were deleted
+    setStylePicks(version.stylePicks || []);
+    setLooseStyleRef(version.styleRef);
+    setAccomplishment(version.prompt);
+    setAltText(version.altText || "");
+    setImageChecks(version.checks || []);
+  };
+
+  const addVersion = async (version: Omit<ImageVersion, 'id' | 'createdAt' | 'draftId' | 'parentId'>) => {
+    try {
+      const saved = await recordVersion({ ...version, tone: selectedTone.name, stylePicks: pickedStyles.length ? stylePicks : undefined, draftId, parentId: currentVersionId });
+      setVersions(vs => [...vs, saved]);
+      setCurrentVersionId(saved.id);
+      return saved;
+    } catch (e) { console.error("Failed to record version:", e); }
+  };
+
+  // Keeps the alt text with its version, so reverting brings the matching description back
+  const saveAltText = (versionId: string | null | undefined, text: string) => {
+    const version = versions.find(v => v.id === versionId);
+    if (!version || version.altText === text) return;
+    const updated = { ...version, altText: text };
+    setVersions(vs => vs.map(v => v.id === updated.id ? updated : v));
+    updateVersion(updated).catch(e => console.error("Failed to save alt text:", e));
+  };
+
+  const describeImage = async (image: string, version?: ImageVersion) => {
+    const signal = supersede('altText');
+    setAltText("");
+    setIsDescribing(true);
+    try {
+      const text = await generateAltText(image, accomplishment, brand, { signal });
+      setAltText(text);
+      if (version) {
+        setVersions(vs => vs.map(v => v.id === version.id ? { ...v, altText: text } : v));
+        updateVersion({ ...version, altText: text }).catch(e => console.error("Failed to save alt text:", e));
+      }
+    } catch (e) { notifyError(e, "Alt Text Failed"); } finally { if (!signal.aborted) setIsDescribing(false); }
+  };
+
+  const handleNewDraft = () => {
+    setDraftId(crypto.randomUUID());
+    setVersions([]);
+    setCurrentVersionId(null);
+    setGeneratedImage(null);
+    setAccomplishment("");
+    setCaption("");
+    setAltText("");
+    setImageChecks([]);
+    setIsCaptionEdited(false);
+    setPlatformCaptions({});
+    localStorage.removeItem('barq_current_version');
+  };
+
+  const applySnapshot = (snapshot: ReviewSnapshot, list: ImageVersion[]) => {
+    setCurrentVersionId(list.some(v => v.id === snapshot.versionId) ? snapshot.versionId! : null);
+    setAccomplishment(snapshot.accomplishment);
+    setCaption(snapshot.caption);
+    // A reviewed caption must not be replaced by the Text Mode auto-refresh
+    setIsCaptionEdited(true);
+    setPlatformCaptions({});
+    if (snapshot.mode === 'image') setGeneratedImage(snapshot.image);
+  };
+
+  const handleBranchFromVersion = (version: ImageVersion) => {
+    applyVersion(version);
+    setIsEditorOpen(true);
+  };
+
+  const renderQuickTemplate = () => renderTemplate({
+    text: accomplishment,
+    logoBase64,
+    colors: brand.colors,
+    layout: templateLayout,
+    width: primaryPlatform.width,
+    height: primaryPlatform.height
+  });
+
+  // Starting a request of the same kind cancels the one it supersedes
+  const supersede = (key: string): AbortSignal => {
+    inFlight.current[key]?.abort();
+    const controller = new AbortController();
+    inFlight.current[key] = controller;
+    return controller.signal;
+  };
+
+  const notifyError = (e: unknown, fallback: string) => {
+    if (isCancelled(e)) return;
+    console.error(fallback, e);
+    setNotification({ msg: describeError(e, fallback), type: 'error' });
+  };
+
+  const handlePolish = async () => {
+    try {
+      setAccomplishment(await enhanceText(accomplishment, brand, promptBody('polish'), { signal: supersede('polish') }));
+    } catch (e) { notifyError(e, "Polish Failed"); }
+  };
+
+  const handleEditorSend = async (data: EditorResult) => {
+    if (!generatedImage) return;
+    if (data.mode === 'manual') {
+      setGeneratedImage(data.editedImage);
+      setImageChecks([]);
+      const saved = await addVersion({ kind: 'edit', image: data.editedImage, prompt: accomplishment, editInstructions: "Manual edit", styleRef, caption });
+      describeImage(data.editedImage, saved);
+      setNotification({ msg: "Manual Edit Applied", type: 'success' });
+      return;
+    }
+    setLoading(true);
+    try {
+      const { image: res, checks } = await sendEditToWebhook({
+        originalImage: generatedImage,
+        editedImage: data.editedImage,
+        mask: data.maskImage,
+        prompt: data.textInstructions || "Edit",
+        type: 'visual'
+      }, brand, primaryPlatform, { signal: supersede('edit') });
+      setGeneratedImage(res);
+      setImageChecks(checks);
+      const saved = await addVersion({ kind: 'edit', image: res, prompt: accomplishment, editInstructions: data.textInstructions, styleRef, caption, checks });
+      describeImage(res, saved);
+      const failed = failedChecks(checks);
+      setNotification(failed.length
+        ? { msg: `Image Flagged: ${failed[0].message}`, type: 'error' }
+        : { msg: "AI Edit Complete", type: 'success' });
+    } catch (e) {
+      notifyError(e, "AI Edit Failed");
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleGenerate = async () => {
-    if (!accomplishment || !logoBase64) return;
-    setLoading(true); setGeneratedImage(null);
+    if (!accomplishment) return;
+    const imageKind: PromptKind = styleRef ? 'image_styled' : 'image';
+    const signal = supersede('generate');
+    // Claimed up front: typing, Stop_ or a refine while the graphic renders takes the caption over
+    const captionSignal = supersede('caption');
+    setIsWritingCaption(false);
+    setLoading(true);
     try { 
-      const res = await generateSocialPost(accomplishment, logoBase64, styleRef); 
+      let res: string;
+      let checks: ImageCheck[] = [];
+      let fellBack: string | null = null;
+      if (renderMode === 'template') {
+        res = await renderQuickTemplate();
+      } else {
+        try {
+          if (!logoBase64) throw new Error("Brand logo not loaded.");
+          ({ image: res, checks } = await generateSocialPost(accomplishment, logoBase64, activeStyles, brand, primaryPlatform, promptBody(imageKind), { signal }));
+        } catch (e) {
+          if (isCancelled(e)) throw e;
+          // Keep shipping when the image webhook is down: compose the graphic locally instead
+          console.error("Image webhook failed, using Quick Template:", e);
+          res = await renderQuickTemplate();
+          fellBack = describeError(e);
+        }
+      }
       setGeneratedImage(res);
-      setNotification({ msg: "Graphic Forged Successfully", type: 'success' });
-      const aiCaption = await generateCaption(accomplishment);
-      setCaption(aiCaption);
-    } catch (e) { setNotification({ msg: "Engine Failure", type: 'error' }); } finally { setLoading(false); }
+      setImageChecks(checks);
+      const failed = failedChecks(checks);
+      setNotification(fellBack
+        ? { msg: `${fellBack} — Quick Template Used`, type: 'error' }
+        : failed.length
+          ? { msg: `Image Flagged: ${failed[0].message}`, type: 'error' }
+          : { msg: "Graphic Forged Successfully", type: 'success' });
+      // The graphic goes into history first, so a failed caption doesn't lose it
+      let saved = await addVersion({
+        kind: 'generate',
+        image: res,
+        prompt: accomplishment,
+        styleRef,
+        caption,
+        checks,
+        templates: renderMode === 'ai' && !fellBack ? { [imageKind]: toRef(templateFor(imageKind)) } : {}
+      });
+      if (!captionSignal.aborted) {
+        setIsWritingCaption(true);
+        try {
+          const aiCaption = await generateCaptionWithTone(accomplishment, selectedTone, brand, author, language, promptBody('caption'), {
+            signal: captionSignal,
+            onText: text => { if (!captionSignal.aborted) setCaption(text); }
+          });
+          if (!captionSignal.aborted) {
+            setCaption(aiCaption);
+            if (saved) {
+              const updated: ImageVersion = { ...saved, caption: aiCaption, templates: { ...saved.templates, caption: toRef(templateFor('caption')) } };
+              saved = updated;
+              setVersions(vs => vs.map(v => v.id === updated.id ? updated : v));
+              updateVersion(updated).catch(e => console.error("Failed to save caption:", e));
+            }
+          }
+        } catch (e) { notifyError(e, "Caption Failed"); } finally { if (!captionSignal.aborted) setIsWritingCaption(false); }
+      }
+      if (!signal.aborted) describeImage(res, saved);
+    } catch (e) { notifyError(e, "Engine Failure"); } finally { if (!signal.aborted) setLoading(false); }
   };
 
   const handleAIRefineCaption = async () => {
     if (!accomplishment) return;
-    setLoading(true);
+    const signal = supersede('caption');
+    setIsWritingCaption(true);
+    setIsCaptionEdited(false);
     try {
-      const newCaption = await generateCaptionWithTone(accomplishment, selectedTone);
+      const newCaption = await generateCaptionWithTone(accomplishment, selectedTone, brand, author, language, promptBody('caption'), {
+        signal,
+        onText: text => { if (!signal.aborted) setCaption(text); }
+      });
+      // Typed-over or superseded after the last chunk: the newer text wins
+      if (signal.aborted) return;
       setCaption(newCaption);
-      setNotification({ msg: `Narrative Refined: ${selectedTone}`, type: 'success' });
-    } catch (e) { setNotification({ msg: "Caption refinement failed", type: 'error' }); } finally { setLoading(false); }
+      setNotification({ msg: `Narrative Refined: ${selectedTone.name}`, type: 'success' });
+    } catch (e) { notifyError(e, "Caption Refinement Failed"); } finally { if (!signal.aborted) setIsWritingCaption(false); }
+  };
+
+  const handleTranslateCaption = async () => {
+    if (!caption) return;
+    const signal = supersede('caption');
+    setIsWritingCaption(true);
+    try {
+      const translated = await translateCaption(caption, language, brand, { signal });
+      if (signal.aborted) return;
+      setCaption(translated);
+      setNotification({ msg: `Caption Translated: ${CAPTION_LANGUAGES.find(l => l.id === language)!.label}`, type: 'success' });
+    } catch (e) { notifyError(e, "Translation Failed"); } finally { if (!signal.aborted) setIsWritingCaption(false); }
+  };
+
+  const stopCaption = () => {
+    inFlight.current.caption?.abort();
+    setIsWritingCaption(false);
+  };
+
+  // Typing takes over from the model: the running (or claimed) request stops and auto-refresh pauses
+  const editCaption = (text: string) => {
+    stopCaption();
+    setIsCaptionEdited(true);
+    setCaption(text);
+  };
+
+  const handleAdaptCaptions = async () => {
+    if (!caption) return;
+    setIsAdapting(true);
+    try {
+      const signal = supersede('adapt');
+      const others = activeTargets.filter(t => t !== 'linkedin');
+      const results = await Promise.allSettled(others.map(id => adaptCaptionForPlatform(caption, PLATFORMS[id], brand, { signal })));
+      if (signal.aborted) return;
+      // Networks whose rewrite failed still get a hard-trimmed copy of the LinkedIn caption
+      setPlatformCaptions(Object.fromEntries(others.map((id, i) => {
+        const result = results[i];
+        return [id, result.status === 'fulfilled' ? result.value : fitCaption(caption, PLATFORMS[id], brand.mandatoryHashtags)];
+      })));
+      const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failure) notifyError(failure.reason, "Caption Adaptation Failed");
+      else setNotification({ msg: "Captions Adapted", type: 'success' });
+    } finally { setIsAdapting(false); }
+  };
+
+  // One payload per target network, each with its own rendition and caption
+  const buildPosts = () => activeTargets.map(platform => {
+    const type: PostType = appMode === 'image' ? 'image' : appMode === 'carousel' ? 'document' : 'text_only';
+    const text = platform === 'linkedin' ? caption : platformCaptions[platform] || fitCaption(caption, PLATFORMS[platform], brand.mandatoryHashtags);
+    return {
+      platform,
+      type,
+      caption: text,
+      image: type === 'image' ? renditions[platform] || generatedImage : null,
+      altText: type === 'image' ? altText.trim() : undefined,
+      document: type === 'document' && carouselDoc ? carouselDoc : undefined
+    };
+  });
+
+  const postOrigin = (): PostOrigin => ({
+    toneId: selectedTone.id,
+    toneName: selectedTone.name,
+    styleRef: appMode === 'text' ? null : styleRef
+  });
+
+  // Lint errors block posting to LinkedIn; warnings need an explicit go-ahead
+  const confirmCaption = () => {
+    if (!activeTargets.includes('linkedin')) return true;
+    const issues = lintCaption(caption, brand.mandatoryHashtags);
+    const errors = issues.filter(i => i.severity === 'error');
+    if (errors.length) {
+      setNotification({ msg: `Caption Blocked: ${errors[0].message}`, type: 'error' });
+      return false;
+    }
+    return !issues.length || window.confirm(`Post anyway?\n\n${issues.map(i => `• ${i.message}`).join('\n')}`);
+  };
+
+  const buildSnapshot = (): ReviewSnapshot => ({
+    mode: appMode,
+    accomplishment,
+    caption,
+    image: appMode === 'image' ? generatedImage : null,
+    documentTitle: appMode === 'carousel' ? carouselDoc?.title : undefined,
+    versionId: appMode === 'image' ? currentVersionId : null,
+    fingerprint: liveFingerprint
+  });
+
+  // Reviews live locally; the brand's review webhook, when set, gets a copy of every change
+  const persistReview = async (next: ReviewDraft) => {
+    setReviews(list => [next, ...list.filter(r => r.id !== next.id)]);
+    try {
+      await saveReview(next);
+    } catch (e) { return notifyError(e, "Review Save Failed"); }
+    syncReview(next, brandProfiles.find(p => p.id === next.brandId) || brand).catch(e => notifyError(e, "Review Sync Failed"));
+  };
+
+  const handleSubmitReview = () => {
+    const snapshot = buildSnapshot();
+    const base = review || createReview(draftId, snapshot, { brandId: brand.id, authorId: author.id }, reviewActor);
+    persistReview(submitReview(base, snapshot, reviewActor));
+    setNotification({ msg: "Submitted For Review", type: 'success' });
+  };
+
+  // Anything not approved as-is only goes out with a reason, which lands in the audit trail
+  const ensureApproved = (action: 'publish' | 'schedule') => {
+    if (review && isApproved(review, liveFingerprint)) return true;
+    const state = !review ? "has not been reviewed" : isReviewStale ? "changed since it was reviewed" : `is ${review.status.replace('_', ' ')}`;
+    const reason = window.prompt(`This draft ${state}. To ${action} it anyway, give a reason for the audit trail:`);
+    if (!reason?.trim()) {
+      setNotification({ msg: "Blocked: Draft Not Approved", type: 'error' });
+      return false;
+    }
+    const base = review || createReview(draftId, buildSnapshot(), { brandId: brand.id, authorId: author.id }, reviewActor);
+    persistReview(recordOverride(base, reviewActor, action, reason.trim()));
+    return true;
+  };
+
+  const handleOpenReviewDraft = (r: ReviewDraft) => {
+    setIsReviewQueueOpen(false);
+    setAppMode(r.snapshot.mode);
+    if (r.id === draftId) return;
+    pendingSnapshot.current = r.snapshot;
+    setDraftId(r.id);
+  };
+
+  // Missing alt text and weak text contrast don't block posting, but need a go-ahead
+  const confirmImage = () => {
+    if (appMode !== 'image') return true;
+    const warnings = [
+      ...(altText.trim() ? [] : ["The image has no alt text for screen reader users."]),
+      ...(legibility?.issues.map(i => i.message) || []),
+      ...failedChecks(imageChecks).map(c => c.message)
+    ];
+    return !warnings.length || window.confirm(`Post anyway?\n\n${warnings.map(w => `• ${w}`).join('\n')}`);
+  };
+
+  // Text Mode drops image-only networks, which can leave nothing to send to
+  const ensureTargets = () => {
+    if (activeTargets.length) return true;
+    setNotification({ msg: "No Selected Network Takes Text-Only Posts", type: 'error' });
+    return false;
+  };
+
+  // New brands start without endpoints; catch that before a post is queued that can never go out
+  const ensurePublishWebhook = () => {
+    if (brand.webhooks.publish) return true;
+    setNotification({ msg: `Set ${brand.name}'s Posting Webhook First`, type: 'error' });
+    return false;
+  };
+
+  const openSchedule = () => {
+    if (ensureTargets() && ensurePublishWebhook() && confirmCaption() && confirmImage() && ensureApproved('schedule')) setIsScheduleOpen(true);
   };
 
   const handlePostToLinkedIn = async () => {
     if (appMode === 'image' && !generatedImage) return;
+    if (appMode === 'carousel' && !carouselDoc) return;
+    if (!ensureTargets() || !ensurePublishWebhook() || !confirmCaption() || !confirmImage() || !ensureApproved('publish')) return;
+    const approved = review && isApproved(review, liveFingerprint) ? review : null;
     setLoading(true);
     try {
-      const formData = new FormData();
-      if (appMode === 'image' && generatedImage) {
-        formData.append('file', dataURLtoBlob(generatedImage), 'barq_post.png');
+      const posts = buildPosts();
+      const origin = postOrigin();
+      // Every send is logged, failures included, so they can be retried from Published_
+      const sends = await Promise.all(posts.map(post => sendPost(post, brand, author, origin)));
+      setPublished(list => [...sends.flatMap(s => s.entry ? [s.entry] : []), ...list]);
+      const failed = posts.filter((_, i) => sends[i].error);
+      if (!failed.length) {
+        setNotification({ msg: "Broadcast Successful", type: 'success' });
+        if (approved) persistReview(transitionReview(approved, 'published', reviewActor));
+      } else setNotification({ msg: `${failed.map(p => PLATFORMS[p.platform].label).join(', ')} Failed — ${sends.find(s => s.error)!.error} (Retry in Published_)`, type: 'error' });
+    } finally { setLoading(false); }
+  };
+
+  const handleSchedule = async (scheduledAt: string, timeZone: string) => {
+    if (!ensureTargets()) return;
+    try {
+      for (const post of buildPosts()) {
+        upsertQueued(await schedulePost({ ...post, brandId: brand.id, authorId: author.id, origin: postOrigin() }, scheduledAt, timeZone));
       }
-      formData.append('caption', caption);
-      formData.append('type', appMode === 'image' ? 'image' : 'text_only');
-      const response = await fetch(IMAGE_WEBHOOK_URL, { method: 'POST', body: formData });
-      if (response.ok) setNotification({ msg: "Broadcast Successful", type: 'success' });
-      else throw new Error();
-    } catch (e) { setNotification({ msg: "Network Error", type: 'error' }); } finally { setLoading(false); }
+      setNotification({ msg: "Post Queued", type: 'success' });
+    } catch (e) { setNotification({ msg: "Queue Write Failed", type: 'error' }); }
+  };
+
+  const batchContext: BatchContext | null = logoBase64 ? {
+    brand,
+    logoBase64,
+    platform: primaryPlatform,
+    layout: templateLayout,
+    tones,
+    authors,
+    author,
+    language,
+    prompts: { image: promptBody('image'), imageStyled: promptBody('image_styled'), caption: promptBody('caption'), polish: promptBody('polish') }
+  } : null;
+
+  // Batch rows never pass through review, so queueing them is an override, audited per row
+  const ensureBatchApproved = (rows: BatchRow[]) => {
+    const reason = window.prompt(`${rows.length} batch post${rows.length === 1 ? " has" : "s have"} not been reviewed. To schedule them anyway, give a reason for the audit trail:`);
+    if (!reason?.trim()) {
+      setNotification({ msg: "Blocked: Batch Not Approved", type: 'error' });
+      return false;
+    }
+    for (const row of rows) {
+      const caption = fitCaption(row.caption, primaryPlatform, brand.mandatoryHashtags);
+      const snapshot: ReviewSnapshot = {
+        mode: 'image',
+        accomplishment: row.accomplishment,
+        caption,
+        image: row.image,
+        fingerprint: fingerprint({ caption, media: mediaFingerprint(row.image), altText: row.altText, targets: [{ platform: primaryPlatform.id, caption }] })
+      };
+      const base = createReview(row.id, snapshot, { brandId: brand.id, authorId: rowAuthor(row, { authors, author }).id }, reviewActor);
+      persistReview(recordOverride(base, reviewActor, 'schedule', reason.trim()));
+    }
+    return true;
+  };
+
+  // Approved batch rows go out to the primary network, spaced from the chosen start time; resolves with the ids queued
+  const handleQueueBatch = async (rows: BatchRow[], scheduledAt: string, timeZone: string, spacingHours: number) => {
+    if (!ensurePublishWebhook() || !ensureBatchApproved(rows)) return [];
+    const queued: string[] = [];
+    try {
+      for (const [i, row] of rows.entries()) {
+        const at = new Date(new Date(scheduledAt).getTime() + i * spacingHours * 60 * 60 * 1000).toISOString();
+        upsertQueued(await schedulePost({
+          platform: primaryPlatform.id,
+          type: 'image',
+          caption: fitCaption(row.caption, primaryPlatform, brand.mandatoryHashtags),
+          image: row.image,
+          altText: row.altText,
+          brandId: brand.id,
+          authorId: rowAuthor(row, { authors, author }).id,
+          origin: { toneId: toneByName(tones, row.tone).id, toneName: row.tone, styleRef: row.styleRef || null }
+        }, at, timeZone));
+        queued.push(row.id);
+      }
+      setNotification({ msg: `${rows.length} Posts Queued`, type: 'success' });
+    } catch (e) {
+      setNotification({ msg: `Queue Write Failed — ${queued.length} of ${rows.length} Queued`, type: 'error' });
+    }
+    return queued;
+  };
+
+  const publishLabel = appMode === 'carousel' ? "POST CAROUSEL TO LINKEDIN" : !activeTargets.length ? "NO NETWORK FOR THIS POST"
+    : activeTargets.length === 1 && activeTargets[0] === 'linkedin'
+    ? null
+    : `PUBLISH TO ${activeTargets.map(t => PLATFORMS[t].label).join(' + ').toUpperCase()}`;
+
+  const handleReschedule = async (item: ScheduledPost, scheduledAt: string, timeZone: string) => {
+    try {
+      upsertQueued(await reschedulePost(item, scheduledAt, timeZone));
+      setNotification({ msg: "Post Rescheduled", type: 'success' });
+    } catch (e) { setNotification({ msg: "Queue Write Failed", type: 'error' }); }
+  };
+
+  const handleRetry = async (item: ScheduledPost) => {
+    try {
+      upsertQueued(await retryPost(item));
+    } catch (e) { setNotification({ msg: "Queue Write Failed", type: 'error' }); }
+  };
+
+  const handleCancelScheduled = async (item: ScheduledPost) => {
+    try {
+      await cancelPost(item.id);
+      removeQueued(item.id);
+      setNotification({ msg: "Scheduled Post Cancelled", type: 'success' });
+    } catch (e) { setNotification({ msg: "Queue Write Failed", type: 'error' }); }
   };
 
   const handleCopy = (text: string) => {
@@ -264,6 +988,29 @@ const App = () => {
     setNotification({ msg: "Copied to Clipboard", type: 'success' });
   };
 
+  const handleCopyImage = async (image: string) => {
+    try {
+      await copyImageToClipboard(image);
+      setNotification({ msg: "Image Copied to Clipboard", type: 'success' });
+    } catch (e) {
+      setNotification({ msg: e instanceof Error ? e.message : "Copy Failed", type: 'error' });
+    }
+  };
+
+  // The editor's live state, which may be newer than the draft's last saved version
+  const currentExport = (): ExportDraft => ({
+    id: draftId,
+    prompt: accomplishment,
+    caption,
+    altText: appMode === 'image' ? altText : '',
+    image: appMode === 'image' ? generatedImage : null,
+    styleRef: appMode === 'image' ? styleRef : null,
+    tone: selectedTone.name,
+    templates: versions.find(v => v.id === currentVersionId)?.templates,
+    createdAt: versions[0]?.createdAt || new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  });
+
   return (
     <div className="min-h-screen bg-[#050505] text-white selection:bg-orange-500/30 font-['DM_Sans'] overflow-x-hidden transition-colors duration-700 pb-20">
       <div className={`fixed top-[-10%] left-[-10%] w-[40%] h-[40%] blur-[120px] rounded-full pointer-events-none transition-colors duration-700 ${appMode === 'image' ? 'bg-orange-600/10' : 'bg-yellow-600/10'}`} />
@@ -275,9 +1022,52 @@ const App = () => {
             <span className="text-2xl font-black tracking-tighter uppercase italic">Barq<span className={appMode === 'image' ? 'text-orange-500' : 'text-yellow-500'}>.</span>Digital</span>
          </div>
 
+         <div className="flex items-center gap-3 shrink-0">
+         <div className="flex items-center bg-black/50 rounded-xl border border-white/10">
+           <select
+             value={brand.id}
+             onChange={e => handleSwitchBrand(e.target.value)}
+             className="bg-transparent pl-4 py-3 text-[10px] font-black uppercase tracking-widest text-gray-300 outline-none max-w-[160px]"
+             title="Active brand profile"
+           >
+             {brandProfiles.map(p => <option key={p.id} value={p.id} className="bg-black">{p.name}</option>)}
+           </select>
+           <button onClick={() => setIsBrandManagerOpen(true)} className="px-3 py-3 text-[10px] font-black uppercase text-gray-500 hover:text-white" title="Manage brand profiles">Edit_</button>
+         </div>
+         <div className="flex items-center bg-black/50 rounded-xl border border-white/10">
+           <select
+             value={author.id}
+             onChange={e => handleSwitchAuthor(e.target.value)}
+             className="bg-transparent pl-4 py-3 text-[10px] font-black uppercase tracking-widest text-gray-300 outline-none max-w-[160px]"
+             title="Publish as"
+           >
+             {authors.map(a => <option key={a.id} value={a.id} className="bg-black">{a.name}</option>)}
+           </select>
+           <button onClick={() => setIsAuthorManagerOpen(true)} className="px-3 py-3 text-[10px] font-black uppercase text-gray-500 hover:text-white" title="Manage authors">Edit_</button>
+         </div>
+         <button onClick={() => setIsBatchOpen(true)} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all">
+           Batch_{batchRows.length > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-white/10 text-white">{batchRows.length}</span>}
+         </button>
+         <button onClick={() => setIsPromptLibraryOpen(true)} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all">Prompts_</button>
+         <button onClick={() => setIsProviderOpen(true)} title={`AI provider: ${PROVIDERS[providerSettings.provider].label}`} className={`px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border transition-all ${isOffline ? 'border-orange-500/40 text-orange-400' : 'border-white/10 text-gray-400 hover:text-white'}`}>
+           {isOffline ? "Offline_" : "AI_"}
+         </button>
+         <button onClick={() => setIsAnalyticsOpen(true)} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all">Insights_</button>
+         <button onClick={() => setIsPublishedLogOpen(true)} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all">
+           Published_{failedSendCount > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-red-600 text-white">{failedSendCount}</span>}
+         </button>
+         <button onClick={() => setIsExportOpen(true)} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all">Export_</button>
+         <button onClick={() => setIsReviewQueueOpen(true)} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all">
+           Reviews_{inReviewCount > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-orange-600 text-black">{inReviewCount}</span>}
+         </button>
+         <button onClick={() => setIsQueueOpen(true)} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest rounded-xl border border-white/10 text-gray-400 hover:text-white transition-all">
+           Queue_{pendingCount > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-orange-600 text-black">{pendingCount}</span>}
+         </button>
          <div className="flex bg-black/50 p-1 rounded-xl border border-white/10 shrink-0">
            <button onClick={() => setAppMode('image')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${appMode === 'image' ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>Image Mode_</button>
            <button onClick={() => setAppMode('text')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${appMode === 'text' ? 'bg-yellow-600 text-black' : 'text-gray-500 hover:text-white'}`}>Text Mode_</button>
+           <button onClick={() => setAppMode('carousel')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${appMode === 'carousel' ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>Carousel_</button>
+         </div>
          </div>
 
          {notification && (
@@ -293,16 +1083,20 @@ const App = () => {
             <div className="space-y-8 animate-in slide-in-from-left duration-500">
                <section className="space-y-4">
                   <h2 className="text-5xl font-black italic tracking-tighter leading-none uppercase">Forge Your<br/><span className="text-orange-600">Visuals_</span></h2>
-                  <p className="text-gray-500 text-lg max-w-md">Professional engineering assets created instantly.</p>
+                  <div className="flex justify-between items-end gap-4">
+                    <p className="text-gray-500 text-lg max-w-md">Professional engineering assets created instantly.</p>
+                    <button onClick={handleNewDraft} className="shrink-0 text-[10px] font-black text-gray-500 hover:text-white uppercase tracking-widest">New Draft_</button>
+                  </div>
                </section>
 
                <div className="space-y-6 bg-[#0a0a0a] p-8 rounded-[2.5rem] border border-white/5 shadow-2xl">
                   <div className="space-y-4">
                      <div className="flex justify-between items-center">
                         <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Accomplishments</label>
-                        <button onClick={() => enhanceText(accomplishment).then(setAccomplishment)} className="text-[10px] font-black text-orange-500 hover:text-orange-400 transition-colors">POLISH_</button>
+                        <button onClick={handlePolish} className="text-[10px] font-black text-orange-500 hover:text-orange-400 transition-colors">POLISH_</button>
                      </div>
                      <textarea 
+                       dir="auto"
                        value={accomplishment} 
                        onChange={e => setAccomplishment(e.target.value)} 
                        placeholder="What did you ship? e.g., 'Reduced Latency by 30%'" 
@@ -310,22 +1104,27 @@ const App = () => {
                      />
                   </div>
                   <div className="space-y-4">
-                     <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Style Match (Drag & Drop Ref)</label>
+                     <div className="flex justify-between items-center">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Style Match (Drag & Drop Ref)</label>
+                        <button onClick={() => setIsStyleLibraryOpen(true)} className="text-[10px] font-black text-orange-500 hover:text-orange-400 transition-colors">LIBRARY_ ({styleLibrary.length})</button>
+                     </div>
                      <div className="flex gap-4 items-center h-28">
-                       {styleRef ? (
-                         <div className="relative w-28 h-28 rounded-2xl overflow-hidden border border-orange-500 group animate-in zoom-in-95">
-                           <img src={styleRef} className="w-full h-full object-cover" alt="Style Ref" />
+                       {activeStyles.map((style, i) => (
+                         <div key={style.id || 'loose'} className="relative w-28 h-28 shrink-0 rounded-2xl overflow-hidden border border-orange-500 group animate-in zoom-in-95">
+                           <img src={style.image} className="w-full h-full object-cover" alt={style.name} />
+                           {activeStyles.length > 1 && <span className="absolute bottom-1 left-1 bg-orange-600 text-black text-[9px] font-black px-2 py-0.5 rounded-full">{styleShares(activeStyles)[i]}%</span>}
                            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                              <button 
-                               onClick={handleRemoveStyleRef}
+                               onClick={() => handleRemoveStyleRef(style.id || undefined)}
                                className="bg-red-600 text-white rounded-full p-2 hover:scale-110 transition-transform shadow-xl"
-                               title="Remove Style Reference"
+                               title={style.id ? "Remove From Blend (Stays in Library)" : "Remove Style Reference"}
                              >
                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
                              </button>
                            </div>
                          </div>
-                       ) : (
+                       ))}
+                       {activeStyles.length < MAX_STYLE_PICKS && (
                          <div 
                            onDragOver={handleDragOver}
                            onDragLeave={handleDragLeave}
@@ -335,19 +1134,64 @@ const App = () => {
                             <input type="file" className="absolute inset-0 opacity-0 cursor-pointer" accept="image/*" onChange={handleStyleRef} />
                             <div className="text-center">
                               <span className={`text-xs font-bold uppercase transition-colors ${isDragging ? 'text-orange-500' : 'text-gray-500 group-hover:text-orange-500'}`}>
-                                {isDragging ? "DROP IMAGE NOW_" : "DRAG & DROP STYLE REF_"}
+                                {isDragging ? "DROP IMAGE NOW_" : pickedStyles.length ? "ADD TO BLEND_" : "DRAG & DROP STYLE REF_"}
                               </span>
-                              <p className="text-[8px] text-gray-600 uppercase mt-1 tracking-widest">or click to browse</p>
+                              <p className="text-[8px] text-gray-600 uppercase mt-1 tracking-widest">or click to browse • saved to library</p>
                             </div>
                          </div>
                        )}
-                       {styleRef && (
-                         <div className="flex-grow flex flex-col justify-center">
-                           <span className="text-[10px] font-black text-orange-500 uppercase tracking-widest">Active Reference_</span>
-                           <p className="text-[9px] text-gray-500 uppercase mt-1">AI will replicate this aesthetic exactly.</p>
-                         </div>
-                       )}
                      </div>
+                     {activeStyles.length > 0 && (
+                       <div className="flex justify-between items-center gap-4">
+                         <p className="text-[9px] text-gray-500 uppercase">
+                           <span className="font-black text-orange-500 tracking-widest">{activeStyles.length > 1 ? "Active Blend_" : "Active Reference_"}</span>{' '}
+                           {activeStyles.length > 1 ? "AI will mix these by weight; tune weights in the library." : "AI will replicate this aesthetic exactly."}
+                         </p>
+                         {!pickedStyles.length && looseStyleRef && (
+                           <button onClick={() => addStyleRef(looseStyleRef, `${brand.name} reference`)} className="shrink-0 text-[10px] font-black text-gray-400 hover:text-white uppercase">Save to Library_</button>
+                         )}
+                       </div>
+                     )}
+                  </div>
+                  <div className="space-y-4">
+                     <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Target Networks (first sets the master format)</label>
+                     <PlatformPicker selected={targets} onChange={setTargets} />
+                  </div>
+                  <div className="space-y-4">
+                     <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Render Engine</label>
+                     <div className="flex flex-wrap gap-2 items-center">
+                       <div className="flex bg-black/50 p-1 rounded-xl border border-white/10">
+                         <button onClick={() => setRenderMode('ai')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${renderMode === 'ai' ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>AI Forge</button>
+                         <button onClick={() => setRenderMode('template')} className={`px-4 py-2 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all ${renderMode === 'template' ? 'bg-orange-600 text-black' : 'text-gray-500 hover:text-white'}`}>Quick Template</button>
+                       </div>
+                       {TEMPLATE_LAYOUTS.map(l => (
+                         <button
+                           key={l.id}
+                           onClick={() => setTemplateLayout(l.id)}
+                           className={`px-3 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all border ${templateLayout === l.id ? 'bg-white text-black border-white' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
+                         >
+                           {l.label}
+                         </button>
+                       ))}
+                     </div>
+                     <p className="text-[9px] text-gray-600 uppercase tracking-widest">
+                       {renderMode === 'ai' ? "Layout is used as the offline fallback if the image webhook fails." : "Rendered locally in your browser — no network needed."}
+                     </p>
+                  </div>
+                  <div className="space-y-4">
+                     <div className="flex justify-between items-center">
+                       <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Caption Tone</label>
+                       <button onClick={() => setIsToneManagerOpen(true)} className="text-[10px] font-black text-orange-500 uppercase">Manage_</button>
+                     </div>
+                     <TonePicker tones={tones} selectedId={selectedTone.id} onChange={setSelectedToneId} />
+                  </div>
+                  <div className="space-y-4">
+                     <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Caption Language</label>
+                     <LanguagePicker selected={language} onChange={setLanguage} />
+                  </div>
+                  <div className="space-y-4">
+                     <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Prompt Templates</label>
+                     <PromptSelector templates={promptTemplates} selection={promptSelection} kinds={['image', 'image_styled', 'caption', 'polish']} onChange={setPromptSelection} />
                   </div>
                   <button onClick={handleGenerate} disabled={loading} className="w-full py-6 bg-orange-600 text-black font-black uppercase tracking-widest rounded-3xl hover:scale-[1.02] active:scale-[0.98] transition-all shadow-xl shadow-orange-900/10">
                     {loading ? "INITIALIZING FORGE..." : "GENERATE VISUAL_"}
@@ -363,27 +1207,66 @@ const App = () => {
                 </div>
               ) : generatedImage ? (
                 <div className="w-full space-y-6 flex flex-col h-full">
-                  <div className="relative shadow-2xl rounded-2xl overflow-hidden border border-white/5 aspect-[4/5] bg-black">
+                  <div style={{ aspectRatio: `${primaryPlatform.width} / ${primaryPlatform.height}` }} className="relative shadow-2xl rounded-2xl overflow-hidden border border-white/5 bg-black">
                     <img src={generatedImage} className="w-full h-full object-contain" alt="Generated" />
                   </div>
+
+                  <div className="flex gap-4 justify-end">
+                    <button onClick={() => handleCopyImage(generatedImage)} className="text-[10px] font-black text-gray-400 uppercase hover:text-white">Copy Image_</button>
+                    <button onClick={() => setIsExportOpen(true)} className="text-[10px] font-black text-orange-500 uppercase hover:text-orange-400">Export_</button>
+                  </div>
+
+                  <ImageChecks checks={imageChecks} />
+
+                  <VersionFilmstrip versions={versions} currentId={currentVersionId} onRevert={applyVersion} onBranch={handleBranchFromVersion} />
+
+                  <AccessibilityPanel
+                    image={generatedImage}
+                    altText={altText}
+                    onAltTextChange={setAltText}
+                    onAltTextCommit={() => saveAltText(currentVersionId, altText)}
+                    isDescribing={isDescribing}
+                    onRegenerate={() => describeImage(generatedImage, versions.find(v => v.id === currentVersionId))}
+                    report={legibility}
+                  />
                   
                   <div className="space-y-4">
                     <div className="flex justify-between items-center">
                        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">LinkedIn Caption</label>
-                       <button onClick={handleAIRefineCaption} className="text-[10px] font-black text-orange-500 uppercase flex items-center gap-1 hover:text-orange-400">
-                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
-                         REGENERATE_
-                       </button>
+                       <div className="flex items-center gap-4">
+                         {isWritingCaption
+                           ? <button onClick={stopCaption} className="text-[10px] font-black text-red-500 uppercase hover:text-red-400">STOP_</button>
+                           : <button onClick={handleTranslateCaption} disabled={loading || !caption} className="text-[10px] font-black text-gray-400 uppercase hover:text-white disabled:opacity-30">TRANSLATE_</button>}
+                         <button onClick={handleAIRefineCaption} className="text-[10px] font-black text-orange-500 uppercase flex items-center gap-1 hover:text-orange-400">
+                           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                           REGENERATE_
+                         </button>
+                       </div>
                     </div>
-                    <textarea value={caption} onChange={e => setCaption(e.target.value)} className="w-full h-24 bg-black/40 border border-white/5 rounded-2xl p-4 text-sm resize-none focus:border-orange-500/50" placeholder="Caption..." />
+                    <textarea dir="auto" value={caption} onChange={e => editCaption(e.target.value)} className="w-full h-24 bg-black/40 border border-white/5 rounded-2xl p-4 text-sm resize-none focus:border-orange-500/50" placeholder="Caption..." />
+                    <CaptionLimitBadge text={caption} platform="linkedin" />
+                    <CaptionLintPanel text={caption} mandatoryHashtags={brand.mandatoryHashtags} onChange={editCaption} />
                   </div>
 
+                  <PlatformVariants
+                    targets={targets}
+                    renditions={renditions}
+                    captions={platformCaptions}
+                    isAdapting={isAdapting}
+                    onCaptionChange={(id, text) => setPlatformCaptions(c => ({ ...c, [id]: text }))}
+                    onAdapt={handleAdaptCaptions}
+                  />
+
                   <div className="grid grid-cols-2 gap-4 shrink-0">
                     <button onClick={() => setIsEditorOpen(true)} className="py-4 bg-[#111] border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest text-orange-500 hover:bg-orange-500/5 transition-all">EDIT GRAPHIC_</button>
                     <button onClick={handleGenerate} className="py-4 bg-[#111] border border-white/10 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all">NEW VERSION_</button>
                   </div>
                   
-                  <button onClick={handlePostToLinkedIn} className="w-full py-5 bg-[#0a66c2] hover:bg-[#004182] text-white font-black rounded-2xl shadow-xl shadow-blue-900/20 transition-all active:scale-[0.98] uppercase tracking-widest text-xs">POST TO LINKEDIN</button>
+                  <ReviewStatusBar review={review} isStale={isReviewStale} onSubmit={handleSubmitReview} onOpen={() => setIsReviewQueueOpen(true)} />
+                  <div className="grid grid-cols-[1fr_auto] gap-4">
+                    <button onClick={handlePostToLinkedIn} disabled={!activeTargets.length} className="w-full py-5 bg-[#0a66c2] hover:bg-[#004182] text-white font-black rounded-2xl shadow-xl shadow-blue-900/20 transition-all active:scale-[0.98] uppercase tracking-widest text-xs disabled:opacity-50">{publishLabel || "POST TO LINKEDIN"}</button>
+                    <button onClick={openSchedule} disabled={!activeTargets.length} className="px-6 py-5 bg-[#111] border border-[#0a66c2]/40 text-[#4d9be6] font-black rounded-2xl hover:bg-[#0a66c2]/10 transition-all uppercase tracking-widest text-xs disabled:opacity-50">SCHEDULE_</button>
+                  </div>
                 </div>
               ) : (
                 <div className="opacity-10 text-center space-y-4">
@@ -395,6 +1278,44 @@ const App = () => {
               )}
             </div>
           </div>
+        ) : appMode === 'carousel' ? (
+          <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-500">
+             <section className="text-center space-y-4">
+                <h2 className="text-5xl font-black italic tracking-tighter uppercase">Build Your <span className="text-orange-600">Carousel_</span></h2>
+                <p className="text-gray-500 text-lg">Multi-slide document posts, one consistent visual per slide.</p>
+             </section>
+
+             <div className="bg-[#0a0a0a] border border-white/5 rounded-[3rem] p-8 md:p-12 shadow-2xl space-y-10">
+                <CarouselBuilder
+                  brand={brand}
+                  logoBase64={logoBase64}
+                  styles={activeStyles}
+                  caption={caption}
+                  language={language}
+                  onCaptionChange={setCaption}
+                  onDocumentChange={setCarouselDoc}
+                  notify={(msg, type) => setNotification({ msg, type })}
+                />
+
+                <ReviewStatusBar review={review} isStale={isReviewStale} onSubmit={handleSubmitReview} onOpen={() => setIsReviewQueueOpen(true)} />
+                <div className="grid grid-cols-[1fr_auto] gap-4">
+                  <button
+                    onClick={handlePostToLinkedIn}
+                    disabled={loading || !carouselDoc}
+                    className="w-full py-6 bg-[#0a66c2] hover:bg-[#004182] text-white font-black rounded-3xl transition-all shadow-xl shadow-blue-900/20 uppercase tracking-widest text-sm disabled:opacity-50"
+                  >
+                    {loading ? "COMMUNICATING WITH PIPELINE..." : `${publishLabel}_`}
+                  </button>
+                  <button
+                    onClick={openSchedule}
+                    disabled={!carouselDoc}
+                    className="px-8 py-6 bg-[#111] border border-[#0a66c2]/40 text-[#4d9be6] font-black rounded-3xl hover:bg-[#0a66c2]/10 transition-all disabled:opacity-50 uppercase tracking-widest text-sm"
+                  >
+                    SCHEDULE_
+                  </button>
+                </div>
+             </div>
+          </div>
         ) : (
           /* Text Mode Flow - Wide Layout */
           <div className="max-w-6xl mx-auto space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-500">
@@ -407,14 +1328,18 @@ const App = () => {
                 <div className="space-y-4">
                    <div className="flex justify-between items-center">
                       <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Raw Source Material</label>
-                      <div className="flex items-center gap-2">
-                        {loading && <div className="w-3 h-3 border-2 border-yellow-500/20 border-t-yellow-500 rounded-full animate-spin" />}
+                      <div className="flex items-center gap-4">
+                        {(loading || isWritingCaption) && <div className="w-3 h-3 border-2 border-yellow-500/20 border-t-yellow-500 rounded-full animate-spin" />}
+                        <button onClick={() => setIsIngestOpen(true)} className="text-[10px] font-black text-yellow-500 hover:text-yellow-400 transition-colors uppercase">
+                          Import Artifacts_{artifacts.length > 0 && <span className="ml-2 px-2 py-0.5 rounded-full bg-white/10 text-white">{artifacts.length}</span>}
+                        </button>
                       </div>
                    </div>
                    <textarea 
+                     dir="auto"
                      value={accomplishment} 
                      onChange={e => setAccomplishment(e.target.value)} 
-                     placeholder="Paste notes, logs, or raw thoughts here..." 
+                     placeholder="Paste notes or raw thoughts here, or import git logs, patches, PRs and changelogs..." 
                      className="w-full h-32 bg-black/50 border border-white/5 rounded-2xl p-6 text-xl font-medium outline-none focus:border-yellow-500/30 resize-none transition-all"
                    />
                 </div>
@@ -422,47 +1347,84 @@ const App = () => {
                 <div className="space-y-6">
                    <div className="flex justify-between items-center">
                       <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Select Narrative Voice</label>
-                      <button onClick={handleAIRefineCaption} disabled={loading || !accomplishment} className="text-[10px] font-black text-yellow-500 hover:text-yellow-400 transition-colors uppercase">Force Re-Forge_</button>
+                      <div className="flex gap-4">
+                        <button onClick={() => setIsVariantsOpen(true)} disabled={!accomplishment} className="text-[10px] font-black text-gray-400 hover:text-white transition-colors uppercase disabled:opacity-30">Compare Variants_</button>
+                        <button onClick={handleAIRefineCaption} disabled={loading || !accomplishment} className="text-[10px] font-black text-yellow-500 hover:text-yellow-400 transition-colors uppercase">Force Re-Forge_</button>
+                      </div>
                    </div>
+                   <PromptSelector templates={promptTemplates} selection={promptSelection} kinds={['caption']} onChange={setPromptSelection} />
                    <div className="flex flex-wrap gap-2">
-                      {TONES.map(t => (
-                        <button 
-                          key={t}
-                          onClick={() => setSelectedTone(t)}
-                          className={`px-4 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all border ${selectedTone === t ? 'bg-yellow-600 text-black border-yellow-600' : 'bg-black/40 text-gray-400 border-white/5 hover:border-white/20'}`}
-                        >
-                          {t}
-                        </button>
-                      ))}
+                      <TonePicker tones={tones} selectedId={selectedTone.id} onChange={setSelectedToneId} />
+                      <button onClick={() => setIsToneManagerOpen(true)} className="px-4 py-2 rounded-full text-[10px] font-bold uppercase tracking-wider border border-dashed border-white/10 text-gray-500 hover:text-white">Manage Tones_</button>
                    </div>
                 </div>
 
+                <div className="space-y-4">
+                   <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Caption Language</label>
+                   <LanguagePicker selected={language} onChange={setLanguage} />
+                </div>
+
+                <div className="space-y-4">
+                   <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">Target Networks</label>
+                   <PlatformPicker selected={targets} onChange={setTargets} textOnly />
+                </div>
+
                 <div className="grid lg:grid-cols-2 gap-12 items-start">
                    <div className="space-y-4">
-                      <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">AI-Crafted Post</label>
+                      <div className="flex justify-between items-center">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">AI-Crafted Post</label>
+                        <div className="flex items-center gap-4">
+                          {isCaptionEdited && <span className="text-[9px] font-bold uppercase tracking-widest text-gray-600">Edited • Auto-Refresh Paused</span>}
+                          {isWritingCaption
+                            ? <button onClick={stopCaption} className="text-[10px] font-black text-red-500 hover:text-red-400 transition-colors uppercase">Stop_</button>
+                            : <button onClick={handleTranslateCaption} disabled={loading || !caption} className="text-[10px] font-black text-gray-400 hover:text-white transition-colors uppercase disabled:opacity-30">Translate_</button>}
+                          <CaptionLimitBadge text={caption} platform="linkedin" />
+                        </div>
+                      </div>
                       <textarea 
+                        dir="auto"
                         value={caption} 
-                        onChange={e => setCaption(e.target.value)} 
+                        onChange={e => editCaption(e.target.value)} 
                         className="w-full h-96 bg-black/30 border border-white/5 rounded-2xl p-6 text-base leading-relaxed outline-none focus:border-yellow-500/30 resize-none font-medium transition-all"
                       />
+                      <CaptionLintPanel text={caption} mandatoryHashtags={brand.mandatoryHashtags} onChange={editCaption} />
                       <button onClick={() => handleCopy(caption)} className="w-full py-4 bg-[#111] border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all">Copy Post Text_</button>
                    </div>
 
                    <div className="space-y-4">
                       <label className="text-[10px] font-black uppercase tracking-widest text-gray-500">LinkedIn Feed Preview</label>
                       <div className="sticky top-8">
-                        <LinkedInPreview text={caption || "Drafting in progress..."} />
+                        <LinkedInPreview text={caption || "Drafting in progress..."} author={author} />
                       </div>
                    </div>
                 </div>
 
-                <button 
-                  onClick={handlePostToLinkedIn} 
-                  disabled={loading || !caption}
-                  className="w-full py-6 bg-[#0a66c2] hover:bg-[#004182] text-white font-black rounded-3xl transition-all shadow-xl shadow-blue-900/20 uppercase tracking-widest text-sm"
-                >
-                  {loading ? "COMMUNICATING WITH PIPELINE..." : "POST TEXT TO LINKEDIN_"}
-                </button>
+                <PlatformVariants
+                  targets={activeTargets}
+                  renditions={{}}
+                  captions={platformCaptions}
+                  isAdapting={isAdapting}
+                  onCaptionChange={(id, text) => setPlatformCaptions(c => ({ ...c, [id]: text }))}
+                  onAdapt={handleAdaptCaptions}
+                />
+
+                <ReviewStatusBar review={review} isStale={isReviewStale} onSubmit={handleSubmitReview} onOpen={() => setIsReviewQueueOpen(true)} />
+                <div className="grid grid-cols-[1fr_auto] gap-4">
+                  <button 
+                    onClick={handlePostToLinkedIn} 
+                    disabled={loading || !caption || !activeTargets.length}
+                    className="w-full py-6 bg-[#0a66c2] hover:bg-[#004182] text-white font-black rounded-3xl transition-all shadow-xl shadow-blue-900/20 uppercase tracking-widest text-sm disabled:opacity-50"
+                  >
+                    {loading ? "COMMUNICATING WITH PIPELINE..." : publishLabel ? `${publishLabel}_` : "POST TEXT TO LINKEDIN_"}
+                  </button>
+                  <button
+                    onClick={openSchedule}
+                    disabled={!caption || !activeTargets.length}
+                    className="px-8 py-6 bg-[#111] border border-[#0a66c2]/40 text-[#4d9be6] font-black rounded-3xl hover:bg-[#0a66c2]/10 transition-all disabled:opacity-50 uppercase tracking-widest text-sm"
+                  >
+                    SCHEDULE_
+                  </button>
+                </div>
              </div>
           </div>
         )}
@@ -471,21 +1433,157 @@ const App = () => {
       {isEditorOpen && generatedImage && (
         <ImageEditor 
           image={generatedImage} 
+          logo={logoBase64}
+          width={primaryPlatform.width}
+          height={primaryPlatform.height}
           onClose={() => setIsEditorOpen(false)} 
-          onSend={async (data) => {
-            setLoading(true);
-            try {
-              const res = await sendEditToWebhook({ originalImage: generatedImage, prompt: data.textInstructions || "Edit", type: 'visual' });
-              if (res) {
-                setGeneratedImage(res);
-                setNotification({ msg: "AI Edit Complete", type: 'success' });
-              }
-            } catch (err) {
-              setNotification({ msg: "AI Edit Failed", type: 'error' });
-            } finally {
-              setLoading(false);
-            }
-          }} 
+          onSend={handleEditorSend} 
+        />
+      )}
+
+      {isScheduleOpen && (
+        <ScheduleDialog onClose={() => setIsScheduleOpen(false)} onConfirm={handleSchedule} notify={(msg, type) => setNotification({ msg, type })} />
+      )}
+
+      {isBrandManagerOpen && (
+        <BrandProfileManager
+          profiles={brandProfiles}
+          activeId={brand.id}
+          onSave={handleSaveBrands}
+          onClose={() => setIsBrandManagerOpen(false)}
+          onError={msg => setNotification({ msg, type: 'error' })}
+        />
+      )}
+
+      {isStyleLibraryOpen && (
+        <StyleLibrary
+          library={styleLibrary}
+          picks={stylePicks}
+          describingIds={describingStyleIds}
+          onLibraryChange={setStyleLibrary}
+          onPicksChange={picks => { setStylePicks(picks); setLooseStyleRef(null); }}
+          onAdd={processFile}
+          onDescribe={describeStyleRef}
+          onClose={() => setIsStyleLibraryOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isExportOpen && (
+        <ExportPanel
+          current={currentExport()}
+          onClose={() => setIsExportOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isPublishedLogOpen && (
+        <PublishedLog
+          posts={published}
+          setPosts={setPublished}
+          onClose={() => setIsPublishedLogOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isAnalyticsOpen && (
+        <AnalyticsDashboard
+          posts={published.filter(isLive)}
+          setPosts={setPublished}
+          onClose={() => setIsAnalyticsOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isReviewQueueOpen && (
+        <ReviewQueue
+          reviews={reviews}
+          initialId={review?.id}
+          actor={reviewer}
+          onActorChange={name => { setReviewer(name); saveActorName(name); }}
+          onChange={persistReview}
+          onOpenDraft={handleOpenReviewDraft}
+          onClose={() => setIsReviewQueueOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isAuthorManagerOpen && (
+        <AuthorManager
+          authors={authors}
+          activeId={author.id}
+          tones={tones}
+          onSave={handleSaveAuthors}
+          onClose={() => setIsAuthorManagerOpen(false)}
+          onError={msg => setNotification({ msg, type: 'error' })}
+        />
+      )}
+
+      {isToneManagerOpen && (
+        <ToneManager
+          tones={tones}
+          activeId={selectedTone.id}
+          onSave={setTones}
+          onClose={() => setIsToneManagerOpen(false)}
+          onError={msg => setNotification({ msg, type: 'error' })}
+        />
+      )}
+
+      {isVariantsOpen && (
+        <CaptionVariants
+          accomplishment={accomplishment}
+          brand={brand}
+          author={author}
+          language={language}
+          tones={tones}
+          initialToneId={selectedTone.id}
+          template={promptBody('caption')}
+          onPick={editCaption}
+          onClose={() => setIsVariantsOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isBatchOpen && (
+        <BatchGenerator
+          rows={batchRows}
+          setRows={setBatchRows}
+          context={batchContext}
+          onQueue={handleQueueBatch}
+          onClose={() => setIsBatchOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isIngestOpen && (
+        <ArtifactIngest
+          artifacts={artifacts}
+          setArtifacts={setArtifacts}
+          onUse={summary => { setAccomplishment(summary); setNotification({ msg: "Structured Source Loaded", type: 'success' }); }}
+          onClose={() => setIsIngestOpen(false)}
+          notify={(msg, type) => setNotification({ msg, type })}
+        />
+      )}
+
+      {isProviderOpen && (
+        <ProviderSettingsDialog
+          settings={providerSettings}
+          onSave={setProviderSettings}
+          onClose={() => setIsProviderOpen(false)}
+        />
+      )}
+
+      {isPromptLibraryOpen && (
+        <PromptLibrary templates={promptTemplates} onChange={setPromptTemplates} onClose={() => setIsPromptLibraryOpen(false)} />
+      )}
+
+      {isQueueOpen && (
+        <SchedulePanel
+          queue={queue}
+          onClose={() => setIsQueueOpen(false)}
+          onReschedule={handleReschedule}
+          onCancel={handleCancelScheduled}
+          onRetry={handleRetry}
         />
       )}
     </div>
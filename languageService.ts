@@ -0,0 +1,107 @@
+import { tokenizeCaption } from './captionLinter';
+
+export type CaptionLanguage = 'en' | 'ar' | 'bilingual';
+
+export const CAPTION_LANGUAGES: { id: CaptionLanguage; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'ar', label: 'العربية' },
+  { id: 'bilingual', label: 'Bilingual' },
+];
+
+export const LANGUAGE_NAMES: Record<Exclude<CaptionLanguage, 'bilingual'>, string> = {
+  en: 'English',
+  ar: 'Modern Standard Arabic',
+};
+
+const LANGUAGE_KEY = 'barq_caption_language';
+
+const LETTER = /\p{L}/gu;
+const ARABIC_LETTER = /(?=\p{L})\p{Script=Arabic}/gu;
+const RTL_LETTER = /(?=\p{L})[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}]/u;
+
+export const ARABIC_TYPOGRAPHY = `ARABIC TYPOGRAPHY: The text is in Arabic. Render it right-to-left with correctly joined letterforms (initial, medial, final and isolated shapes), never as separated, reversed or mirrored letters, and keep every dot and diacritic in place. Use a clean modern Arabic typeface (similar to Noto Kufi Arabic, Cairo or Tajawal), right-aligned or centred, and reproduce the text exactly without inventing words.`;
+
+export function loadCaptionLanguage(): CaptionLanguage {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  return CAPTION_LANGUAGES.some(l => l.id === stored) ? stored as CaptionLanguage : 'en';
+}
+
+export function saveCaptionLanguage(language: CaptionLanguage): void {
+  localStorage.setItem(LANGUAGE_KEY, language);
+}
+
+/**
+ * Reads a language from a batch column: a code, an English name or the Arabic label.
+ */
+export function languageByName(value: string): CaptionLanguage | undefined {
+  const key = value.trim().toLowerCase();
+  if (['en', 'english'].includes(key)) return 'en';
+  if (['ar', 'arabic', 'العربية'].includes(key)) return 'ar';
+  if (['bilingual', 'both', 'en+ar', 'ar+en'].includes(key)) return 'bilingual';
+  return undefined;
+}
+
+export function hasArabic(text: string): boolean {
+  return /(?=\p{L})\p{Script=Arabic}/u.test(text);
+}
+
+/** True when most of the letters are Arabic script. */
+export function isMostlyArabic(text: string): boolean {
+  const letters = text.match(LETTER)?.length || 0;
+  return letters > 0 && (text.match(ARABIC_LETTER)?.length || 0) / letters >= 0.5;
+}
+
+/**
+ * Base direction of a paragraph, from its first letter (the Unicode "first strong" rule
+ * that `dir="auto"` uses in the browser).
+ */
+export function directionOf(text: string): 'ltr' | 'rtl' {
+  const first = text.match(/\p{L}/u);
+  return first && RTL_LETTER.test(first[0]) ? 'rtl' : 'ltr';
+}
+
+/** Instruction appended to caption prompts (or placed at `{{languageRule}}`). */
+export function languageRule(language: CaptionLanguage): string {
+  switch (language) {
+    case 'en': return "Write the post in English.";
+    case 'ar': return "Write the post in Modern Standard Arabic for a professional Gulf and MENA audience, with Arabic punctuation (، ؛ ؟). Keep product names, code identifiers and the required hashtags exactly as given.";
+    case 'bilingual': return "Write the post twice: first in English, then the same post in Modern Standard Arabic, separated by a blank line. Put the hashtags once, after both versions, exactly as given.";
+  }
+}
+
+/**
+ * Swaps hashtags, mentions and links for numbered markers, so a translation can't
+ * translate or respell them.
+ */
+export function protectTokens(text: string): { masked: string; tokens: string[] } {
+  const tokens: string[] = [];
+  const masked = tokenizeCaption(text).map(t => {
+    if (t.type === 'text') return t.value;
+    tokens.push(t.value);
+    return `[[${tokens.length - 1}]]`;
+  }).join('');
+  return { masked, tokens };
+}
+
+/** Puts protected tokens back; any the model dropped are appended at the end. */
+export function restoreTokens(text: string, tokens: string[]): string {
+  const used = new Set<number>();
+  const restored = text.replace(/\[\[(\d+)\]\]/g, (match, n) => {
+    if (tokens[Number(n)] === undefined) return match;
+    used.add(Number(n));
+    return tokens[Number(n)];
+  });
+  const missing = tokens.filter((_, i) => !used.has(i));
+  return missing.length ? `${restored.trimEnd()}\n\n${missing.join(' ')}` : restored;
+}
+
+/**
+ * Splits off a closing paragraph made only of hashtags and mentions, so a bilingual
+ * post can keep one shared hashtag block after both languages.
+ */
+export function splitTrailingTags(text: string): { body: string; tags: string } {
+  const paragraphs = text.trimEnd().split(/\n\s*\n/);
+  const last = paragraphs[paragraphs.length - 1];
+  const onlyTags = paragraphs.length > 1 && tokenizeCaption(last).every(t => t.type === 'hashtag' || t.type === 'mention' || !t.value.trim());
+  return onlyTags ? { body: paragraphs.slice(0, -1).join('\n\n'), tags: last.trim() } : { body: text.trimEnd(), tags: '' };
+}
@@ -0,0 +1,168 @@
+import { AIProvider, TextTask } from "./providerService";
+import { BrandProfile } from "./brandService";
+import { fitCaption } from "./platforms";
+import { extractHashtags } from "./captionLinter";
+import { renderTemplate } from "./templateRenderer";
+import { loadImage } from "./imageUtils";
+import { ServiceError } from "./serviceErrors";
+import { CaptionLanguage } from "./languageService";
+
+/** Long enough to see loading states, short enough not to slow a demo down. */
+const MOCK_LATENCY_MS = 400;
+/** Per-word pause when a caption is streamed, roughly a fast model's pace. */
+const MOCK_WORD_MS = 40;
+
+const delay = (source: string, signal?: AbortSignal, ms = MOCK_LATENCY_MS) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new ServiceError('cancelled', source, "Request was superseded."));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new ServiceError('cancelled', source, "Request was superseded."));
+  }, { once: true });
+});
+
+const sentences = (text: string) => (text.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]*/g) || []).map(s => s.trim()).filter(Boolean);
+
+/** Small stable hash, so the same caption always gets the same mock score. */
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+function polish(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return "";
+  const capitalised = clean[0].toUpperCase() + clean.slice(1);
+  return /[.!?]$/.test(capitalised) ? capitalised : `${capitalised}.`;
+}
+
+function caption(accomplishment: string, tone: string, language: CaptionLanguage, brand: BrandProfile): string {
+  const [hook, ...rest] = sentences(polish(accomplishment));
+  const tags = [...brand.mandatoryHashtags, '#Engineering', '#Innovation'].slice(0, 4);
+  return [
+    hook,
+    rest.join(' ') || `Another step forward for the team at ${brand.name}.`,
+    `(Offline mock caption, ${tone} tone${language === 'en' ? '' : `, ${language === 'ar' ? 'Arabic' : 'bilingual'}`}.)`,
+    tags.join(' '),
+  ].join('\n\n');
+}
+
+function score(text: string) {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const tags = extractHashtags(text).length;
+  const firstLine = text.split('\n')[0] || '';
+  return {
+    hook: firstLine.length > 0 && firstLine.length <= 120 ? 8 : 5,
+    clarity: 5 + (hash(text) % 5),
+    length: words >= 80 && words <= 200 ? 9 : words < 80 ? 6 : 4,
+    hashtags: tags >= 3 && tags <= 5 ? 9 : tags ? 6 : 2,
+    notes: `Offline mock score: ${words} words, ${tags} hashtags.`,
+  };
+}
+
+function outline(source: string, slideCount: number) {
+  const count = Math.min(10, Math.max(3, slideCount));
+  const parts = sentences(source);
+  return Array.from({ length: count }, (_, i) => {
+    const body = i === count - 1 ? "Follow along for the next milestone." : parts[i] || parts[parts.length - 1] || source;
+    const title = i === 0 ? "What We Shipped" : i === count - 1 ? "What's Next" : body.split(' ').slice(0, 6).join(' ').replace(/[.!?]+$/, '');
+    return { title, body: body.split(' ').slice(0, 20).join(' ') };
+  });
+}
+
+function answer(task: TextTask, brand: BrandProfile): string {
+  switch (task.kind) {
+    case 'polish': return polish(task.text);
+    case 'caption': return caption(task.accomplishment, task.tone, task.language, brand);
+    case 'adapt': return fitCaption(task.caption, task.platform, brand.mandatoryHashtags);
+    case 'score': return JSON.stringify(task.captions.map(score));
+    case 'merge': return task.captions[0] || "";
+    case 'outline': return JSON.stringify(outline(task.source, task.slideCount));
+    case 'translate': return `${task.text}\n\n(Offline mock translation into ${task.language}.)`;
+    case 'verify_image': return JSON.stringify({ textCorrect: true, problems: [], logoPresent: true });
+    case 'describe_style': return `Palette: ${brand.colors.map(c => `${c.name} (${c.hex})`).join(', ')} on a dark background. Soft studio lighting with subtle grain; mood is confident and modern. (Offline mock description.)`;
+    case 'alt_text': return `Branded graphic with the headline "${sentences(task.context)[0] || brand.name}" over a ${brand.name} background, with the company logo in a corner. (Offline mock alt text.)`;
+  }
+}
+
+/**
+ * Marks an image as a placeholder so mock output is never mistaken for a real render.
+ */
+async function stamp(src: string, label: string): Promise<string> {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  const size = Math.round(img.width * 0.03);
+  ctx.font = `800 ${size}px "DM Sans", sans-serif`;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = 'rgba(0,0,0,0.6)';
+  const width = ctx.measureText(label).width;
+  ctx.fillRect(img.width - width - size * 1.5, img.height - size * 2.5, width + size, size * 1.75);
+  ctx.fillStyle = '#fff';
+  ctx.fillText(label, img.width - size, img.height - size);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Square brand-coloured monogram, used in place of the logo when it can't be fetched offline.
+ */
+export function placeholderLogo(brand: BrandProfile): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 256;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = brand.colors[0]?.hex || '#EA580C';
+  ctx.beginPath();
+  ctx.arc(128, 128, 120, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.font = `800 140px "DM Sans", sans-serif`;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText((brand.name.trim()[0] || 'B').toUpperCase(), 128, 136);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Deterministic offline provider: canned text derived from the inputs and locally rendered
+ * placeholder images, so every flow can be exercised without network access.
+ */
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+
+  async generateText({ task, source, schema, brand }, options = {}) {
+    await delay(source, options.signal);
+    const text = answer(task, brand);
+    if (options.onText && !schema) {
+      const words = text.split(/(?<=\s)/);
+      for (let i = 1; i <= words.length; i++) {
+        options.onText(words.slice(0, i).join(''));
+        if (i < words.length) await delay(source, options.signal, MOCK_WORD_MS);
+      }
+    }
+    return text;
+  },
+
+  async generateImage({ accomplishment, logo, platform, brand }, options = {}) {
+    await delay("Image", options.signal);
+    const image = await renderTemplate({
+      text: polish(accomplishment),
+      logoBase64: logo,
+      colors: brand.colors,
+      layout: 'centered',
+      width: platform.width,
+      height: platform.height,
+    });
+    return stamp(image, "MOCK");
+  },
+
+  async editImage({ originalImage, editedImage }, options = {}) {
+    await delay("Edit", options.signal);
+    return stamp(editedImage || originalImage, "MOCK EDIT");
+  },
+};
@@ -0,0 +1,84 @@
+export type PlatformId = 'linkedin' | 'x' | 'instagram_feed' | 'instagram_story' | 'facebook';
+export type AspectRatio = '4:5' | '1:1' | '16:9' | '9:16';
+
+export interface PlatformSpec {
+  id: PlatformId;
+  label: string;
+  aspect: AspectRatio;
+  width: number;
+  height: number;
+  captionLimit: number;
+  maxHashtags: number;
+  /** Plain-language hashtag guidance injected into the caption prompt. */
+  hashtagConvention: string;
+  /** Networks that cannot carry a text-only post. */
+  requiresImage: boolean;
+}
+
+export const PLATFORMS: Record<PlatformId, PlatformSpec> = {
+  linkedin: {
+    id: 'linkedin', label: 'LinkedIn', aspect: '4:5', width: 1080, height: 1350,
+    captionLimit: 3000, maxHashtags: 5,
+    hashtagConvention: "3-5 relevant hashtags grouped on the last line",
+    requiresImage: false,
+  },
+  x: {
+    id: 'x', label: 'X', aspect: '16:9', width: 1600, height: 900,
+    captionLimit: 280, maxHashtags: 2,
+    hashtagConvention: "at most 2 hashtags, woven into the sentence or at the very end",
+    requiresImage: false,
+  },
+  instagram_feed: {
+    id: 'instagram_feed', label: 'Instagram Feed', aspect: '1:1', width: 1080, height: 1080,
+    captionLimit: 2200, maxHashtags: 15,
+    hashtagConvention: "8-15 hashtags in a separate block after a line break",
+    requiresImage: true,
+  },
+  instagram_story: {
+    id: 'instagram_story', label: 'Instagram Story', aspect: '9:16', width: 1080, height: 1920,
+    captionLimit: 250, maxHashtags: 3,
+    hashtagConvention: "1-3 hashtags, suitable as story stickers",
+    requiresImage: true,
+  },
+  facebook: {
+    id: 'facebook', label: 'Facebook', aspect: '1:1', width: 1200, height: 1200,
+    captionLimit: 63206, maxHashtags: 3,
+    hashtagConvention: "1-3 hashtags at the end",
+    requiresImage: false,
+  },
+};
+
+export const PLATFORM_IDS = Object.keys(PLATFORMS) as PlatformId[];
+
+export function orientationOf(spec: PlatformSpec): string {
+  if (spec.width === spec.height) return 'square';
+  return spec.width > spec.height ? 'landscape' : 'portrait';
+}
+
+export function countHashtags(text: string): number {
+  return (text.match(/(^|\s)#[\p{L}\p{N}_]+/gu) || []).length;
+}
+
+/**
+ * Hard-enforces a platform's limits after generation: drops surplus hashtags
+ * and trims the body at a word boundary so the caption fits. The brand's
+ * `mandatory` hashtags are always kept; only the others are dropped to make room.
+ */
+export function fitCaption(text: string, spec: PlatformSpec, mandatory: string[] = []): string {
+  const required = new Set(mandatory.map(t => t.toLowerCase()));
+  const isRequired = (tag: string) => required.has(tag.toLowerCase());
+  const present = new Set((text.match(/#[\p{L}\p{N}_]+/gu) || []).filter(isRequired).map(t => t.toLowerCase()));
+  const tagRoom = Math.max(0, spec.maxHashtags - present.size);
+  let tags = 0;
+  let fitted = text
+    .replace(/(^|\s)(#[\p{L}\p{N}_]+)/gu, (match, _lead, tag) => (isRequired(tag) || ++tags <= tagRoom ? match : ''))
+    .replace(/[ \t]+$/gm, '')
+    .trim();
+  if (fitted.length <= spec.captionLimit) return fitted;
+
+  const trailing = fitted.match(/(\s*(#[\p{L}\p{N}_]+\s*)+)$/u)?.[0] || '';
+  const body = fitted.slice(0, fitted.length - trailing.length);
+  const room = spec.captionLimit - trailing.length - 1;
+  if (room < 20) return fitted.slice(0, spec.captionLimit - 1).replace(/\s+\S*$/, '') + '…';
+  return body.slice(0, room).replace(/\s+\S*$/, '') + '…' + trailing;
+}
@@ -0,0 +1,170 @@
+export type PromptKind = 'image' | 'image_styled' | 'caption' | 'polish';
+
+export interface PromptVersion {
+  version: number;
+  body: string;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  kind: PromptKind;
+  builtIn: boolean;
+  /** Oldest first; the last entry is the current version. */
+  versions: PromptVersion[];
+}
+
+/** Which template version produced a piece of content. */
+export interface TemplateRef {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export type PromptSelection = Record<PromptKind, string>;
+
+const TEMPLATES_KEY = 'barq_prompt_templates';
+const SELECTION_KEY = 'barq_prompt_selection';
+
+export const PROMPT_KINDS: { kind: PromptKind; label: string }[] = [
+  { kind: 'image', label: 'Image' },
+  { kind: 'image_styled', label: 'Image (with style ref)' },
+  { kind: 'caption', label: 'Caption' },
+  { kind: 'polish', label: 'Polish' },
+];
+
+export const PLACEHOLDERS: Record<PromptKind, string[]> = {
+  image: ['accomplishment', 'frame', 'brandName', 'brandColors', 'primaryColor', 'primaryHex', 'secondaryColor', 'secondaryHex', 'typography'],
+  image_styled: ['accomplishment', 'frame', 'brandName', 'brandColors', 'styleGuide', 'typography'],
+  caption: ['accomplishment', 'tone', 'toneGuide', 'authorContext', 'hashtagRule', 'languageRule', 'brandName'],
+  polish: ['accomplishment'],
+};
+
+export const SAMPLE_VALUES: Record<string, string> = {
+  accomplishment: 'Reduced API latency by 30%',
+  frame: 'strict 4:5 portrait aspect ratio',
+  brandName: 'Barq Digital',
+  brandColors: 'orange (#EA580C), amber yellow (#F59E0B)',
+  primaryColor: 'orange',
+  primaryHex: '#EA580C',
+  secondaryColor: 'amber yellow',
+  secondaryHex: '#F59E0B',
+  tone: 'Corporate Professional',
+  toneGuide: 'Voice: Polished company voice focused on outcomes and customer impact.',
+  authorContext: 'Write in the first person as Barq Digital Engineer, Building the future of social assets.',
+  hashtagRule: 'Include 3-4 relevant hashtags at the end including #BarqDigital.',
+  languageRule: 'Write the post in English.',
+  typography: '',
+  styleGuide: 'STYLE REFERENCE ("Neon Grid"): Deep navy (#0B1026) with electric cyan (#22D3EE) accents, glossy lighting, fine grid texture; energetic and futuristic.',
+};
+
+const BUILTIN_CREATED_AT = '2025-01-01T00:00:00.000Z';
+
+const builtIn = (id: string, name: string, kind: PromptKind, body: string): PromptTemplate => ({
+  id, name, kind, builtIn: true, versions: [{ version: 1, body, createdAt: BUILTIN_CREATED_AT }],
+});
+
+export const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  builtIn('builtin-image', 'Premium Gradient', 'image', `A sophisticated, premium corporate achievement announcement graphic in {{frame}}.
+BACKGROUND: Rich, immersive gradient transitioning from deep vibrant {{primaryColor}} ({{primaryHex}}) at the edges to warm glowing {{secondaryColor}} ({{secondaryHex}}) in the center, enhanced with subtle dark textured overlays (faint geometric patterns or brushed metallic grain) for tactile depth and luxury.
+MAIN TEXT: Bold, pristine white "{{accomplishment}}" centered both vertically and horizontally. Use a modern geometric sans-serif font (e.g., similar to Futura Bold, Montserrat ExtraBold, or Helvetica Neue Bold) with excellent letter-spacing, subtle drop shadow or soft outer glow for elevated contrast and celebratory presence.
+
+CREATIVE ACCENTS:
+- Gentle radiant light beams or soft golden lens flares emanating subtly from behind the text to convey achievement and energy.
+- Minimalist abstract gold or white geometric lines/particles floating elegantly in the background for a sense of innovation and precision engineering.
+LOGO: Precisely positioned at the top center, appropriately scaled (15-20% of image height) to maintain perfect compositional balance and strong brand presence.
+OVERALL STYLE: Ultra-modern, confident, and impeccably professional—evoking innovation, excellence, and milestone celebration. High contrast, razor-sharp details, premium production quality ideal for LinkedIn, executive social channels, and corporate branding. Clean, powerful, and visually striking.`),
+  builtIn('builtin-image-styled', 'Exact Style Transfer', 'image_styled', `A luxurious, high-end professional social media milestone graphic in {{frame}}.
+CENTRAL CONTENT: Prominently centered, bold elegant text reading "{{accomplishment}}" in a clean, modern sans-serif typeface with refined kerning and subtle outer glow for maximum impact and readability.
+LOGO: Precisely positioned at the top center, appropriately scaled (15-20% of image height) to maintain perfect compositional balance and strong brand presence.
+CRITICAL STYLE TRANSFER: This is an exact one-to-one visual replication. The color palette, gradients, lighting, shadows, highlights, textures, depth, mood, atmosphere, and overall artistic treatment MUST IDENTICALLY MATCH the attached reference image. Replicate every nuance with precision—no creative deviations allowed. Achieve the same level of sophistication and professional excellence as the reference.`),
+  builtIn('builtin-caption', 'LinkedIn Caption', 'caption', `Write a professional, engaging LinkedIn post caption based on this engineering accomplishment: {{accomplishment}}.
+Tone: {{tone}}.
+Rules:
+1. Keep it concise (under 200 words).
+2. {{hashtagRule}}
+3. Make it sound natural and authentic.
+4. Output ONLY the final caption text.
+5. NO introductions (like "Here is the caption").
+6. NO explanations.
+7. NO Markdown formatting (no **, no _, no # at the start of lines unless it's a hashtag).`),
+  builtIn('builtin-polish', 'Graphic Headline', 'polish', `Rewrite this professional accomplishment for a social media graphic. Keep it impactful, bold, and under 12 words. Output ONLY the polished text.
+
+Input: "{{accomplishment}}"`),
+];
+
+export const DEFAULT_SELECTION: PromptSelection = {
+  image: 'builtin-image',
+  image_styled: 'builtin-image-styled',
+  caption: 'builtin-caption',
+  polish: 'builtin-polish',
+};
+
+export function currentVersion(template: PromptTemplate): PromptVersion {
+  return template.versions[template.versions.length - 1];
+}
+
+export function builtInBody(kind: PromptKind): string {
+  return currentVersion(BUILTIN_TEMPLATES.find(t => t.id === DEFAULT_SELECTION[kind])!).body;
+}
+
+/**
+ * Substitutes `{{name}}` placeholders. Unknown placeholders are left in place so they stay visible.
+ */
+export function renderPrompt(body: string, values: Record<string, string>): string {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => name in values ? values[name] : match);
+}
+
+export function usedPlaceholders(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1])));
+}
+
+export function unknownPlaceholders(body: string, kind: PromptKind): string[] {
+  return usedPlaceholders(body).filter(p => !PLACEHOLDERS[kind].includes(p));
+}
+
+export function loadTemplates(): PromptTemplate[] {
+  try {
+    const stored: PromptTemplate[] = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+    // Built-ins are always present; stored copies carry any user-added versions
+    const builtIns = BUILTIN_TEMPLATES.map(b => stored.find(s => s.id === b.id) || b);
+    return [...builtIns, ...stored.filter(s => !s.builtIn)];
+  } catch (e) {
+    console.error("Stored prompt templates are unreadable:", e);
+    return BUILTIN_TEMPLATES;
+  }
+}
+
+export function saveTemplates(templates: PromptTemplate[]): void {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+export function loadSelection(): PromptSelection {
+  try {
+    return { ...DEFAULT_SELECTION, ...JSON.parse(localStorage.getItem(SELECTION_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_SELECTION;
+  }
+}
+
+export function saveSelection(selection: PromptSelection): void {
+  localStorage.setItem(SELECTION_KEY, JSON.stringify(selection));
+}
+
+export function addVersion(template: PromptTemplate, body: string): PromptTemplate {
+  const next = currentVersion(template).version + 1;
+  return { ...template, versions: [...template.versions, { version: next, body, createdAt: new Date().toISOString() }] };
+}
+
+/**
+ * Resolves the selected template for a kind, falling back to the built-in if it was deleted.
+ */
+export function resolveTemplate(templates: PromptTemplate[], selection: PromptSelection, kind: PromptKind): PromptTemplate {
+  return templates.find(t => t.id === selection[kind] && t.kind === kind)
+    || templates.find(t => t.id === DEFAULT_SELECTION[kind])!;
+}
+
+export function toRef(template: PromptTemplate): TemplateRef {
+  return { id: template.id, name: template.name, version: currentVersion(template).version };
+}
@@ -0,0 +1,317 @@
+import { Schema } from "@google/genai";
+import { BrandProfile } from "./brandService";
+import { PlatformSpec, orientationOf } from "./platforms";
+import { RequestOptions, generateText, postWebhook, readImageResponse, withRetry, loadServiceConfig } from "./serviceClient";
+import { ServiceError, toServiceError } from "./serviceErrors";
+import { dataURLtoBlob, maskToAlpha, urlToDataUrl } from "./imageUtils";
+import { mockProvider } from "./mockProvider";
+import { CaptionLanguage } from "./languageService";
+import { WeightedStyle, styleShares } from "./styleService";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * What a text call is for, with the raw inputs its prompt was built from, so providers
+ * that don't run a model (the offline mock) can still answer sensibly.
+ */
+export type TextTask =
+  | { kind: 'polish'; text: string }
+  | { kind: 'caption'; accomplishment: string; tone: string; language: CaptionLanguage }
+  | { kind: 'adapt'; caption: string; platform: PlatformSpec }
+  | { kind: 'score'; captions: string[] }
+  | { kind: 'merge'; captions: string[] }
+  | { kind: 'outline'; source: string; slideCount: number }
+  | { kind: 'alt_text'; context: string }
+  | { kind: 'verify_image'; text: string | null }
+  | { kind: 'describe_style' }
+  | { kind: 'translate'; text: string; language: string };
+
+export interface TextRequest {
+  task: TextTask;
+  /** Which call this is in error messages, e.g. "Caption". */
+  source: string;
+  prompt: string;
+  /** Set when the answer must be JSON of this shape. */
+  schema?: Schema;
+  /** Data URL the model should look at along with the prompt (vision calls). */
+  image?: string;
+  brand: BrandProfile;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  accomplishment: string;
+  logo: string;
+  /** Style references, heaviest first. */
+  styles: WeightedStyle[];
+  platform: PlatformSpec;
+  brand: BrandProfile;
+}
+
+export interface EditRequest {
+  originalImage: string;
+  editedImage?: string;
+  /** Same-size PNG where white marks the only region the edit may change. */
+  mask?: string;
+  prompt: string;
+  type: 'visual' | 'text';
+  brand: BrandProfile;
+}
+
+/**
+ * Everything the app asks of an AI backend. Image results are data URLs.
+ */
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  generateText(request: TextRequest, options?: RequestOptions): Promise<string>;
+  generateImage(request: ImageRequest, options?: RequestOptions): Promise<string>;
+  editImage(request: EditRequest, options?: RequestOptions): Promise<string>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  openai: {
+    /** e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama. */
+    baseUrl: string;
+    apiKey: string;
+    textModel: string;
+    /** Leave empty to keep using the brand's n8n image webhooks. */
+    imageModel: string;
+  };
+}
+
+const SETTINGS_KEY = 'barq_provider';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  openai: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    textModel: 'llama3.1',
+    imageModel: '',
+  },
+};
+
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      provider: ['gemini', 'openai', 'mock'].includes(raw.provider) ? raw.provider : DEFAULT_PROVIDER_SETTINGS.provider,
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...raw.openai },
+    };
+  } catch (e) {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * The production setup: Gemini for text, the brand's n8n webhooks for images.
+ */
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini + n8n',
+
+  generateText: ({ source, prompt, schema, image, brand }, options = {}) =>
+    generateText(
+      source,
+      brand.models.text,
+      image ? [{ inlineData: { mimeType: image.slice(5, image.indexOf(';')), data: image.split(',')[1] } }, { text: prompt }] : prompt,
+      schema ? { responseMimeType: 'application/json', responseSchema: schema } : {},
+      options
+    ),
+
+  async generateImage({ prompt, accomplishment, logo, styles, platform, brand }, options = {}) {
+    if (!brand.webhooks.image) throw new ServiceError('config', "Image webhook", `Set ${brand.name}'s image webhook to generate graphics.`);
+    const formData = new FormData();
+    formData.append('prompt', prompt);
+    formData.append('accomplishment', accomplishment);
+    formData.append('aspectRatio', platform.aspect);
+    formData.append('logoImage', dataURLtoBlob(logo), 'logo.png');
+    // The heaviest reference keeps the `styleImage` field older workflows read; the rest are numbered
+    styles.forEach((s, i) => formData.append(i ? `styleImage${i + 1}` : 'styleImage', dataURLtoBlob(s.image), `style-${i + 1}.png`));
+    if (styles.length) formData.append('styleWeights', JSON.stringify(styleShares(styles).map(share => share / 100)));
+
+    const response = await postWebhook("Image webhook", brand.webhooks.image, formData, options);
+    return readImageResponse("Image webhook", response);
+  },
+
+  async editImage({ originalImage, editedImage, mask, prompt, type, brand }, options = {}) {
+    if (!brand.webhooks.edit) throw new ServiceError('config', "Edit webhook", `Set ${brand.name}'s edit webhook to edit graphics.`);
+    const formData = new FormData();
+    formData.append('originalImage', dataURLtoBlob(originalImage), 'original.png');
+    if (editedImage) formData.append('editedImage', dataURLtoBlob(editedImage), 'edited.png');
+    if (mask) formData.append('mask', dataURLtoBlob(mask), 'mask.png');
+    formData.append('prompt', prompt);
+    formData.append('type', type);
+
+    const response = await postWebhook("Edit webhook", brand.webhooks.edit, formData, options);
+    return readImageResponse("Edit webhook", response);
+  },
+};
+
+/**
+ * Gemini's upper-case schema types, lowered into plain JSON Schema.
+ */
+function toJsonSchema(schema: Schema): object {
+  const { type, items, properties, required } = schema;
+  return {
+    ...(type && { type: type.toLowerCase() }),
+    ...(items && { items: toJsonSchema(items) }),
+    ...(properties && { properties: Object.fromEntries(Object.entries(properties).map(([k, v]) => [k, toJsonSchema(v)])) }),
+    ...(required && { required }),
+  };
+}
+
+async function openAIFetch(source: string, path: string, body: object | FormData, signal: AbortSignal): Promise<Response> {
+  const { baseUrl, apiKey } = loadProviderSettings().openai;
+  const isForm = body instanceof FormData;
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+    method: 'POST',
+    headers: {
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      ...(!isForm && { 'Content-Type': 'application/json' }),
+    },
+    body: isForm ? body : JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    throw toServiceError(Object.assign(new Error(detail || `HTTP ${response.status}`), { status: response.status }), source);
+  }
+  return response;
+}
+
+function parseJson(source: string, text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new ServiceError('empty_response', source, "The endpoint returned malformed JSON.", { cause: e });
+  }
+}
+
+async function openAIRequest(source: string, path: string, body: object | FormData, timeoutMs: number, options: RequestOptions): Promise<unknown> {
+  return withRetry(source, async signal => parseJson(source, await (await openAIFetch(source, path, body, signal)).text()), { ...options, timeoutMs: options.timeoutMs ?? timeoutMs });
+}
+
+/**
+ * The text of a chat completion's first choice: `message.content`, or `delta.content` for a
+ * streamed chunk. Empty when the choice has none; throws when the content filter stopped it.
+ */
+function readChoice(source: string, json: unknown): string {
+  const choices = json && typeof json === 'object' && 'choices' in json ? json.choices : null;
+  const choice: unknown = Array.isArray(choices) ? choices[0] : null;
+  if (!choice || typeof choice !== 'object') return '';
+  if ('finish_reason' in choice && choice.finish_reason === 'content_filter') throw new ServiceError('safety', source, "Blocked: content_filter");
+  const part = 'message' in choice ? choice.message : 'delta' in choice ? choice.delta : null;
+  const content = part && typeof part === 'object' && 'content' in part ? part.content : null;
+  return typeof content === 'string' ? content : '';
+}
+
+/**
+ * Chat completion with `stream: true`, reading the server-sent events as they arrive.
+ */
+async function openAIStream(source: string, body: object, onText: (text: string) => void, options: RequestOptions): Promise<string> {
+  return withRetry(source, async signal => {
+    const response = await openAIFetch(source, '/chat/completions', { ...body, stream: true }, signal);
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    onText(text);
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      const lines = (buffer + value).split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data || data === '[DONE]') continue;
+        text += readChoice(source, parseJson(source, data));
+        onText(text);
+      }
+    }
+    return text.trim();
+  }, { ...options, timeoutMs: options.timeoutMs ?? loadServiceConfig().textTimeoutMs });
+}
+
+/** Reads the first image of an OpenAI images response: `{ data: [{ b64_json } | { url }] }`. */
+async function readImageData(source: string, json: unknown): Promise<string> {
+  const data = json && typeof json === 'object' && 'data' in json ? json.data : null;
+  const image: unknown = Array.isArray(data) ? data[0] : null;
+  if (image && typeof image === 'object') {
+    if ('b64_json' in image && typeof image.b64_json === 'string' && image.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if ('url' in image && typeof image.url === 'string' && image.url) return urlToDataUrl(image.url);
+  }
+  throw new ServiceError('empty_image', source, "The image endpoint returned no image.");
+}
+
+const OPENAI_SIZES: Record<string, string> = { square: '1024x1024', portrait: '1024x1536', landscape: '1536x1024' };
+
+/**
+ * Any OpenAI-compatible server: OpenAI itself, or a local LLM (Ollama, LM Studio, llama.cpp).
+ * Without an image model configured, images keep going through the n8n webhooks.
+ */
+export const openAIProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+
+  async generateText({ source, prompt, schema, image }, options = {}) {
+    const { textModel } = loadProviderSettings().openai;
+    // Vision calls need a multimodal text model (e.g. gpt-4o, llava)
+    const content = image ? [{ type: 'text', text: prompt }, { type: 'image_url', image_url: { url: image } }] : prompt;
+    const body = {
+      model: textModel,
+      messages: [{ role: 'user', content }],
+      ...(schema && { response_format: { type: 'json_schema', json_schema: { name: 'result', schema: toJsonSchema(schema) } } }),
+    };
+    if (options.onText && !schema) {
+      const streamed = await openAIStream(source, body, options.onText, options);
+      if (!streamed) throw new ServiceError('empty_response', source, "The model returned no text.");
+      return streamed;
+    }
+    const json = await openAIRequest(source, '/chat/completions', body, loadServiceConfig().textTimeoutMs, options);
+    const text = readChoice(source, json).trim();
+    if (!text) throw new ServiceError('empty_response', source, "The model returned no text.");
+    return text;
+  },
+
+  async generateImage(request, options = {}) {
+    const { imageModel } = loadProviderSettings().openai;
+    if (!imageModel) return geminiProvider.generateImage(request, options);
+    // Text-to-image only: the logo and style reference are described by the prompt, not sent
+    const json = await openAIRequest("Image", '/images/generations', {
+      model: imageModel,
+      prompt: request.prompt,
+      size: OPENAI_SIZES[orientationOf(request.platform)],
+      n: 1,
+    }, loadServiceConfig().webhookTimeoutMs, options);
+    return readImageData("Image", json);
+  },
+
+  async editImage(request, options = {}) {
+    const { imageModel } = loadProviderSettings().openai;
+    if (!imageModel) return geminiProvider.editImage(request, options);
+    const formData = new FormData();
+    formData.append('model', imageModel);
+    formData.append('prompt', request.prompt);
+    formData.append('image', dataURLtoBlob(request.editedImage || request.originalImage), 'image.png');
+    if (request.mask) formData.append('mask', dataURLtoBlob(await maskToAlpha(request.mask)), 'mask.png');
+    const json = await openAIRequest("Edit", '/images/edits', formData, loadServiceConfig().webhookTimeoutMs, options);
+    return readImageData("Edit", json);
+  },
+};
+
+export const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  mock: mockProvider,
+};
+
+/** The provider picked in settings, read fresh on every call. */
+export function getProvider(): AIProvider {
+  return PROVIDERS[loadProviderSettings().provider];
+}
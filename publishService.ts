@@ -0,0 +1,98 @@
+import { publishPost, managePost, PostType, PublishResult } from './geminiService';
+import { BrandProfile, findProfile } from './brandService';
+import { AuthorProfile, findAuthor } from './authorService';
+import { PlatformId } from './platforms';
+import { describeError } from './serviceErrors';
+import { PublishedPost, PublishOutcome, PostOrigin, recordPublished, savePublished } from './analyticsService';
+
+/** One network's payload, as built in the editor. */
+export interface OutgoingPost {
+  platform: PlatformId;
+  type: PostType;
+  caption: string;
+  image: string | null;
+  document?: { pdf: string; title: string };
+  altText?: string;
+}
+
+/** The history fields a successful send fills in. */
+export function publishedFields(result: PublishResult): PublishOutcome {
+  return { status: result.status, postId: result.postId || undefined, postUrl: result.url || undefined };
+}
+
+/**
+ * Publishes one payload under a fresh idempotency key and logs the outcome: a published entry
+ * with the post's id and link, or a failed one that keeps the payload for retrying. `entry` is
+ * null when the history couldn't be written; `error` says why the send failed.
+ */
+export async function sendPost(
+  post: OutgoingPost,
+  brand: BrandProfile,
+  author: AuthorProfile,
+  origin: PostOrigin
+): Promise<{ entry: PublishedPost | null; error: string | null }> {
+  const idempotencyKey = crypto.randomUUID();
+  let outcome: PublishOutcome;
+  let error: string | null = null;
+  try {
+    outcome = { ...publishedFields(await publishPost({ ...post, author, idempotencyKey }, brand)), idempotencyKey, attempts: 1 };
+  } catch (e) {
+    error = describeError(e, "Network Error");
+    outcome = { status: 'failed', idempotencyKey, attempts: 1, lastError: error, retry: { image: post.image, document: post.document, altText: post.altText } };
+  }
+  const entry = await recordPublished({ ...post, brandId: brand.id, authorId: author.id }, origin, outcome).catch(e => {
+    console.error("Failed to record published post:", e);
+    return null;
+  });
+  return { entry, error };
+}
+
+function targetOf(entry: PublishedPost): { brand: BrandProfile; author?: AuthorProfile } {
+  const brand = findProfile(entry.brandId);
+  if (!brand) throw new Error("Brand profile no longer exists.");
+  const author = entry.authorId ? findAuthor(entry.authorId) : undefined;
+  if (entry.authorId && !author) throw new Error("Author profile no longer exists.");
+  return { brand, author };
+}
+
+/**
+ * Resends a failed entry with its original idempotency key, so a first attempt that did go
+ * out (with the reply lost) isn't posted again. The updated entry is saved either way.
+ */
+export async function retrySend(entry: PublishedPost): Promise<PublishedPost> {
+  if (entry.status !== 'failed' || !entry.retry || !entry.idempotencyKey) throw new Error("Only failed sends can be retried.");
+  const { brand, author } = targetOf(entry);
+  const attempts = (entry.attempts || 1) + 1;
+  const publishedAt = new Date().toISOString();
+  let updated: PublishedPost;
+  try {
+    const result = await publishPost({ ...entry.retry, caption: entry.caption, type: entry.type, platform: entry.platform, author, idempotencyKey: entry.idempotencyKey }, brand);
+    updated = { ...entry, ...publishedFields(result), attempts, publishedAt, lastError: undefined, retry: undefined };
+  } catch (e) {
+    updated = { ...entry, attempts, publishedAt, lastError: describeError(e, "Network Error") };
+  }
+  await savePublished([updated]);
+  return updated;
+}
+
+function postIdOf(entry: PublishedPost): string {
+  if (!entry.postId) throw new Error("The posting webhook didn't report this post's id, so it can't be changed from here.");
+  return entry.postId;
+}
+
+/** Deletes the post on the network; the entry stays in the history, marked deleted. */
+export async function deletePublishedPost(entry: PublishedPost): Promise<PublishedPost> {
+  const { brand, author } = targetOf(entry);
+  await managePost('delete', { postId: postIdOf(entry), platform: entry.platform, author }, brand);
+  const updated: PublishedPost = { ...entry, status: 'deleted', deletedAt: new Date().toISOString() };
+  await savePublished([updated]);
+  return updated;
+}
+
+export async function editPublishedCaption(entry: PublishedPost, caption: string): Promise<PublishedPost> {
+  const { brand, author } = targetOf(entry);
+  await managePost('update_caption', { postId: postIdOf(entry), platform: entry.platform, caption, author }, brand);
+  const updated: PublishedPost = { ...entry, caption, editedAt: new Date().toISOString() };
+  await savePublished([updated]);
+  return updated;
+}
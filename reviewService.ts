@@ -0,0 +1,186 @@
+import { dbGetAll, dbGet, dbPut } from './db';
+import { BrandProfile } from './brandService';
+import { postWebhook } from './serviceClient';
+import { dataURLtoBlob } from './imageUtils';
+
+const STORE = 'reviews';
+const ACTOR_KEY = 'barq_reviewer';
+
+export type ReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'published';
+
+export const REVIEW_STATUSES: { id: ReviewStatus; label: string }[] = [
+  { id: 'draft', label: 'Draft' },
+  { id: 'in_review', label: 'In Review' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'published', label: 'Published' },
+];
+
+/** Which moves each state allows; everything else is refused. */
+export const TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['approved', 'rejected', 'draft'],
+  approved: ['published', 'draft'],
+  rejected: ['draft', 'in_review'],
+  published: [],
+};
+
+/** What the reviewers signed off on. */
+export interface ReviewSnapshot {
+  mode: 'image' | 'text' | 'carousel';
+  accomplishment: string;
+  caption: string;
+  image: string | null;
+  documentTitle?: string;
+  /** Version the image came from, to reopen the draft at the same point. */
+  versionId?: string | null;
+  /** Hash of everything that goes out (captions per network, image, alt text, document, targets); publishing compares it with the live draft. */
+  fingerprint: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  target: 'caption' | 'image';
+  text: string;
+  /** Caption comments quote the passage; image comments pin a point (0-1 of width/height). */
+  anchor?: { quote?: string; x?: number; y?: number };
+  resolved: boolean;
+  createdAt: string;
+}
+
+export interface AuditEntry {
+  at: string;
+  actor: string;
+  action: string;
+  detail?: string;
+}
+
+/**
+ * Review record for one editor draft; `id` is the draft id.
+ */
+export interface ReviewDraft {
+  id: string;
+  brandId: string;
+  authorId?: string;
+  status: ReviewStatus;
+  snapshot: ReviewSnapshot;
+  comments: ReviewComment[];
+  audit: AuditEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function loadActorName(): string {
+  return localStorage.getItem(ACTOR_KEY) || '';
+}
+
+export function saveActorName(name: string): void {
+  localStorage.setItem(ACTOR_KEY, name.trim());
+}
+
+/** FNV-1a over the parts; long data URLs make a full comparison wasteful. */
+function fnv1a(parts: string[]): string {
+  let h = 0x811c9dc5;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      h ^= part.charCodeAt(i);
+      h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    h ^= 0xff;
+  }
+  return h.toString(16).padStart(8, '0');
+}
+
+/** Hash of the image and document data URLs, kept apart so caption edits don't rehash megabytes. */
+export function mediaFingerprint(image: string | null, document?: string | null): string {
+  return fnv1a([image || '', document || '']);
+}
+
+export function fingerprint(content: {
+  caption: string;
+  /** From `mediaFingerprint`. */
+  media: string;
+  altText?: string;
+  /** Each target network with the caption it gets, in posting order. */
+  targets?: { platform: string; caption: string }[];
+}): string {
+  const targets = (content.targets || []).flatMap(t => [t.platform, t.caption]);
+  return fnv1a([content.caption, content.media, content.altText || '', ...targets]);
+}
+
+function withAudit(review: ReviewDraft, actor: string, action: string, detail?: string): ReviewDraft {
+  const at = new Date().toISOString();
+  return { ...review, updatedAt: at, audit: [...review.audit, { at, actor, action, ...(detail && { detail }) }] };
+}
+
+export function createReview(id: string, snapshot: ReviewSnapshot, owner: { brandId: string; authorId?: string }, actor: string): ReviewDraft {
+  const now = new Date().toISOString();
+  return withAudit({ id, ...owner, status: 'draft', snapshot, comments: [], audit: [], createdAt: now, updatedAt: now }, actor, 'created');
+}
+
+export function transitionReview(review: ReviewDraft, to: ReviewStatus, actor: string, note?: string): ReviewDraft {
+  if (!TRANSITIONS[review.status].includes(to)) {
+    throw new Error(`Cannot move a draft from ${review.status.replace('_', ' ')} to ${to.replace('_', ' ')}.`);
+  }
+  return withAudit({ ...review, status: to }, actor, `status → ${to}`, note);
+}
+
+/**
+ * (Re)submits the live content. Changed content always restarts review, even from approved.
+ */
+export function submitReview(review: ReviewDraft, snapshot: ReviewSnapshot, actor: string): ReviewDraft {
+  const changed = review.snapshot.fingerprint !== snapshot.fingerprint;
+  const updated = changed ? withAudit({ ...review, snapshot }, actor, 'content updated', `fingerprint ${snapshot.fingerprint}`) : review;
+  if (updated.status === 'in_review') return updated;
+  const reset = updated.status === 'draft' || updated.status === 'rejected' ? updated : transitionReview(updated, 'draft', actor, "Resubmitted with changes");
+  return transitionReview(reset, 'in_review', actor);
+}
+
+export function addComment(review: ReviewDraft, comment: Pick<ReviewComment, 'target' | 'text' | 'anchor'>, actor: string): ReviewDraft {
+  const entry: ReviewComment = { ...comment, id: crypto.randomUUID(), author: actor, resolved: false, createdAt: new Date().toISOString() };
+  return withAudit({ ...review, comments: [...review.comments, entry] }, actor, `commented on ${comment.target}`, comment.text);
+}
+
+export function toggleResolved(review: ReviewDraft, commentId: string, actor: string): ReviewDraft {
+  const comment = review.comments.find(c => c.id === commentId);
+  if (!comment) return review;
+  const comments = review.comments.map(c => c.id === commentId ? { ...c, resolved: !c.resolved } : c);
+  return withAudit({ ...review, comments }, actor, comment.resolved ? 'reopened comment' : 'resolved comment', comment.text);
+}
+
+/**
+ * Records that someone published (or scheduled) without a current approval, and why.
+ */
+export function recordOverride(review: ReviewDraft, actor: string, action: string, reason: string): ReviewDraft {
+  return withAudit(review, actor, `override: ${action} without approval`, reason);
+}
+
+export function isApproved(review: ReviewDraft | undefined, liveFingerprint: string): boolean {
+  return review?.status === 'approved' && review.snapshot.fingerprint === liveFingerprint;
+}
+
+export async function loadReviews(): Promise<ReviewDraft[]> {
+  const all = await dbGetAll<ReviewDraft>(STORE);
+  return all.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getReview(id: string): Promise<ReviewDraft | undefined> {
+  return dbGet<ReviewDraft>(STORE, id);
+}
+
+export async function saveReview(review: ReviewDraft): Promise<ReviewDraft> {
+  await dbPut(STORE, review);
+  return review;
+}
+
+/**
+ * Mirrors a review to the brand's optional sync webhook: the record as JSON, the image as a file.
+ */
+export async function syncReview(review: ReviewDraft, brand: BrandProfile): Promise<void> {
+  if (!brand.webhooks.review) return;
+  const formData = new FormData();
+  formData.append('review', JSON.stringify({ ...review, snapshot: { ...review.snapshot, image: undefined } }));
+  if (review.snapshot.image) formData.append('image', dataURLtoBlob(review.snapshot.image), `review_${review.id}.png`);
+  await postWebhook("Review sync", brand.webhooks.review, formData);
+}
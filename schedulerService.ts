@@ -0,0 +1,176 @@
+import { dbGetAll, dbGet, dbPut, dbDelete } from './db';
+import { publishPost, PostType } from './geminiService';
+import { findProfile, DEFAULT_BRAND_PROFILE } from './brandService';
+import { findAuthor } from './authorService';
+import { PlatformId } from './platforms';
+import { describeError } from './serviceErrors';
+import { PostOrigin, recordPublished } from './analyticsService';
+import { publishedFields } from './publishService';
+
+const STORE = 'schedule';
+const MAX_AUTO_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export type ScheduleStatus = 'pending' | 'sent' | 'failed' | 'retried';
+
+export interface ScheduledPost {
+  id: string;
+  caption: string;
+  image: string | null;
+  type: PostType;
+  platform: PlatformId;
+  document?: { pdf: string; title: string };
+  altText?: string;
+  /** Brand profile whose posting webhook the item is sent through; filled in on load for items queued before profiles existed. */
+  brandId: string;
+  /** Author profile the item is published as; absent on items queued before authors existed. */
+  authorId?: string;
+  /** Tone and style ref the post was made with, for the published history. */
+  origin?: PostOrigin;
+  /** UTC instant the post should go live, as an ISO string. */
+  scheduledAt: string;
+  /** IANA zone the user picked the time in; used only for display and rescheduling. */
+  timeZone: string;
+  status: ScheduleStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  sentAt?: string;
+  /** Link to the live post, when the posting webhook reports one. */
+  postUrl?: string;
+}
+
+export const LOCAL_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function listTimeZones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(LOCAL_TIME_ZONE) ? zones : [LOCAL_TIME_ZONE, ...zones];
+}
+
+/**
+ * Offset in ms between wall-clock time in `timeZone` and UTC at the given instant.
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUTC - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Converts a `datetime-local` value ("YYYY-MM-DDTHH:mm") in the given zone to a UTC ISO string.
+ */
+export function zonedInputToUtc(local: string, timeZone: string): string {
+  const [date, time] = local.split('T');
+  const [y, m, d] = date.split('-').map(Number);
+  const [hh, mm] = time.split(':').map(Number);
+  const wallClock = Date.UTC(y, m - 1, d, hh, mm);
+  let instant = wallClock - zoneOffset(wallClock, timeZone);
+  // Second pass settles instants that straddle a DST transition.
+  instant = wallClock - zoneOffset(instant, timeZone);
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Inverse of zonedInputToUtc, for pre-filling reschedule inputs.
+ */
+export function utcToZonedInput(iso: string, timeZone: string): string {
+  const instant = new Date(iso).getTime();
+  return new Date(instant + zoneOffset(instant, timeZone)).toISOString().slice(0, 16);
+}
+
+export function formatInZone(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone, weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', timeZoneName: 'short'
+  }).format(new Date(iso));
+}
+
+// Items queued before brand profiles existed were always sent as Barq Digital
+function withBrand(item: ScheduledPost): ScheduledPost {
+  return item.brandId ? item : { ...item, brandId: DEFAULT_BRAND_PROFILE.id };
+}
+
+export async function loadQueue(): Promise<ScheduledPost[]> {
+  const items = await dbGetAll<ScheduledPost>(STORE);
+  return items.map(withBrand).sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt));
+}
+
+export async function schedulePost(post: { caption: string; image: string | null; type: PostType; platform: PlatformId; document?: { pdf: string; title: string }; altText?: string; brandId: string; authorId?: string; origin?: PostOrigin }, scheduledAt: string, timeZone: string): Promise<ScheduledPost> {
+  const item: ScheduledPost = {
+    id: crypto.randomUUID(),
+    ...post,
+    scheduledAt,
+    timeZone,
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await dbPut(STORE, item);
+  return item;
+}
+
+export async function reschedulePost(item: ScheduledPost, scheduledAt: string, timeZone: string): Promise<ScheduledPost> {
+  const updated: ScheduledPost = {
+    ...item,
+    scheduledAt,
+    timeZone,
+    status: item.status === 'failed' ? 'retried' : item.status,
+  };
+  await dbPut(STORE, updated);
+  return updated;
+}
+
+export async function retryPost(item: ScheduledPost): Promise<ScheduledPost> {
+  return reschedulePost(item, new Date().toISOString(), item.timeZone);
+}
+
+export function cancelPost(id: string): Promise<void> {
+  return dbDelete(STORE, id);
+}
+
+export function isDue(item: ScheduledPost, now = Date.now()): boolean {
+  return (item.status === 'pending' || item.status === 'retried') && new Date(item.scheduledAt).getTime() <= now;
+}
+
+/**
+ * Sends a due item through the posting webhook and records the outcome.
+ * Failures are re-queued as 'retried' until MAX_AUTO_ATTEMPTS is reached; every attempt uses
+ * the item's id as idempotency key, so a send whose reply was lost isn't published twice.
+ * The stored item is re-read around the send, since another tab may have changed it since
+ * `item` was loaded: the stored copy is what goes out, the outcome is merged into the latest
+ * record, and an item cancelled meanwhile resolves to null and isn't written back. One
+ * rescheduled before sending is returned as stored, unsent.
+ */
+export async function dispatchPost(item: ScheduledPost): Promise<ScheduledPost | null> {
+  const found = await dbGet<ScheduledPost>(STORE, item.id);
+  if (!found || !isDue(found)) return found ? withBrand(found) : null;
+  const post = withBrand(found);
+  const attempts = post.attempts + 1;
+  let outcome: Partial<ScheduledPost>;
+  try {
+    const profile = findProfile(post.brandId);
+    if (!profile) throw new Error("Brand profile no longer exists.");
+    const author = post.authorId ? findAuthor(post.authorId) : undefined;
+    if (post.authorId && !author) throw new Error("Author profile no longer exists.");
+    const result = await publishPost({ image: post.image, caption: post.caption, type: post.type, platform: post.platform || 'linkedin', document: post.document, altText: post.altText, author, idempotencyKey: post.id }, profile);
+    outcome = { attempts, status: 'sent', sentAt: new Date().toISOString(), lastError: undefined, postUrl: result.url || undefined };
+    await recordPublished({ ...post, platform: post.platform || 'linkedin' }, post.origin, { ...publishedFields(result), idempotencyKey: post.id, attempts })
+      .catch(e => console.error("Failed to record published post:", e));
+  } catch (e) {
+    const lastError = describeError(e, "Publishing failed");
+    outcome = attempts < MAX_AUTO_ATTEMPTS
+      ? { attempts, lastError, status: 'retried', scheduledAt: new Date(Date.now() + RETRY_DELAY_MS).toISOString() }
+      : { attempts, lastError, status: 'failed' };
+  }
+  const latest = await dbGet<ScheduledPost>(STORE, post.id);
+  if (!latest) return null;
+  // A time picked while the send was failing beats the automatic retry delay
+  if (outcome.status === 'retried' && latest.scheduledAt !== post.scheduledAt) outcome.scheduledAt = latest.scheduledAt;
+  const updated: ScheduledPost = { ...withBrand(latest), ...outcome };
+  await dbPut(STORE, updated);
+  return updated;
+}
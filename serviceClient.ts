@@ -0,0 +1,154 @@
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse, ContentListUnion } from "@google/genai";
+import { ServiceError, toServiceError } from "./serviceErrors";
+
+export interface RequestOptions {
+  /** Aborts the request, e.g. when a newer one supersedes it. */
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  /**
+   * Streams plain-text answers: called with the text so far each time more arrives.
+   * A retry starts the text over.
+   */
+  onText?: (text: string) => void;
+}
+
+export interface ServiceConfig {
+  textTimeoutMs: number;
+  webhookTimeoutMs: number;
+  retries: number;
+  backoffMs: number;
+}
+
+const CONFIG_KEY = 'barq_service_config';
+
+export const DEFAULT_SERVICE_CONFIG: ServiceConfig = {
+  textTimeoutMs: 30 * 1000,
+  webhookTimeoutMs: 120 * 1000,
+  retries: 2,
+  backoffMs: 800,
+};
+
+/**
+ * Defaults can be overridden per browser, e.g. `localStorage.barq_service_config = '{"retries":4}'`.
+ */
+export function loadServiceConfig(): ServiceConfig {
+  try {
+    return { ...DEFAULT_SERVICE_CONFIG, ...JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}') };
+  } catch (e) {
+    return DEFAULT_SERVICE_CONFIG;
+  }
+}
+
+export function saveServiceConfig(config: Partial<ServiceConfig>): void {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify({ ...loadServiceConfig(), ...config }));
+}
+
+let client: GoogleGenAI | null = null;
+
+/** One Gemini client for the whole app. */
+export function getClient(): GoogleGenAI {
+  if (!client) client = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
+  return client;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => { clearTimeout(timer); reject(signal.reason); }, { once: true });
+});
+
+/**
+ * Runs `attempt` with a per-attempt timeout, retrying transient failures with exponential backoff
+ * and jitter. Every failure comes out as a ServiceError tagged with `source`.
+ */
+export async function withRetry<T>(
+  source: string,
+  attempt: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions & { timeoutMs: number }
+): Promise<T> {
+  const { retries, backoffMs } = { ...loadServiceConfig(), ...(options.retries !== undefined && { retries: options.retries }) };
+  for (let n = 0; ; n++) {
+    const timeout = AbortSignal.timeout(options.timeoutMs);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+    try {
+      return await attempt(signal);
+    } catch (e) {
+      const error = toServiceError(timeout.aborted && !options.signal?.aborted ? timeout.reason : e, source);
+      if (options.signal?.aborted) throw new ServiceError('cancelled', source, "Request was superseded.", { cause: e });
+      if (!error.retryable || n >= retries) throw error;
+      console.warn(`${source} failed (${error.kind}), retry ${n + 1}/${retries}:`, error.message);
+      try {
+        await sleep(backoffMs * 2 ** n * (0.75 + Math.random() / 2), options.signal);
+      } catch (abort) {
+        throw new ServiceError('cancelled', source, "Request was superseded.", { cause: abort });
+      }
+    }
+  }
+}
+
+function assertNotBlocked(response: GenerateContentResponse, source: string): void {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+    throw new ServiceError('safety', source, `Blocked: ${blockReason || finishReason}`);
+  }
+}
+
+/**
+ * Gemini text call through the shared client. Safety blocks and empty answers become typed errors.
+ * With `options.onText` the answer is streamed chunk by chunk.
+ */
+export async function generateText(
+  source: string,
+  model: string,
+  contents: ContentListUnion,
+  config: GenerateContentConfig = {},
+  options: RequestOptions = {}
+): Promise<string> {
+  const { onText } = options;
+  const text = await withRetry(source, async signal => {
+    const request = { model, contents, config: { ...config, abortSignal: signal } };
+    if (!onText) {
+      const response = await getClient().models.generateContent(request);
+      assertNotBlocked(response, source);
+      return response.text?.trim();
+    }
+    let streamed = '';
+    onText(streamed);
+    for await (const chunk of await getClient().models.generateContentStream(request)) {
+      assertNotBlocked(chunk, source);
+      streamed += chunk.text || '';
+      onText(streamed);
+    }
+    return streamed.trim();
+  }, { ...options, timeoutMs: options.timeoutMs ?? loadServiceConfig().textTimeoutMs });
+  if (!text) throw new ServiceError('empty_response', source, "The model returned no text.");
+  return text;
+}
+
+/**
+ * POSTs form data to an n8n webhook, mapping non-2xx answers to `webhook` errors with their status.
+ */
+export async function postWebhook(source: string, url: string, body: FormData, options: RequestOptions = {}): Promise<Response> {
+  return withRetry(source, async signal => {
+    const response = await fetch(url, { method: 'POST', body, signal });
+    if (!response.ok) throw new ServiceError('webhook', source, `Webhook responded ${response.status}`, { status: response.status });
+    return response;
+  }, { ...options, timeoutMs: options.timeoutMs ?? loadServiceConfig().webhookTimeoutMs });
+}
+
+/**
+ * Reads a webhook's image answer as a data URL, rejecting empty or non-image bodies.
+ */
+export async function readImageResponse(source: string, response: Response): Promise<string> {
+  const blob = await response.blob();
+  if (blob.size === 0 || (blob.type && !blob.type.startsWith('image/') && blob.type !== 'application/octet-stream')) {
+    throw new ServiceError('empty_image', source, `Expected an image but got ${blob.size ? blob.type : 'an empty body'}.`);
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new ServiceError('empty_image', source, "Image could not be read."));
+    reader.readAsDataURL(blob);
+  });
+}
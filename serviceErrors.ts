@@ -0,0 +1,95 @@
+export type ServiceErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'webhook'
+  | 'config'
+  | 'empty_image'
+  | 'empty_response'
+  | 'timeout'
+  | 'network'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Failure from Gemini or one of the n8n webhooks, classified so the UI can say what to do next.
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  /** HTTP status, when the failure came with one. */
+  readonly status?: number;
+  /** Which call failed, e.g. "Caption" or "Image webhook". */
+  readonly source: string;
+
+  constructor(kind: ServiceErrorKind, source: string, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.source = source;
+    this.status = options.status;
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+
+  /** Transient failures worth retrying with backoff. */
+  get retryable(): boolean {
+    if (this.kind === 'timeout' || this.kind === 'network') return true;
+    if (this.kind === 'quota') return this.status === 429;
+    return this.kind === 'webhook' && (this.status === 408 || this.status === 429 || (this.status ?? 0) >= 500);
+  }
+}
+
+export function isCancelled(error: unknown): boolean {
+  return error instanceof ServiceError ? error.kind === 'cancelled' : error instanceof DOMException && error.name === 'AbortError';
+}
+
+function statusOf(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Maps whatever a call threw (SDK ApiError, fetch TypeError, AbortError…) onto a ServiceError.
+ */
+export function toServiceError(error: unknown, source: string): ServiceError {
+  if (error instanceof ServiceError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = statusOf(error);
+
+  if (error instanceof DOMException && error.name === 'TimeoutError') return new ServiceError('timeout', source, message, { cause: error });
+  if (isCancelled(error)) return new ServiceError('cancelled', source, message, { cause: error });
+  if (status === 401 || status === 403 || /api key|permission|unauthenticated/i.test(message)) {
+    return new ServiceError('auth', source, message, { status, cause: error });
+  }
+  if (status === 429 || /quota|resource.?exhausted|rate limit/i.test(message)) {
+    return new ServiceError('quota', source, message, { status: status ?? 429, cause: error });
+  }
+  if (/safety|blocked/i.test(message)) return new ServiceError('safety', source, message, { status, cause: error });
+  if (status !== undefined && status >= 500) return new ServiceError('network', source, message, { status, cause: error });
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new ServiceError('network', source, message, { cause: error });
+  }
+  return new ServiceError('unknown', source, message, { status, cause: error });
+}
+
+/**
+ * Short, actionable text for the notification bar.
+ */
+export function describeError(error: unknown, fallback = "Something went wrong"): string {
+  if (!(error instanceof ServiceError)) return error instanceof Error && error.message ? error.message : fallback;
+  const { kind, source, status } = error;
+  switch (kind) {
+    case 'auth': return `${source}: API key rejected — check VITE_API_KEY or the AI provider settings`;
+    case 'quota': return `${source}: Rate limit hit — wait a minute and retry`;
+    case 'safety': return `${source}: Blocked by safety filters — rephrase the input`;
+    case 'webhook':
+      // No status: the workflow answered but reported the failure itself, in its own words
+      return status === undefined ? `${source}: ${error.message || fallback}` : `${source}: Webhook returned ${status} — check the n8n workflow`;
+    case 'config': return `${source}: ${error.message}`;
+    case 'empty_image': return `${source}: Webhook returned no image — check the n8n workflow output`;
+    case 'empty_response': return `${source}: Model returned nothing — try again`;
+    case 'timeout': return `${source}: Timed out — the service may be overloaded`;
+    case 'network': return `${source}: Unreachable — check your connection`;
+    case 'cancelled': return `${source}: Cancelled`;
+    default: return `${source}: ${error.message || fallback}`;
+  }
+}
@@ -0,0 +1,72 @@
+import { readZip } from './zipUtils';
+
+export interface Sheet {
+  name: string;
+  rows: string[][];
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+const parseXml = (bytes: Uint8Array | undefined) =>
+  bytes && new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+
+// "BC12" -> 54 (zero-based column index)
+const columnIndex = (ref: string) =>
+  [...ref.replace(/\d+$/, '')].reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Reads every worksheet of an .xlsx workbook as rows of cell text. Numbers (and dates,
+ * which Excel stores as day serials) come back as their raw stored value.
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<Sheet[]> {
+  const files = await readZip(buffer);
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  if (!workbook) throw new Error("Not an Excel workbook.");
+
+  const shared = Array.from(parseXml(files.get('xl/sharedStrings.xml'))?.getElementsByTagName('si') || [])
+    .map(si => Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''));
+  const targets = new Map(Array.from(parseXml(files.get('xl/_rels/workbook.xml.rels'))?.getElementsByTagName('Relationship') || [])
+    .map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') || ''] as const));
+
+  return Array.from(workbook.getElementsByTagName('sheet')).map(sheet => {
+    const target = (targets.get(sheet.getAttribute('r:id')) || '').replace(/^\/?(xl\/)?/, '');
+    const doc = parseXml(files.get(`xl/${target}`));
+    const rows = Array.from(doc?.getElementsByTagName('row') || []).map(row => {
+      const cells: string[] = [];
+      for (const c of Array.from(row.getElementsByTagName('c'))) {
+        const type = c.getAttribute('t');
+        const value = c.getElementsByTagName('v')[0]?.textContent || '';
+        const text = type === 's' ? shared[Number(value)] ?? ''
+          : type === 'inlineStr' ? Array.from(c.getElementsByTagName('t')).map(t => t.textContent || '').join('')
+          : value;
+        const ref = c.getAttribute('r');
+        cells[ref ? columnIndex(ref) : cells.length] = text;
+      }
+      return Array.from(cells, cell => cell ?? '');
+    });
+    return { name: sheet.getAttribute('name') || target, rows: rows.filter(r => r.some(cell => cell.trim())) };
+  });
+}
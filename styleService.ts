@@ -0,0 +1,145 @@
+import { dbGetAll, dbGet, dbPut, dbDelete } from './db';
+import { thumbnail, urlToDataUrl } from './imageUtils';
+
+const STORE = 'styles';
+const PICKS_KEY = 'barq_style_picks';
+
+/** A saved style reference image, reusable across drafts and reloads. */
+export interface StyleReference {
+  id: string;
+  name: string;
+  tags: string[];
+  image: string;
+  thumb: string;
+  /** Palette and mood written by the vision model, editable; null until described. */
+  description: string | null;
+  createdAt: string;
+}
+
+/** A library reference chosen for the next generation, with its relative weight. */
+export interface StylePick {
+  id: string;
+  weight: number;
+}
+
+/** A reference as sent to image generation; the heaviest comes first. */
+export interface WeightedStyle {
+  /** Library id; null for a reference that isn't saved. */
+  id: string | null;
+  name: string;
+  image: string;
+  weight: number;
+  description: string | null;
+}
+
+export const MAX_STYLE_PICKS = 3;
+export const MIN_STYLE_WEIGHT = 1;
+export const MAX_STYLE_WEIGHT = 10;
+export const DEFAULT_STYLE_WEIGHT = 5;
+
+export async function loadStyles(): Promise<StyleReference[]> {
+  const all = await dbGetAll<StyleReference>(STORE);
+  return all.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export function saveStyle(style: StyleReference): Promise<void> {
+  return dbPut(STORE, style);
+}
+
+/** Merges `changes` into the stored record, leaving fields edited meanwhile untouched. */
+export async function updateStyle(id: string, changes: Partial<StyleReference>): Promise<void> {
+  const stored = await dbGet<StyleReference>(STORE, id);
+  if (stored) await saveStyle({ ...stored, ...changes });
+}
+
+export function deleteStyle(id: string): Promise<void> {
+  return dbDelete(STORE, id);
+}
+
+export async function createStyle(src: string, name: string, tags: string[] = []): Promise<StyleReference> {
+  // Brand defaults may be remote; the library keeps its own copy
+  const image = await urlToDataUrl(src);
+  const style: StyleReference = {
+    id: crypto.randomUUID(),
+    name: name.trim() || 'Untitled style',
+    tags,
+    image,
+    thumb: await thumbnail(image, 240),
+    description: null,
+    createdAt: new Date().toISOString(),
+  };
+  await saveStyle(style);
+  return style;
+}
+
+/** Comma-separated tags, lower-cased and without duplicates or leading '#'. */
+export function parseTags(input: string): string[] {
+  const tags = input.split(',').map(t => t.trim().replace(/^#+/, '').toLowerCase()).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+/** A default name from an uploaded file, e.g. "neon-grid_v2.png" → "Neon Grid V2". */
+export function styleNameFromFile(fileName: string): string {
+  return fileName
+    .replace(/\.[^.]+$/, '')
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(w => w[0].toUpperCase() + w.slice(1))
+    .join(' ');
+}
+
+export function loadStylePicks(): StylePick[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PICKS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(p => typeof p?.id === 'string').slice(0, MAX_STYLE_PICKS) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+export function saveStylePicks(picks: StylePick[]): void {
+  localStorage.setItem(PICKS_KEY, JSON.stringify(picks));
+}
+
+const clampWeight = (weight: number) => Math.min(MAX_STYLE_WEIGHT, Math.max(MIN_STYLE_WEIGHT, Math.round(weight) || DEFAULT_STYLE_WEIGHT));
+
+/** The picked library references, heaviest first; picks whose reference was deleted are dropped. */
+export function resolvePicks(picks: StylePick[], library: StyleReference[]): WeightedStyle[] {
+  return picks
+    .flatMap(p => {
+      const style = library.find(s => s.id === p.id);
+      return style ? [{ id: style.id, name: style.name, image: style.image, weight: clampWeight(p.weight), description: style.description }] : [];
+    })
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/** A single reference that isn't in the library (brand default, restored version, batch row). */
+export function asStyles(styleRef: string | null): WeightedStyle[] {
+  return styleRef ? [{ id: null, name: 'Style reference', image: styleRef, weight: DEFAULT_STYLE_WEIGHT, description: null }] : [];
+}
+
+/** Each reference's share of the blend in whole percent, summing to 100. */
+export function styleShares(styles: Pick<WeightedStyle, 'weight'>[]): number[] {
+  const total = styles.reduce((sum, s) => sum + s.weight, 0);
+  if (!total) return styles.map(() => 0);
+  const shares = styles.map(s => Math.floor((s.weight / total) * 100));
+  // Hand the rounding remainder to the heaviest reference
+  const heaviest = styles.reduce((best, s, i) => s.weight > styles[best].weight ? i : best, 0);
+  shares[heaviest] += 100 - shares.reduce((sum, s) => sum + s, 0);
+  return shares;
+}
+
+/**
+ * Prompt text for the image model: the references' descriptions with their shares, so it
+ * knows which look should dominate. Empty when there is nothing to add to the images.
+ */
+export function styleGuide(styles: WeightedStyle[]): string {
+  if (!styles.length) return '';
+  if (styles.length === 1) {
+    return styles[0].description ? `STYLE REFERENCE ("${styles[0].name}"): ${styles[0].description}` : '';
+  }
+  const shares = styleShares(styles);
+  const lines = styles.map((s, i) => `- ${shares[i]}% "${s.name}" (reference ${i + 1}): ${s.description || 'see the attached image'}`);
+  return `STYLE BLEND: Combine the ${styles.length} attached references by weight. The heaviest sets the palette and lighting; lighter ones contribute texture and mood in proportion.
+${lines.join('\n')}`;
+}
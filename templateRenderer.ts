@@ -0,0 +1,150 @@
+import { BrandColor } from './brandService';
+import { loadImage } from './imageUtils';
+import { directionOf } from './languageService';
+
+export type TemplateLayout = 'centered' | 'editorial' | 'banner';
+
+export const TEMPLATE_LAYOUTS: { id: TemplateLayout; label: string }[] = [
+  { id: 'centered', label: 'Centered' },
+  { id: 'editorial', label: 'Editorial' },
+  { id: 'banner', label: 'Banner' },
+];
+
+// Noto Kufi Arabic only supplies the Arabic glyphs; Latin text still renders in DM Sans
+const FONT_FAMILY = '"DM Sans", "Inter", "Noto Kufi Arabic", sans-serif';
+const SAFE_MARGIN = 0.08;
+const MAX_FONT = 120;
+const MIN_FONT = 28;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width <= maxWidth || !line) line = candidate;
+      else { lines.push(line); line = word; }
+    });
+    if (line) lines.push(line);
+  });
+  return lines;
+}
+
+/**
+ * Largest font size (stepping down from MAX_FONT) at which the wrapped text fits the box.
+ */
+function fitText(ctx: CanvasRenderingContext2D, text: string, box: Box): { size: number; lines: string[] } {
+  for (let size = MAX_FONT; size > MIN_FONT; size -= 4) {
+    ctx.font = `800 ${size}px ${FONT_FAMILY}`;
+    const lines = wrapLines(ctx, text, box.width);
+    const fitsWidth = lines.every(l => ctx.measureText(l).width <= box.width);
+    if (fitsWidth && lines.length * size * 1.15 <= box.height) return { size, lines };
+  }
+  ctx.font = `800 ${MIN_FONT}px ${FONT_FAMILY}`;
+  return { size: MIN_FONT, lines: wrapLines(ctx, text, box.width) };
+}
+
+function paintBackground(ctx: CanvasRenderingContext2D, width: number, height: number, colors: BrandColor[]) {
+  const [edge, centre] = colors;
+  const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+  gradient.addColorStop(0, centre.hex);
+  gradient.addColorStop(1, edge.hex);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Faint geometric grain for depth
+  ctx.save();
+  ctx.globalAlpha = 0.08;
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 2;
+  for (let x = -height; x < width; x += 48) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x + height, height);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+function drawLines(ctx: CanvasRenderingContext2D, lines: string[], size: number, box: Box, align: CanvasTextAlign) {
+  ctx.font = `800 ${size}px ${FONT_FAMILY}`;
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = align;
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = 'rgba(0,0,0,0.35)';
+  ctx.shadowBlur = size / 4;
+  const lineHeight = size * 1.15;
+  const top = box.y + (box.height - lines.length * lineHeight) / 2 + lineHeight / 2;
+  const x = align === 'center' ? box.x + box.width / 2 : align === 'right' ? box.x + box.width : box.x;
+  lines.forEach((line, i) => {
+    ctx.direction = directionOf(line);
+    ctx.fillText(line, x, top + i * lineHeight);
+  });
+  ctx.shadowBlur = 0;
+}
+
+/**
+ * Deterministically composes an on-brand graphic on a canvas, without any network calls.
+ */
+export async function renderTemplate(options: {
+  text: string;
+  logoBase64: string | null;
+  colors: BrandColor[];
+  layout: TemplateLayout;
+  width?: number;
+  height?: number;
+}): Promise<string> {
+  const { text, logoBase64, colors, layout, width = 1080, height = 1350 } = options;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  await document.fonts.load(`800 ${MAX_FONT}px ${FONT_FAMILY}`, text).catch(() => undefined);
+  // Right-to-left headlines mirror the editorial layout
+  const rtl = directionOf(text) === 'rtl';
+
+  const margin = Math.round(Math.min(width, height) * SAFE_MARGIN);
+  paintBackground(ctx, width, height, colors);
+
+  // Logo occupies the top band, scaled to ~15% of the frame height
+  let logoBottom = margin;
+  if (logoBase64) {
+    const logo = await loadImage(logoBase64);
+    const logoHeight = height * 0.15;
+    const logoWidth = Math.min(width - margin * 2, logo.width * (logoHeight / logo.height));
+    const drawHeight = logo.height * (logoWidth / logo.width);
+    const logoX = layout === 'editorial' ? (rtl ? width - margin - logoWidth : margin) : (width - logoWidth) / 2;
+    ctx.drawImage(logo, logoX, margin, logoWidth, drawHeight);
+    logoBottom = margin + drawHeight;
+  }
+
+  const content: Box = { x: margin, y: logoBottom + margin / 2, width: width - margin * 2, height: height - logoBottom - margin * 1.5 };
+
+  if (layout === 'banner') {
+    const bandHeight = content.height * 0.45;
+    const band: Box = { x: 0, y: height - margin - bandHeight, width, height: bandHeight };
+    ctx.fillStyle = 'rgba(0,0,0,0.55)';
+    ctx.fillRect(band.x, band.y, band.width, band.height);
+    const inner: Box = { x: margin, y: band.y + margin / 2, width: width - margin * 2, height: bandHeight - margin };
+    const { size, lines } = fitText(ctx, text, inner);
+    drawLines(ctx, lines, size, inner, 'center');
+  } else if (layout === 'editorial') {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(rtl ? width - margin * 1.25 : margin, content.y, margin / 4, content.height);
+    const inner: Box = { ...content, x: rtl ? margin : margin * 1.75, width: content.width - margin * 0.75 };
+    const { size, lines } = fitText(ctx, text, inner);
+    drawLines(ctx, lines, size, inner, rtl ? 'right' : 'left');
+  } else {
+    const { size, lines } = fitText(ctx, text, content);
+    drawLines(ctx, lines, size, content, 'center');
+  }
+
+  return canvas.toDataURL('image/png');
+}
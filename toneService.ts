@@ -0,0 +1,128 @@
+export interface ToneProfile {
+  id: string;
+  name: string;
+  description: string;
+  dos: string[];
+  donts: string[];
+  /** Example posts injected into the caption prompt as few-shot samples. */
+  examples: string[];
+  builtIn: boolean;
+}
+
+const TONES_KEY = 'barq_tones';
+const SELECTED_KEY = 'barq_tone';
+
+export const MIN_EXAMPLES = 2;
+export const MAX_EXAMPLES = 5;
+
+const builtIn = (name: string, description: string): ToneProfile => ({
+  id: `builtin-${name.toLowerCase().replace(/\s+/g, '-')}`,
+  name,
+  description,
+  dos: [],
+  donts: [],
+  examples: [],
+  builtIn: true,
+});
+
+export const BUILTIN_TONES: ToneProfile[] = [
+  builtIn('Humble Brag', 'Proud of the result but credits luck, the team and lessons learned.'),
+  builtIn('Technical Deep Dive', 'Explains the how: architecture, trade-offs and numbers for an engineering audience.'),
+  builtIn('Storytelling', 'Narrative arc from problem to struggle to win, written in the first person.'),
+  builtIn('Collaborative', 'Puts the team first and thanks the people and partners who made it happen.'),
+  builtIn('Corporate Professional', 'Polished company voice focused on outcomes and customer impact.'),
+];
+
+export const DEFAULT_TONE_ID = 'builtin-corporate-professional';
+
+const lines = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+/**
+ * Fills in missing fields so older or hand-edited exports still load.
+ */
+export function normalizeTone(raw: Partial<ToneProfile>): ToneProfile {
+  return {
+    id: raw.id && !raw.id.startsWith('builtin-') ? raw.id : crypto.randomUUID(),
+    name: String(raw.name || 'Untitled Tone').trim(),
+    description: String(raw.description || '').trim(),
+    dos: lines(raw.dos),
+    donts: lines(raw.donts),
+    examples: lines(raw.examples).slice(0, MAX_EXAMPLES),
+    builtIn: false,
+  };
+}
+
+/**
+ * Problems that stop a custom tone from being saved.
+ */
+export function validateTone(tone: ToneProfile): string[] {
+  const problems: string[] = [];
+  if (!tone.name.trim()) problems.push("Name is required.");
+  if (!tone.builtIn && tone.examples.filter(e => e.trim()).length < MIN_EXAMPLES) {
+    problems.push(`Add at least ${MIN_EXAMPLES} example posts.`);
+  }
+  return problems;
+}
+
+export function loadTones(): ToneProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TONES_KEY) || '[]');
+    return [...BUILTIN_TONES, ...(Array.isArray(stored) ? stored.map(normalizeTone) : [])];
+  } catch (e) {
+    console.error("Stored tones are unreadable:", e);
+    return BUILTIN_TONES;
+  }
+}
+
+/** Only custom tones are persisted; built-ins always come from code. */
+export function saveTones(tones: ToneProfile[]): void {
+  localStorage.setItem(TONES_KEY, JSON.stringify(tones.filter(t => !t.builtIn)));
+}
+
+export function loadSelectedToneId(): string {
+  return localStorage.getItem(SELECTED_KEY) || DEFAULT_TONE_ID;
+}
+
+export function saveSelectedToneId(id: string): void {
+  localStorage.setItem(SELECTED_KEY, id);
+}
+
+export function findTone(tones: ToneProfile[], id: string): ToneProfile {
+  return tones.find(t => t.id === id) || tones.find(t => t.id === DEFAULT_TONE_ID)!;
+}
+
+/**
+ * Matches a tone by name (as used in batch files), falling back to an ad-hoc tone with no guidance.
+ */
+export function toneByName(tones: ToneProfile[], name: string): ToneProfile {
+  return tones.find(t => t.name.toLowerCase() === name.trim().toLowerCase())
+    || { ...builtIn(name.trim(), ''), id: `adhoc-${name.trim()}` };
+}
+
+/**
+ * Prompt section describing the voice, its rules and few-shot example posts.
+ */
+export function toneGuide(tone: ToneProfile): string {
+  const parts: string[] = [];
+  if (tone.description) parts.push(`Voice: ${tone.description}`);
+  if (tone.dos.length) parts.push(`Do:\n${tone.dos.map(d => `- ${d}`).join('\n')}`);
+  if (tone.donts.length) parts.push(`Don't:\n${tone.donts.map(d => `- ${d}`).join('\n')}`);
+  if (tone.examples.length) {
+    parts.push(`Example posts in this voice (match their style, not their content):\n${tone.examples.map((e, i) => `--- Example ${i + 1} ---\n${e}`).join('\n')}\n--- End of examples ---`);
+  }
+  return parts.join('\n\n');
+}
+
+export function exportTones(tones: ToneProfile[]): string {
+  return JSON.stringify({ version: 1, tones: tones.filter(t => !t.builtIn) }, null, 2);
+}
+
+/**
+ * Accepts either an export bundle ({ tones: [...] }), a bare array, or a single tone.
+ */
+export function importTones(json: string): ToneProfile[] {
+  const parsed = JSON.parse(json);
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.tones) ? parsed.tones : [parsed];
+  return list.map(normalizeTone);
+}
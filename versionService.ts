@@ -0,0 +1,92 @@
+import { dbGetAll, dbPut } from './db';
+import { PromptKind, TemplateRef } from './promptService';
+import { ImageCheck } from './imagePipeline';
+import { StylePick } from './styleService';
+
+const STORE = 'versions';
+
+export type VersionKind = 'generate' | 'edit';
+
+/**
+ * One node of a draft's version tree. Edits point at the version they were made from,
+ * so editing an older version starts a new branch instead of overwriting history.
+ */
+export interface ImageVersion {
+  id: string;
+  draftId: string;
+  parentId: string | null;
+  kind: VersionKind;
+  image: string;
+  prompt: string;
+  editInstructions?: string;
+  /** The heaviest style reference; `stylePicks` holds the whole blend when library styles were used. */
+  styleRef: string | null;
+  stylePicks?: StylePick[];
+  caption: string;
+  /** Caption tone in use when the version was made. */
+  tone?: string;
+  /** Alt text written (or generated) for this image. */
+  altText?: string;
+  /** Validation and vision-check results for the image. */
+  checks?: ImageCheck[];
+  /** Prompt templates (and their versions) that produced this version. */
+  templates?: Partial<Record<PromptKind, TemplateRef>>;
+  createdAt: string;
+}
+
+export async function loadVersions(draftId: string): Promise<ImageVersion[]> {
+  const all = await dbGetAll<ImageVersion>(STORE);
+  return all
+    .filter(v => v.draftId === draftId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export interface DraftSummary {
+  draftId: string;
+  /** The most recent version. */
+  head: ImageVersion;
+  startedAt: string;
+  versionCount: number;
+}
+
+/**
+ * Every draft that has versions, most recently changed first.
+ */
+export async function loadDraftSummaries(): Promise<DraftSummary[]> {
+  const drafts = new Map<string, DraftSummary>();
+  for (const v of await dbGetAll<ImageVersion>(STORE)) {
+    const draft = drafts.get(v.draftId);
+    if (!draft) {
+      drafts.set(v.draftId, { draftId: v.draftId, head: v, startedAt: v.createdAt, versionCount: 1 });
+      continue;
+    }
+    draft.versionCount++;
+    if (v.createdAt > draft.head.createdAt) draft.head = v;
+    if (v.createdAt < draft.startedAt) draft.startedAt = v.createdAt;
+  }
+  return [...drafts.values()].sort((a, b) => b.head.createdAt.localeCompare(a.head.createdAt));
+}
+
+export async function recordVersion(version: Omit<ImageVersion, 'id' | 'createdAt'>): Promise<ImageVersion> {
+  const saved: ImageVersion = { ...version, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+  await dbPut(STORE, saved);
+  return saved;
+}
+
+export function updateVersion(version: ImageVersion): Promise<void> {
+  return dbPut(STORE, version);
+}
+
+/**
+ * Ancestors of a version from the root down to (and including) the version itself.
+ */
+export function lineage(versions: ImageVersion[], id: string): ImageVersion[] {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const path: ImageVersion[] = [];
+  let node = byId.get(id);
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return path;
+}